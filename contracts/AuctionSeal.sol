@@ -1,55 +1,290 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IERC721 } from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import { MerkleProof } from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import { AuctionSettlement } from "./AuctionSettlement.sol";
+import { IConfidentialToken } from "./ConfidentialToken.sol";
 
 contract AuctionSealFHE is SepoliaConfig {
     using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
+    using SafeERC20 for IERC20;
+
+    // The owner holds every role implicitly and is the only one who grants ADMIN_ROLE;
+    // admins grant and revoke the other roles and keep the provider registry.
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    // Manages any auction as if it were its creator
+    bytes32 public constant AUCTIONEER_ROLE = keccak256("AUCTIONEER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    // Processes bids and requests settlement of any auction, e.g. a keeper running auction:settle
+    bytes32 public constant SETTLER_ROLE = keccak256("SETTLER_ROLE");
 
     address public owner;
+    // Set by transferOwnership until the new owner accepts
+    address public pendingOwner;
+    mapping(bytes32 => mapping(address => bool)) internal roles;
     mapping(address => bool) public isProvider;
     bool public paused;
     uint256 public cooldownSeconds;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
 
+    // In a uniform-price auction encryptedBidAmount is the unit price; encryptedQuantity is
+    // only set there and allocation only after such an auction settled. tieBreakRank is
+    // only drawn for auctions that break ties at random.
     struct Bid {
         address bidder;
         euint32 encryptedBidAmount;
+        euint32 encryptedQuantity;
+        uint32 allocation;
+        euint32 tieBreakRank;
+    }
+
+    // FirstPrice: the winner pays their own bid. SecondPrice (Vickrey): the winner pays
+    // the second-highest bid, or the reserve if that is higher. UniformPrice: `quantity`
+    // identical units go to the highest unit prices and every winner pays the lowest
+    // accepted unit price. Dutch: the ask falls on a public schedule and the auction sells
+    // at the current ask as soon as the highest encrypted limit reaches it.
+    enum AuctionType {
+        FirstPrice,
+        SecondPrice,
+        UniformPrice,
+        Dutch
     }
-    Bid[] public bids;
 
-    uint256 public currentBatchId;
-    bool public batchOpen;
+    // Which of several equal bids wins. Latest keeps the rule every auction had before
+    // tie-breaking became configurable. Random compares an encrypted random rank drawn for
+    // each bid when it is submitted; it is not available for uniform-price auctions, whose
+    // settlement has no room left for the extra comparisons.
+    enum TieBreak {
+        Latest,
+        Earliest,
+        Random
+    }
+
+    // Who may bid. Providers is the contract-wide registry admins keep, which every
+    // auction used before participation became configurable. An Allowlist is kept by the
+    // creator. A Merkle allowlist is only a root on-chain; each listed account proves its
+    // membership once through joinAuction before bidding.
+    enum Participation {
+        Providers,
+        Open,
+        Allowlist,
+        Merkle
+    }
 
+    // merkleRoot is only set for Merkle auctions and allowlist only for Allowlist ones.
+    // proofsUri tells bidders where the creator published the tree to take their proof from.
+    struct ParticipationRule {
+        Participation participation;
+        bytes32 merkleRoot;
+        address[] allowlist;
+        string proofsUri;
+    }
+
+    // token is the ERC-20 bids are paid in, or address(0) for ETH. priceUnit converts bid
+    // units into token amounts (1e15 makes a bid of 250 cost 0.25 ETH) and every bid
+    // locks `deposit` until the auction settles. A confidential token escrows the full
+    // encrypted price of each bid instead, so it takes no deposit.
+    struct PaymentTerms {
+        address token;
+        uint256 priceUnit;
+        uint256 deposit;
+        bool confidential;
+    }
+
+    // The ask of a Dutch auction starts at startPrice and drops by priceDrop every
+    // tickSeconds after startTime, down to floorPrice. Ignored for other auction types.
+    struct DutchSchedule {
+        uint32 startPrice;
+        uint32 floorPrice;
+        uint32 priceDrop;
+        uint32 tickSeconds;
+    }
+
+    // An ERC-721 on sale, held by the contract from creation until the winner pays for it
+    struct Item {
+        address collection;
+        uint256 tokenId;
+    }
+
+    struct Auction {
+        address creator;
+        AuctionType auctionType;
+        TieBreak tieBreak;
+        uint32 quantity;
+        uint64 startTime;
+        uint64 endTime;
+        euint32 reservePrice;
+        bool closed;
+        bool settled;
+        bool reserveMet;
+        address winner;
+        uint32 clearingPrice;
+        uint64 settledAt;
+        PaymentTerms payment;
+    }
+
+    // One per bidder and auction. deposit adds up over the bidder's bids, or encryptedDeposit
+    // when paying in a confidential token; unitsWon is set at settlement, 1 for the winner of
+    // a single-unit auction.
+    struct Escrow {
+        uint256 deposit;
+        euint64 encryptedDeposit;
+        uint32 unitsWon;
+        bool paid;
+    }
+
+    // Keeps the encrypted running totals in settlement well clear of the euint32 range
+    uint32 public constant MAX_QUANTITY = 1_000_000;
+    // Uniform-price settlement compares every pair of bids; an eighth bid would push the
+    // decryption request over the per-transaction HCU limit
+    uint256 public constant MAX_UNIFORM_PRICE_BIDS = 7;
+    // Most bids of a single-unit auction one transaction folds into the running maximum. The
+    // comparisons form one sequential chain, and around 21 bids of a random-tie-break
+    // second-price auction exceed the per-transaction HCU depth limit; larger auctions go
+    // through processBids in chunks before settlement is requested.
+    uint256 public constant MAX_BIDS_PER_CHUNK = 16;
+    // Winners must pay within this long after settlement, after which the creator may keep
+    // their deposit instead
+    uint256 public constant PAYMENT_PERIOD = 7 days;
+
+    // Auction ids start at 1 so that 0 never refers to an existing auction
+    uint256 public auctionCount;
+    mapping(uint256 => Auction) public auctions;
+    mapping(uint256 => Bid[]) public bids;
+    mapping(uint256 => mapping(address => Escrow)) public escrows;
+    // Items the contract still holds; empty for auctions of something that is not on-chain
+    // and once the item went to the winner or back to the creator
+    mapping(uint256 => Item) public items;
+    mapping(uint256 => Participation) public participation;
+    mapping(uint256 => bytes32) public merkleRoots;
+    // Accounts admitted to an Allowlist or Merkle auction
+    mapping(uint256 => mapping(address => bool)) public allowlisted;
+    mapping(uint256 => DutchSchedule) public dutchSchedules;
+    // The ask a Dutch auction's latest settlement request checked the bids against
+    mapping(uint256 => uint32) public dutchCheckPrice;
+    // Payments and forfeited deposits waiting for the creator to withdraw them
+    mapping(uint256 => uint256) public proceeds;
+
+    // Encrypted running state of a single-unit auction's winner search over its first
+    // `processed` bids. Bids are only ever appended, so the state stays valid while a Dutch
+    // auction keeps taking bids between settlement requests.
+    struct Reduction {
+        uint256 processed;
+        euint32 maxBid;
+        euint32 secondBid;
+        euint32 winnerIndex;
+        euint32 winnerRank;
+    }
+    mapping(uint256 => Reduction) public reductions;
+
+    // What a decryption request was made for. The callback settles from the handles stored
+    // here rather than recomputing them, so its result always describes the first bidCount
+    // bids, however the auction changed in between. ask is the price a Dutch auction was
+    // checked against.
     struct DecryptionContext {
-        uint256 batchId;
-        bytes32 stateHash;
+        uint256 auctionId;
         bool processed;
+        uint256 bidCount;
+        uint32 ask;
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
+    // (reserveMet, clearingPrice, then the winning bid's index or every bid's allocation)
+    mapping(uint256 => bytes32[]) internal requestedHandles;
 
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event Paused(address account);
     event Unpaused(address account);
     event CooldownSecondsSet(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
-    event BatchOpened(uint256 batchId);
-    event BatchClosed(uint256 batchId);
-    event BidSubmitted(address indexed bidder, uint256 batchId, euint32 encryptedBidAmount);
-    event DecryptionRequested(uint256 indexed requestId, uint256 batchId, bytes32 stateHash);
-    event AuctionSettled(uint256 indexed requestId, uint256 batchId, address winner, uint256 winningBidAmount);
+    event AuctionCreated(
+        uint256 indexed auctionId,
+        address indexed creator,
+        AuctionType auctionType,
+        TieBreak tieBreak,
+        uint32 quantity,
+        uint64 startTime,
+        uint64 endTime,
+        PaymentTerms payment,
+        string title,
+        string description
+    );
+    event AuctionClosed(uint256 indexed auctionId);
+    event ItemEscrowed(uint256 indexed auctionId, address indexed collection, uint256 tokenId);
+    event ItemReleased(uint256 indexed auctionId, address indexed to);
+    event ParticipationSet(
+        uint256 indexed auctionId,
+        Participation participation,
+        bytes32 merkleRoot,
+        string proofsUri
+    );
+    event AllowlistUpdated(uint256 indexed auctionId, address indexed account, bool allowed);
+    event DutchScheduleSet(uint256 indexed auctionId, DutchSchedule schedule);
+    event DutchPriceNotReached(uint256 indexed auctionId, uint32 price);
+    event BidSubmitted(
+        address indexed bidder,
+        uint256 indexed auctionId,
+        euint32 encryptedBidAmount,
+        euint32 encryptedQuantity
+    );
+    event BidsProcessed(uint256 indexed auctionId, uint256 processed, uint256 total);
+    event DecryptionRequested(uint256 indexed requestId, uint256 indexed auctionId);
+    event AuctionSettled(
+        uint256 indexed requestId,
+        uint256 indexed auctionId,
+        bool reserveMet,
+        address winner,
+        uint256 clearingPrice
+    );
+    event PaymentMade(uint256 indexed auctionId, address indexed bidder, uint256 amount);
+    event RefundWithdrawn(uint256 indexed auctionId, address indexed bidder, uint256 amount);
+    event DepositForfeited(uint256 indexed auctionId, address indexed bidder, uint256 amount);
+    event ConfidentialRefundWithdrawn(uint256 indexed auctionId, address indexed bidder, euint64 amount);
+    event ProceedsWithdrawn(uint256 indexed auctionId, address indexed creator, uint256 amount);
+    // One per winning bid of a uniform-price auction, emitted before its AuctionSettled
+    event UnitsAllocated(uint256 indexed auctionId, address indexed bidder, uint256 bidIndex, uint256 quantity);
 
     error NotOwner();
+    error NotPendingOwner();
+    error MissingRole(bytes32 role);
+    error InvalidRole();
     error NotProvider();
+    error NotEligible();
+    error NotCreator();
     error PausedError();
     error CooldownActive();
-    error BatchNotOpen();
-    error NoBidsInBatch();
+    error AuctionNotFound();
+    error AuctionNotStarted();
+    error AuctionNotOpen();
+    error AuctionStillOpen();
+    error InvalidSchedule();
+    error InvalidQuantity();
+    error WrongAuctionType();
+    error TooManyBids();
+    error InvalidPaymentTerms();
+    error InvalidItem();
+    error InvalidTieBreak();
+    error InvalidParticipation();
+    error InvalidMerkleProof();
+    error IncorrectPayment();
+    error NothingToClaim();
+    error PaymentPeriodOver();
+    error PaymentPeriodActive();
+    error TransferFailed();
+    error AuctionAlreadySettled();
+    error NoBids();
+    error BidsNotProcessed();
     error ReplayAttempt();
-    error StateMismatch();
     error InvalidProof();
     error BidSubmissionFailed();
     error DecryptionFailed();
@@ -59,27 +294,47 @@ contract AuctionSealFHE is SepoliaConfig {
         _;
     }
 
-    modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
+    // The checks below live in internal functions rather than in the modifiers themselves,
+    // which would be inlined at every use and push the contract past the code size limit.
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role);
+        _;
+    }
+
+    modifier onlyEligible(uint256 auctionId) {
+        _checkEligible(auctionId);
+        _;
+    }
+
+    modifier auctionExists(uint256 auctionId) {
+        _checkExists(auctionId);
+        _;
+    }
+
+    modifier onlyCreator(uint256 auctionId) {
+        _checkCreator(auctionId, false);
+        _;
+    }
+
+    // Settlement can also be driven by a settler, who has no other say over the auction, and
+    // by anyone once bidding has ended, so that no deposit depends on the creator settling
+    modifier onlySettler(uint256 auctionId) {
+        _checkCreator(auctionId, true);
         _;
     }
 
     modifier whenNotPaused() {
-        if (paused) revert PausedError();
+        _checkNotPaused();
         _;
     }
 
     modifier checkSubmissionCooldown() {
-        if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
-            revert CooldownActive();
-        }
+        _checkCooldown(lastSubmissionTime[msg.sender]);
         _;
     }
 
     modifier checkDecryptionCooldown() {
-        if (block.timestamp < lastDecryptionRequestTime[msg.sender] + cooldownSeconds) {
-            revert CooldownActive();
-        }
+        _checkCooldown(lastDecryptionRequestTime[msg.sender]);
         _;
     }
 
@@ -90,70 +345,410 @@ contract AuctionSealFHE is SepoliaConfig {
         cooldownSeconds = 60; // Default cooldown
     }
 
+    // Ownership moves only once the new owner accepts it, so a mistyped address cannot take
+    // it. Calling this again replaces the pending owner.
     function transferOwnership(address newOwner) external onlyOwner {
         require(newOwner != address(0), "New owner is zero address");
-        emit OwnershipTransferred(owner, newOwner);
-        owner = newOwner;
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return account == owner || roles[role][account];
+    }
+
+    function grantRole(bytes32 role, address account) external {
+        _checkRoleAdmin(role);
+        if (!roles[role][account]) {
+            roles[role][account] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    function revokeRole(bytes32 role, address account) external {
+        _checkRoleAdmin(role);
+        _revokeRole(role, account);
     }
 
-    function addProvider(address provider) external onlyOwner {
+    function renounceRole(bytes32 role) external {
+        _revokeRole(role, msg.sender);
+    }
+
+    function _checkRole(bytes32 role) internal view {
+        if (!hasRole(role, msg.sender)) revert MissingRole(role);
+    }
+
+    // Auctions limited to providers keep reverting with NotProvider as before
+    function _checkEligible(uint256 auctionId) internal view {
+        if (!canBid(auctionId, msg.sender)) {
+            if (participation[auctionId] == Participation.Providers) revert NotProvider();
+            revert NotEligible();
+        }
+    }
+
+    function _checkNotPaused() internal view {
+        if (paused) revert PausedError();
+    }
+
+    function _checkCooldown(uint256 lastTime) internal view {
+        if (block.timestamp < lastTime + cooldownSeconds) revert CooldownActive();
+    }
+
+    function _checkExists(uint256 auctionId) internal view {
+        if (auctionId == 0 || auctionId > auctionCount) revert AuctionNotFound();
+    }
+
+    // Auctioneers can act on any auction, e.g. to settle one whose creator went away
+    function _checkCreator(uint256 auctionId, bool settling) internal view {
+        if (msg.sender == auctions[auctionId].creator || hasRole(AUCTIONEER_ROLE, msg.sender)) return;
+        if (settling && block.timestamp >= auctions[auctionId].endTime) return;
+        if (!settling || !hasRole(SETTLER_ROLE, msg.sender)) revert NotCreator();
+    }
+
+    function _checkRoleAdmin(bytes32 role) internal view {
+        if (role == ADMIN_ROLE) {
+            if (msg.sender != owner) revert NotOwner();
+        } else if (role == AUCTIONEER_ROLE || role == PAUSER_ROLE || role == SETTLER_ROLE) {
+            if (!hasRole(ADMIN_ROLE, msg.sender)) revert MissingRole(ADMIN_ROLE);
+        } else {
+            revert InvalidRole();
+        }
+    }
+
+    function _revokeRole(bytes32 role, address account) internal {
+        if (roles[role][account]) {
+            roles[role][account] = false;
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    function addProvider(address provider) external onlyRole(ADMIN_ROLE) {
         if (!isProvider[provider]) {
             isProvider[provider] = true;
             emit ProviderAdded(provider);
         }
     }
 
-    function removeProvider(address provider) external onlyOwner {
+    function removeProvider(address provider) external onlyRole(ADMIN_ROLE) {
         if (isProvider[provider]) {
             isProvider[provider] = false;
             emit ProviderRemoved(provider);
         }
     }
 
-    function pause() external onlyOwner whenNotPaused {
+    function pause() external onlyRole(PAUSER_ROLE) whenNotPaused {
         paused = true;
         emit Paused(msg.sender);
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         paused = false;
         emit Unpaused(msg.sender);
     }
 
-    function setCooldownSeconds(uint256 newCooldownSeconds) external onlyOwner {
+    function setCooldownSeconds(uint256 newCooldownSeconds) external onlyRole(ADMIN_ROLE) {
         require(newCooldownSeconds > 0, "Cooldown must be positive");
         emit CooldownSecondsSet(cooldownSeconds, newCooldownSeconds);
         cooldownSeconds = newCooldownSeconds;
     }
 
-    function openBatch() external onlyOwner whenNotPaused {
-        currentBatchId++;
-        batchOpen = true;
-        bids = new Bid[](0); // Reset bids array for the new batch
-        emit BatchOpened(currentBatchId);
+    // Bids are accepted from startTime (inclusive) until endTime (exclusive), judged by
+    // block.timestamp. A start in the past opens the auction immediately.
+    // The reserve stays encrypted for good: settlement only reveals whether it was met.
+    // `quantity` is the number of units on offer and must be 1 unless the auction is
+    // UniformPrice. A single-unit auction may sell an ERC-721, which the creator must have
+    // approved this contract to take; it needs a deposit or a confidential token, so that the
+    // winner has something at stake until they pay. `schedule` only applies to Dutch
+    // auctions. Title and description are copied to memory only to keep this function within
+    // the stack limit.
+    function createAuction(
+        string memory title,
+        string memory description,
+        AuctionType auctionType,
+        TieBreak tieBreak,
+        uint32 quantity,
+        uint64 startTime,
+        uint64 endTime,
+        PaymentTerms calldata payment,
+        Item calldata item,
+        DutchSchedule calldata schedule,
+        ParticipationRule calldata rule,
+        externalEuint32 encryptedReservePrice,
+        bytes calldata inputProof
+    ) external whenNotPaused returns (uint256 auctionId) {
+        if (startTime < block.timestamp) startTime = uint64(block.timestamp);
+        if (endTime <= startTime) revert InvalidSchedule();
+        bool dutch = auctionType == AuctionType.Dutch;
+        if (
+            dutch &&
+            (schedule.priceDrop == 0 || schedule.tickSeconds == 0 || schedule.floorPrice > schedule.startPrice)
+        ) {
+            revert InvalidSchedule();
+        }
+        if (auctionType == AuctionType.UniformPrice ? quantity == 0 || quantity > MAX_QUANTITY : quantity != 1) {
+            revert InvalidQuantity();
+        }
+        if (
+            payment.priceUnit == 0 ||
+            (payment.token != address(0) && payment.token.code.length == 0) ||
+            (payment.confidential &&
+                (payment.token == address(0) || payment.deposit != 0 || payment.priceUnit > type(uint64).max))
+        ) {
+            revert InvalidPaymentTerms();
+        }
+        if (
+            item.collection != address(0) &&
+            (auctionType == AuctionType.UniformPrice || (payment.deposit == 0 && !payment.confidential))
+        ) {
+            revert InvalidItem();
+        }
+        if (tieBreak == TieBreak.Random && auctionType == AuctionType.UniformPrice) revert InvalidTieBreak();
+
+        euint32 reservePrice = FHE.fromExternal(encryptedReservePrice, inputProof);
+        if (!reservePrice.isInitialized()) revert BidSubmissionFailed();
+        FHE.allowThis(reservePrice);
+        FHE.allow(reservePrice, msg.sender);
+
+        auctionId = ++auctionCount;
+        Auction storage auction = auctions[auctionId];
+        auction.creator = msg.sender;
+        auction.auctionType = auctionType;
+        auction.tieBreak = tieBreak;
+        auction.quantity = quantity;
+        auction.startTime = startTime;
+        auction.endTime = endTime;
+        auction.reservePrice = reservePrice;
+        auction.payment = payment;
+        emit AuctionCreated(
+            auctionId,
+            msg.sender,
+            auctionType,
+            tieBreak,
+            quantity,
+            startTime,
+            endTime,
+            payment,
+            title,
+            description
+        );
+
+        if (dutch) {
+            dutchSchedules[auctionId] = schedule;
+            emit DutchScheduleSet(auctionId, schedule);
+        }
+        _setParticipation(auctionId, rule);
+
+        if (item.collection != address(0)) {
+            items[auctionId] = item;
+            IERC721(item.collection).transferFrom(msg.sender, address(this), item.tokenId);
+            emit ItemEscrowed(auctionId, item.collection, item.tokenId);
+        }
     }
 
-    function closeBatch() external onlyOwner whenNotPaused {
-        if (!batchOpen) revert BatchNotOpen();
-        batchOpen = false;
-        emit BatchClosed(currentBatchId);
+    // Auctions limited to providers emit nothing, like every auction before participation
+    // became configurable
+    function _setParticipation(uint256 auctionId, ParticipationRule calldata rule) internal {
+        if (
+            (rule.participation == Participation.Merkle) != (rule.merkleRoot != bytes32(0)) ||
+            (rule.participation != Participation.Allowlist && rule.allowlist.length != 0)
+        ) {
+            revert InvalidParticipation();
+        }
+        if (rule.participation == Participation.Providers) return;
+        participation[auctionId] = rule.participation;
+        merkleRoots[auctionId] = rule.merkleRoot;
+        emit ParticipationSet(auctionId, rule.participation, rule.merkleRoot, rule.proofsUri);
+        for (uint i = 0; i < rule.allowlist.length; i++) {
+            allowlisted[auctionId][rule.allowlist[i]] = true;
+            emit AllowlistUpdated(auctionId, rule.allowlist[i], true);
+        }
     }
 
-    function submitBid(euint32 encryptedBidAmount) external onlyProvider whenNotPaused checkSubmissionCooldown {
-        if (!batchOpen) revert BatchNotOpen();
-        if (!encryptedBidAmount.isInitialized()) revert BidSubmissionFailed();
+    // Adds accounts to or removes them from an Allowlist auction. Bids already placed stay.
+    function setAllowlist(
+        uint256 auctionId,
+        address[] calldata accounts,
+        bool allowed
+    ) external auctionExists(auctionId) onlyCreator(auctionId) whenNotPaused {
+        if (participation[auctionId] != Participation.Allowlist) revert InvalidParticipation();
+        for (uint i = 0; i < accounts.length; i++) {
+            allowlisted[auctionId][accounts[i]] = allowed;
+            emit AllowlistUpdated(auctionId, accounts[i], allowed);
+        }
+    }
+
+    // Admits the sender to a Merkle auction. Leaves are hashed twice, as OpenZeppelin's
+    // StandardMerkleTree does for a tree of addresses, so a leaf can never pass as a node.
+    function joinAuction(
+        uint256 auctionId,
+        bytes32[] calldata proof
+    ) external auctionExists(auctionId) whenNotPaused {
+        if (participation[auctionId] != Participation.Merkle) revert InvalidParticipation();
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender))));
+        if (!MerkleProof.verifyCalldata(proof, merkleRoots[auctionId], leaf)) revert InvalidMerkleProof();
+        allowlisted[auctionId][msg.sender] = true;
+        emit AllowlistUpdated(auctionId, msg.sender, true);
+    }
+
+    // Whether `account` may bid, leaving aside the auction's schedule and the cooldown.
+    // Merkle auctions only count accounts that already joined.
+    function canBid(uint256 auctionId, address account) public view returns (bool) {
+        Participation rule = participation[auctionId];
+        if (rule == Participation.Open) return true;
+        if (rule == Participation.Providers) return isProvider[account];
+        return allowlisted[auctionId][account];
+    }
+
+    function closeAuction(
+        uint256 auctionId
+    ) external auctionExists(auctionId) onlyCreator(auctionId) whenNotPaused {
+        Auction storage auction = auctions[auctionId];
+        if (auction.closed) revert AuctionNotOpen();
+        auction.closed = true;
+        emit AuctionClosed(auctionId);
+    }
+
+    // Gives the item back to the creator when the auction cannot sell it: one that ended
+    // without bids, which can never settle and is closed here, one that settled below the
+    // reserve, and one
+    // whose winner let the payment period pass without paying. A confidential escrow always
+    // covers the price, so its winner is charged through forfeitDeposit instead.
+    function reclaimItem(uint256 auctionId) external auctionExists(auctionId) onlyCreator(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        if (bids[auctionId].length == 0) {
+            if (!auction.closed) {
+                if (block.timestamp < auction.endTime) revert AuctionStillOpen();
+                auction.closed = true;
+                emit AuctionClosed(auctionId);
+            }
+        } else if (auction.reserveMet) {
+            if (auction.payment.confidential || escrows[auctionId][auction.winner].paid) revert NothingToClaim();
+            if (block.timestamp < auction.settledAt + PAYMENT_PERIOD) revert PaymentPeriodActive();
+        } else if (!auction.settled) {
+            revert NothingToClaim();
+        }
+        _releaseItem(auctionId, auction.creator);
+    }
+
+    // The ask of a Dutch auction at `timestamp`. Times before the start give the start
+    // price; the ask never falls below the floor.
+    function dutchPriceAt(uint256 auctionId, uint256 timestamp) public view returns (uint32) {
+        DutchSchedule storage schedule = dutchSchedules[auctionId];
+        uint64 startTime = auctions[auctionId].startTime;
+        if (timestamp <= startTime) return schedule.startPrice;
+        uint256 drop = uint256(schedule.priceDrop) * ((timestamp - startTime) / schedule.tickSeconds);
+        if (drop >= schedule.startPrice - schedule.floorPrice) return schedule.floorPrice;
+        return schedule.startPrice - uint32(drop);
+    }
+
+    function bidCount(uint256 auctionId) external view returns (uint256) {
+        return bids[auctionId].length;
+    }
+
+    // Single-unit auctions only; uniform-price auctions take submitMultiUnitBid. Both lock
+    // the auction's deposit: msg.value for ETH, otherwise an approved token transfer.
+    function submitBid(
+        uint256 auctionId,
+        externalEuint32 encryptedBidAmount,
+        bytes calldata inputProof
+    ) external payable auctionExists(auctionId) onlyEligible(auctionId) whenNotPaused checkSubmissionCooldown {
+        Auction storage auction = auctions[auctionId];
+        if (auction.auctionType == AuctionType.UniformPrice) revert WrongAuctionType();
+        _requireBiddingOpen(auction);
+        euint32 bidAmount = FHE.fromExternal(encryptedBidAmount, inputProof);
+        _pushBid(auctionId, bidAmount, euint32.wrap(0));
+    }
+
+    // Both values come from one encrypted input, so they share the proof
+    function submitMultiUnitBid(
+        uint256 auctionId,
+        externalEuint32 encryptedUnitPrice,
+        externalEuint32 encryptedQuantity,
+        bytes calldata inputProof
+    ) external payable auctionExists(auctionId) onlyEligible(auctionId) whenNotPaused checkSubmissionCooldown {
+        Auction storage auction = auctions[auctionId];
+        if (auction.auctionType != AuctionType.UniformPrice) revert WrongAuctionType();
+        _requireBiddingOpen(auction);
+        if (bids[auctionId].length >= MAX_UNIFORM_PRICE_BIDS) revert TooManyBids();
+        euint32 unitPrice = FHE.fromExternal(encryptedUnitPrice, inputProof);
+        euint32 quantity = FHE.fromExternal(encryptedQuantity, inputProof);
+        _requireInitialized(quantity);
+        _pushBid(auctionId, unitPrice, quantity);
+    }
+
+    function _requireBiddingOpen(Auction storage auction) internal view {
+        if (block.timestamp < auction.startTime) revert AuctionNotStarted();
+        if (auction.closed || auction.settled || block.timestamp >= auction.endTime) revert AuctionNotOpen();
+    }
+
+    function _pushBid(uint256 auctionId, euint32 bidAmount, euint32 quantity) internal {
+        _requireInitialized(bidAmount);
+        PaymentTerms storage payment = auctions[auctionId].payment;
+        if (payment.confidential) (bidAmount, quantity) = _escrowBid(auctionId, bidAmount, quantity);
+
+        // The contract needs the handles for settlement, the bidder to decrypt their own bid
+        FHE.allowThis(bidAmount);
+        FHE.allow(bidAmount, msg.sender);
+        if (quantity.isInitialized()) {
+            FHE.allowThis(quantity);
+            FHE.allow(quantity, msg.sender);
+        }
+
+        _collect(payment.token, payment.deposit);
+        escrows[auctionId][msg.sender].deposit += payment.deposit;
+
+        // Drawn now rather than at settlement, so that the rank is fixed before any bid is
+        // compared and every chunk of the reduction sees the same value
+        euint32 rank;
+        if (auctions[auctionId].tieBreak == TieBreak.Random) {
+            rank = FHE.randEuint32();
+            FHE.allowThis(rank);
+        }
 
         lastSubmissionTime[msg.sender] = block.timestamp;
-        bids.push(Bid(msg.sender, encryptedBidAmount));
-        emit BidSubmitted(msg.sender, currentBatchId, encryptedBidAmount);
+        bids[auctionId].push(Bid(msg.sender, bidAmount, quantity, 0, rank));
+        emit BidSubmitted(msg.sender, auctionId, bidAmount, quantity);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    // Pulls the full price of the bid out of the bidder's confidential balance. A bid that
+    // overflows or is not covered by balance and allowance cannot revert without revealing
+    // why, so it becomes a bid of zero instead.
+    function _escrowBid(
+        uint256 auctionId,
+        euint32 bidAmount,
+        euint32 quantity
+    ) internal returns (euint32, euint32) {
+        Auction storage auction = auctions[auctionId];
+        uint64 priceUnit = uint64(auction.payment.priceUnit);
+        euint64 units = FHE.asEuint64(bidAmount);
+        if (quantity.isInitialized()) units = units.mul(FHE.asEuint64(quantity.min(auction.quantity)));
+        ebool affordable = units.le(type(uint64).max / priceUnit);
+        euint64 cost = FHE.select(affordable, units.mul(priceUnit), FHE.asEuint64(0));
+
+        address token = auction.payment.token;
+        FHE.allowTransient(cost, token);
+        euint64 transferred = IConfidentialToken(token).transferFrom(msg.sender, address(this), cost);
+        ebool funded = affordable.and(transferred.eq(cost));
+
+        Escrow storage escrow = escrows[auctionId][msg.sender];
+        escrow.encryptedDeposit = escrow.encryptedDeposit.add(transferred);
+        FHE.allowThis(escrow.encryptedDeposit);
+        FHE.allow(escrow.encryptedDeposit, msg.sender);
+
+        euint32 zero = FHE.asEuint32(0);
+        if (quantity.isInitialized()) quantity = FHE.select(funded, quantity, zero);
+        return (FHE.select(funded, bidAmount, zero), quantity);
     }
 
     function _initIfNeeded() internal {
-        euint32(0); // Ensures FHE library is initialized if not already
+        FHE.asEuint32(0); // Ensures FHE library is initialized if not already
     }
 
     function _requireInitialized(euint32 v) internal pure {
@@ -163,72 +758,298 @@ contract AuctionSealFHE is SepoliaConfig {
         if (!b.isInitialized()) revert BidSubmissionFailed();
     }
 
-    function findHighestBidder() external onlyOwner whenNotPaused checkDecryptionCooldown {
-        if (bids.length == 0) revert NoBidsInBatch();
+    // The ciphertexts a decryption request is made for. Both layouts start with
+    // (reserveMet, clearingPrice); AuctionSettlement describes the rest.
+    function _winnerCiphertexts(uint256 auctionId) internal returns (bytes32[] memory) {
+        Auction storage auction = auctions[auctionId];
+        if (auction.auctionType == AuctionType.UniformPrice) {
+            return AuctionSettlement.uniformPriceCiphertexts(auction, bids[auctionId]);
+        }
+        return AuctionSettlement.singleUnitCiphertexts(auction, reductions[auctionId], dutchCheckPrice[auctionId]);
+    }
+
+    // Folds bids up to `end` into the auction's running state; see AuctionSettlement.foldBids
+    function _foldBids(uint256 auctionId, uint256 end) internal {
+        Reduction storage reduction = reductions[auctionId];
+        if (reduction.processed >= end) return;
+        AuctionSettlement.foldBids(auctions[auctionId], bids[auctionId], reduction, end);
+        emit BidsProcessed(auctionId, end, bids[auctionId].length);
+    }
+
+    // Advances a single-unit auction's winner search by up to maxCount bids, capped at
+    // MAX_BIDS_PER_CHUNK, and returns how many bids are still left. Anything left over when
+    // settlement is requested is folded in by findHighestBidder, as long as it fits one chunk.
+    function processBids(
+        uint256 auctionId,
+        uint256 maxCount
+    ) external auctionExists(auctionId) onlySettler(auctionId) whenNotPaused returns (uint256) {
+        Auction storage auction = auctions[auctionId];
+        if (auction.settled) revert AuctionAlreadySettled();
+        if (auction.auctionType == AuctionType.UniformPrice) revert WrongAuctionType();
+        uint256 total = bids[auctionId].length;
+        if (total == 0) revert NoBids();
+
+        uint256 count = maxCount < MAX_BIDS_PER_CHUNK ? maxCount : MAX_BIDS_PER_CHUNK;
+        uint256 end = reductions[auctionId].processed + count;
+        if (end > total) end = total;
+        _foldBids(auctionId, end);
+        return total - reductions[auctionId].processed;
+    }
+
+    function findHighestBidder(
+        uint256 auctionId
+    ) external auctionExists(auctionId) onlySettler(auctionId) whenNotPaused checkDecryptionCooldown {
+        if (auctions[auctionId].settled) revert AuctionAlreadySettled();
+        uint256 total = bids[auctionId].length;
+        if (total == 0) revert NoBids();
 
-        euint32 maxBid = bids[0].encryptedBidAmount;
-        address winner = bids[0].bidder;
+        Auction storage auction = auctions[auctionId];
+        if (auction.auctionType != AuctionType.UniformPrice) {
+            if (total - reductions[auctionId].processed > MAX_BIDS_PER_CHUNK) revert BidsNotProcessed();
+            _foldBids(auctionId, total);
+        }
 
-        for (uint i = 1; i < bids.length; i++) {
-            ebool isGreater = bids[i].encryptedBidAmount.ge(maxBid);
-            euint32 newMax = FHE.select(bids[i].encryptedBidAmount, maxBid, isGreater);
-            address newWinner = isGreater ? bids[i].bidder : winner;
-            maxBid = newMax;
-            winner = newWinner;
+        // A Dutch auction is checked against the current ask, frozen once it has ended, and
+        // keeps taking bids in case nobody takes it. Any other auction stops here, as later
+        // bids would not be part of the result.
+        if (auction.auctionType == AuctionType.Dutch) {
+            uint256 checkedAt = block.timestamp < auction.endTime ? block.timestamp : auction.endTime;
+            dutchCheckPrice[auctionId] = dutchPriceAt(auctionId, checkedAt);
+        } else if (!auction.closed) {
+            auction.closed = true;
+            emit AuctionClosed(auctionId);
         }
 
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = maxBid.toBytes32();
-        cts[1] = keccak256(abi.encode(winner)); // Store hash of winner's address
+        bytes32[] memory cts = _winnerCiphertexts(auctionId);
 
-        bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
         decryptionContexts[requestId] = DecryptionContext({
-            batchId: currentBatchId,
-            stateHash: stateHash,
-            processed: false
+            auctionId: auctionId,
+            processed: false,
+            bidCount: total,
+            ask: dutchCheckPrice[auctionId]
         });
+        requestedHandles[requestId] = cts;
 
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
-        emit DecryptionRequested(requestId, currentBatchId, stateHash);
+        emit DecryptionRequested(requestId, auctionId);
+    }
+
+    // The handles the request stored, in the order their cleartexts are decoded
+    function decryptionHandles(uint256 requestId) external view returns (bytes32[] memory) {
+        return requestedHandles[requestId];
     }
 
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
-        if (decryptionContexts[requestId].processed) revert ReplayAttempt();
+        DecryptionContext storage context = decryptionContexts[requestId];
+        if (context.processed) revert ReplayAttempt();
+        uint256 auctionId = context.auctionId;
+
+        // One 32-byte word per requested handle; the KMS signatures then bind the words to them
+        if (cleartexts.length != 32 * requestedHandles[requestId].length) revert DecryptionFailed();
 
-        // Rebuild cts from current contract storage in the exact same order as in findHighestBidder
-        if (bids.length == 0) revert NoBidsInBatch(); // Should not happen if findHighestBidder was called
+        try this.verifyDecryption(requestId, cleartexts, proof) {
+            Auction storage auction = auctions[auctionId];
+            if (auction.settled) revert AuctionAlreadySettled();
 
-        euint32 maxBid = bids[0].encryptedBidAmount;
-        address winner = bids[0].bidder;
-        for (uint i = 1; i < bids.length; i++) {
-            ebool isGreater = bids[i].encryptedBidAmount.ge(maxBid);
-            euint32 newMax = FHE.select(bids[i].encryptedBidAmount, maxBid, isGreater);
-            address newWinner = isGreater ? bids[i].bidder : winner;
-            maxBid = newMax;
-            winner = newWinner;
+            // Decode cleartexts in the same order
+            (bool reserveMet, uint32 clearingPrice) = abi.decode(cleartexts, (bool, uint32));
+
+            // Nobody takes the current ask yet: keep bidding open while the price falls further
+            if (
+                auction.auctionType == AuctionType.Dutch &&
+                !reserveMet &&
+                !auction.closed &&
+                block.timestamp < auction.endTime
+            ) {
+                context.processed = true;
+                emit DutchPriceNotReached(auctionId, context.ask);
+                return;
+            }
+            address winnerAddress;
+            if (auction.auctionType == AuctionType.UniformPrice) {
+                _allocateUnits(auctionId, context.bidCount, cleartexts);
+            } else if (reserveMet) {
+                (, , uint32 winnerIndex) = abi.decode(cleartexts, (bool, uint32, uint32));
+                winnerAddress = bids[auctionId][winnerIndex].bidder;
+                escrows[auctionId][winnerAddress].unitsWon = 1;
+            }
+
+            context.processed = true;
+            auction.closed = true;
+            auction.settled = true;
+            auction.reserveMet = reserveMet;
+            auction.winner = winnerAddress;
+            auction.clearingPrice = clearingPrice;
+            auction.settledAt = uint64(block.timestamp);
+            emit AuctionSettled(requestId, auctionId, reserveMet, winnerAddress, clearingPrice);
+        } catch {
+            revert InvalidProof();
         }
+    }
 
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = maxBid.toBytes32();
-        cts[1] = keccak256(abi.encode(winner));
+    function _releaseItem(uint256 auctionId, address to) internal {
+        Item memory item = items[auctionId];
+        if (item.collection == address(0)) revert NothingToClaim();
+        delete items[auctionId];
+        emit ItemReleased(auctionId, to);
+        IERC721(item.collection).transferFrom(address(this), to, item.tokenId);
+    }
 
-        bytes32 currentHash = _hashCiphertexts(cts);
-        if (currentHash != decryptionContexts[requestId].stateHash) {
-            revert StateMismatch();
+    // Uniform-price cleartexts hold one 32-byte word per ciphertext, the allocations
+    // starting at the third word. Winners keep the zero address in AuctionSettled and
+    // are announced through UnitsAllocated instead.
+    function _allocateUnits(uint256 auctionId, uint256 count, bytes memory cleartexts) internal {
+        Bid[] storage auctionBids = bids[auctionId];
+        for (uint i = 0; i < count; i++) {
+            uint256 word;
+            uint256 offset = 32 * (i + 3); // past the length prefix and the first two words
+            assembly {
+                word := mload(add(cleartexts, offset))
+            }
+            uint32 units = uint32(word);
+            if (units == 0) continue;
+            auctionBids[i].allocation = units;
+            escrows[auctionId][auctionBids[i].bidder].unitsWon += units;
+            emit UnitsAllocated(auctionId, auctionBids[i].bidder, i, units);
         }
+    }
 
-        try FHE.checkSignatures(requestId, cleartexts, proof) {
-            // Decode cleartexts in the same order
-            uint32 winningBidAmount = abi.decode(cleartexts, (uint32));
-            // The second cleartext is the hash of the winner's address, not the address itself.
-            // We already have the 'winner' address from the loop above.
+    // What a winner owes in total; their deposit counts towards it
+    function amountDue(uint256 auctionId, address bidder) public view returns (uint256) {
+        Auction storage auction = auctions[auctionId];
+        return uint256(escrows[auctionId][bidder].unitsWon) * auction.clearingPrice * auction.payment.priceUnit;
+    }
 
-            decryptionContexts[requestId].processed = true;
-            emit AuctionSettled(requestId, decryptionContexts[requestId].batchId, winner, winningBidAmount);
-        } catch {
-            revert InvalidProof();
+    // The escrow calls below stay available while paused so that funds never get stuck.
+
+    // Settles a winner's bill: the shortfall over the deposit is collected like a deposit,
+    // any excess deposit is sent back. The item, if the auction sold one, goes to the winner
+    // with the payment; a winner already charged through forfeitDeposit only collects it.
+    function payAndClaim(uint256 auctionId) external payable auctionExists(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        Escrow storage escrow = escrows[auctionId][msg.sender];
+        if (!auction.settled || escrow.unitsWon == 0) revert NothingToClaim();
+        if (escrow.paid) {
+            if (msg.value != 0) revert IncorrectPayment();
+            return _releaseItem(auctionId, msg.sender);
+        }
+
+        if (auction.payment.confidential) {
+            _releaseConfidential(auctionId, msg.sender);
+        } else {
+            if (block.timestamp >= auction.settledAt + PAYMENT_PERIOD) revert PaymentPeriodOver();
+            uint256 due = amountDue(auctionId, msg.sender);
+            uint256 held = escrow.deposit;
+            escrow.deposit = 0;
+            escrow.paid = true;
+            proceeds[auctionId] += due;
+            emit PaymentMade(auctionId, msg.sender, due);
+
+            _collect(auction.payment.token, due > held ? due - held : 0);
+            if (held > due) _send(auction.payment, msg.sender, held - due);
+        }
+        if (items[auctionId].collection != address(0)) _releaseItem(auctionId, msg.sender);
+    }
+
+    // Returns the deposit of a bidder who won nothing
+    function withdrawRefund(uint256 auctionId) external auctionExists(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        Escrow storage escrow = escrows[auctionId][msg.sender];
+        if (!auction.settled || escrow.unitsWon != 0) revert NothingToClaim();
+        if (auction.payment.confidential) return _releaseConfidential(auctionId, msg.sender);
+        if (escrow.deposit == 0) revert NothingToClaim();
+
+        uint256 amount = escrow.deposit;
+        escrow.deposit = 0;
+        emit RefundWithdrawn(auctionId, msg.sender, amount);
+        _send(auction.payment, msg.sender, amount);
+    }
+
+    // Once the payment period is over, an unpaid winner's deposit goes to the creator. A
+    // confidential escrow always covers the price, so there the creator collects just the
+    // price and the winner gets the rest back.
+    function forfeitDeposit(
+        uint256 auctionId,
+        address bidder
+    ) external auctionExists(auctionId) onlyCreator(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        Escrow storage escrow = escrows[auctionId][bidder];
+        if (!auction.settled || escrow.unitsWon == 0 || escrow.paid) revert NothingToClaim();
+        if (block.timestamp < auction.settledAt + PAYMENT_PERIOD) revert PaymentPeriodActive();
+        if (auction.payment.confidential) return _releaseConfidential(auctionId, bidder);
+        if (escrow.deposit == 0) revert NothingToClaim();
+
+        uint256 amount = escrow.deposit;
+        escrow.deposit = 0;
+        proceeds[auctionId] += amount;
+        emit DepositForfeited(auctionId, bidder, amount);
+    }
+
+    // Proceeds always go to the creator, whoever triggers the withdrawal
+    function withdrawProceeds(uint256 auctionId) external auctionExists(auctionId) onlyCreator(auctionId) {
+        uint256 amount = proceeds[auctionId];
+        if (amount == 0) revert NothingToClaim();
+
+        Auction storage auction = auctions[auctionId];
+        proceeds[auctionId] = 0;
+        emit ProceedsWithdrawn(auctionId, auction.creator, amount);
+        _send(auction.payment, auction.creator, amount);
+    }
+
+    // Confidential escrows hold each bid's full price: the price goes to the proceeds in the
+    // clear, and what is left, everything for a loser, goes back without being revealed.
+    function _releaseConfidential(uint256 auctionId, address bidder) internal {
+        if (msg.value != 0) revert IncorrectPayment();
+        Escrow storage escrow = escrows[auctionId][bidder];
+        if (!escrow.encryptedDeposit.isInitialized()) revert NothingToClaim();
+
+        uint256 due = amountDue(auctionId, bidder);
+        euint64 refund = escrow.encryptedDeposit.sub(uint64(due));
+        escrow.encryptedDeposit = euint64.wrap(0);
+        proceeds[auctionId] += due;
+        if (escrow.unitsWon > 0) {
+            escrow.paid = true;
+            emit PaymentMade(auctionId, bidder, due);
+        }
+
+        FHE.allowThis(refund);
+        FHE.allow(refund, bidder);
+        emit ConfidentialRefundWithdrawn(auctionId, bidder, refund);
+        _sendEncrypted(auctions[auctionId].payment.token, bidder, refund);
+    }
+
+    // Takes `amount` from msg.sender: exactly msg.value for ETH, an approved transfer for tokens
+    function _collect(address token, uint256 amount) internal {
+        if (token == address(0)) {
+            if (msg.value != amount) revert IncorrectPayment();
+        } else {
+            if (msg.value != 0) revert IncorrectPayment();
+            if (amount > 0) IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        }
+    }
+
+    function _send(PaymentTerms storage payment, address to, uint256 amount) internal {
+        if (payment.confidential) {
+            _sendEncrypted(payment.token, to, FHE.asEuint64(uint64(amount)));
+        } else if (payment.token == address(0)) {
+            (bool ok, ) = to.call{ value: amount }("");
+            if (!ok) revert TransferFailed();
+        } else {
+            IERC20(payment.token).safeTransfer(to, amount);
         }
     }
+
+    function _sendEncrypted(address token, address to, euint64 amount) internal {
+        FHE.allowTransient(amount, token);
+        IConfidentialToken(token).transferEncrypted(to, amount);
+    }
+
+    // FHE.checkSignatures is an internal library call, so it is routed through an
+    // external self-call to let myCallback catch a bad proof.
+    function verifyDecryption(uint256 requestId, bytes memory cleartexts, bytes memory proof) external {
+        require(msg.sender == address(this), "Only self");
+        FHE.checkSignatures(requestId, cleartexts, proof);
+    }
 }
\ No newline at end of file
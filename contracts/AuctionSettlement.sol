@@ -0,0 +1,149 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { AuctionSealFHE } from "./AuctionSeal.sol";
+
+// The homomorphic winner search of AuctionSealFHE. It is deployed once and linked into the
+// auction contract, which keeps the auction contract under the code size limit. Its
+// functions run through DELEGATECALL, so they work on the auction contract's storage and
+// the handles they produce belong to the auction contract.
+library AuctionSettlement {
+    using FHE for euint32;
+    using FHE for ebool;
+
+    // Folds bids up to `end` into the auction's running state: the highest bid, the
+    // runner-up for second-price auctions, and the index and rank of the leading bid.
+    function foldBids(
+        AuctionSealFHE.Auction storage auction,
+        AuctionSealFHE.Bid[] storage auctionBids,
+        AuctionSealFHE.Reduction storage reduction,
+        uint256 end
+    ) external {
+        uint256 i = reduction.processed;
+        bool secondPrice = auction.auctionType == AuctionSealFHE.AuctionType.SecondPrice;
+        bool random = auction.tieBreak == AuctionSealFHE.TieBreak.Random;
+
+        euint32 maxBid = reduction.maxBid;
+        euint32 secondBid = reduction.secondBid;
+        euint32 winnerIndex = reduction.winnerIndex;
+        euint32 winnerRank = reduction.winnerRank;
+        if (i == 0) {
+            maxBid = auctionBids[0].encryptedBidAmount;
+            secondBid = FHE.asEuint32(0);
+            winnerIndex = FHE.asEuint32(0);
+            winnerRank = auctionBids[0].tieBreakRank;
+            i = 1;
+        }
+
+        for (; i < end; i++) {
+            euint32 amount = auctionBids[i].encryptedBidAmount;
+            ebool takesLead = _takesLead(auction.tieBreak, auctionBids[i], maxBid, winnerRank);
+            if (secondPrice) {
+                // A new leader pushes the old one down; otherwise the bid may still beat the runner-up
+                euint32 runnerUp = FHE.select(amount.gt(secondBid), amount, secondBid);
+                secondBid = FHE.select(takesLead, maxBid, runnerUp);
+            }
+            maxBid = FHE.select(takesLead, amount, maxBid);
+            winnerIndex = FHE.select(takesLead, FHE.asEuint32(uint32(i)), winnerIndex);
+            if (random) {
+                winnerRank = FHE.select(takesLead, auctionBids[i].tieBreakRank, winnerRank);
+            }
+        }
+
+        FHE.allowThis(maxBid);
+        FHE.allowThis(secondBid);
+        FHE.allowThis(winnerIndex);
+        if (random) FHE.allowThis(winnerRank);
+        reduction.processed = end;
+        reduction.maxBid = maxBid;
+        reduction.secondBid = secondBid;
+        reduction.winnerIndex = winnerIndex;
+        reduction.winnerRank = winnerRank;
+    }
+
+    // Turns the running state into (reserveMet, clearingPrice, index of the winning bid).
+    // Below the reserve, price and index are replaced by zero so that a failed auction
+    // reveals nothing about its bids. A Dutch auction treats the checked ask as part of the
+    // reserve and, when the highest limit reaches it, sells at exactly that ask.
+    function singleUnitCiphertexts(
+        AuctionSealFHE.Auction storage auction,
+        AuctionSealFHE.Reduction storage reduction,
+        uint32 ask
+    ) external returns (bytes32[] memory cts) {
+        bool secondPrice = auction.auctionType == AuctionSealFHE.AuctionType.SecondPrice;
+        bool dutch = auction.auctionType == AuctionSealFHE.AuctionType.Dutch;
+        euint32 maxBid = reduction.maxBid;
+
+        ebool reserveMet = maxBid.ge(dutch ? auction.reservePrice.max(ask) : auction.reservePrice);
+        euint32 price = secondPrice
+            ? FHE.max(reduction.secondBid, auction.reservePrice)
+            : dutch
+                ? FHE.asEuint32(ask)
+                : maxBid;
+        euint32 clearingPrice = FHE.select(reserveMet, price, FHE.asEuint32(0));
+        euint32 winnerOrNone = FHE.select(reserveMet, reduction.winnerIndex, FHE.asEuint32(0));
+
+        cts = new bytes32[](3);
+        cts[0] = reserveMet.toBytes32();
+        cts[1] = clearingPrice.toBytes32();
+        cts[2] = winnerOrNone.toBytes32();
+    }
+
+    // Reduces a uniform-price auction to (reserveMet, clearingPrice, allocation of every
+    // bid in submission order). Bids rank by unit price, ties going to the later or earlier
+    // bid as the auction's tie-break says, and bids below the reserve get nothing. Instead of sorting,
+    // each bid gets whatever supply the bids ranked above it leave over, which costs n^2
+    // comparisons. Every winner pays the lowest unit price that received units.
+    function uniformPriceCiphertexts(
+        AuctionSealFHE.Auction storage auction,
+        AuctionSealFHE.Bid[] storage auctionBids
+    ) external returns (bytes32[] memory cts) {
+        uint256 n = auctionBids.length;
+        uint32 supply = auction.quantity;
+        bool laterFirst = auction.tieBreak == AuctionSealFHE.TieBreak.Latest;
+        euint32 zero = FHE.asEuint32(0);
+
+        euint32[] memory demand = new euint32[](n);
+        for (uint i = 0; i < n; i++) {
+            ebool aboveReserve = auctionBids[i].encryptedBidAmount.ge(auction.reservePrice);
+            demand[i] = FHE.select(aboveReserve, auctionBids[i].encryptedQuantity.min(supply), zero);
+        }
+
+        cts = new bytes32[](n + 2);
+        ebool soldAny = FHE.asEbool(false);
+        euint32 lowestAccepted = FHE.asEuint32(type(uint32).max);
+        for (uint i = 0; i < n; i++) {
+            euint32 price = auctionBids[i].encryptedBidAmount;
+            // Demand is capped at supply, so this sum stays far below 2^32 for any realistic n
+            euint32 ahead = zero;
+            for (uint j = 0; j < n; j++) {
+                if (j == i) continue;
+                euint32 other = auctionBids[j].encryptedBidAmount;
+                ebool outranks = (j > i) == laterFirst ? other.ge(price) : other.gt(price);
+                ahead = ahead.add(FHE.select(outranks, demand[j], zero));
+            }
+            euint32 allocation = demand[i].min(FHE.sub(supply, ahead.min(supply)));
+
+            ebool won = allocation.gt(0);
+            soldAny = soldAny.or(won);
+            lowestAccepted = FHE.select(won, lowestAccepted.min(price), lowestAccepted);
+            cts[i + 2] = allocation.toBytes32();
+        }
+
+        cts[0] = soldAny.toBytes32();
+        cts[1] = FHE.select(soldAny, lowestAccepted, zero).toBytes32();
+    }
+
+    // Whether a later bid replaces the current leader, which holds maxBid and leaderRank
+    function _takesLead(
+        AuctionSealFHE.TieBreak tieBreak,
+        AuctionSealFHE.Bid storage bid,
+        euint32 maxBid,
+        euint32 leaderRank
+    ) private returns (ebool) {
+        euint32 amount = bid.encryptedBidAmount;
+        if (tieBreak == AuctionSealFHE.TieBreak.Latest) return amount.ge(maxBid);
+        if (tieBreak == AuctionSealFHE.TieBreak.Earliest) return amount.gt(maxBid);
+        return amount.gt(maxBid).or(amount.eq(maxBid).and(bid.tieBreakRank.gt(leaderRank)));
+    }
+}
@@ -0,0 +1,111 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+// What AuctionSealFHE needs from a token with encrypted balances. Transfers never revert
+// on insufficient funds: they move nothing instead and return the encrypted amount that
+// actually moved, which the caller is allowed to use.
+interface IConfidentialToken {
+    function transferFrom(address from, address to, euint64 amount) external returns (euint64);
+
+    function transferEncrypted(address to, euint64 amount) external returns (euint64);
+}
+
+// A fungible token whose balances and allowances are euint64. Owners can decrypt their
+// own balance and the allowances they gave; amounts never appear in events.
+contract ConfidentialToken is IConfidentialToken, SepoliaConfig {
+    using FHE for euint64;
+
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 6;
+    address public owner;
+
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => euint64)) private _allowances;
+
+    event Transfer(address indexed from, address indexed to);
+    event Approval(address indexed owner, address indexed spender);
+
+    error NotOwner();
+    error UnauthorizedAmount();
+
+    constructor(string memory name_, string memory symbol_) {
+        name = name_;
+        symbol = symbol_;
+        owner = msg.sender;
+    }
+
+    function balanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    function allowance(address account, address spender) external view returns (euint64) {
+        return _allowances[account][spender];
+    }
+
+    // Minted amounts are public; only what happens to them afterwards is hidden
+    function mint(address to, uint64 amount) external {
+        if (msg.sender != owner) revert NotOwner();
+        euint64 balance = _balances[to].add(amount);
+        _setBalance(to, balance);
+        emit Transfer(address(0), to);
+    }
+
+    function transfer(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64) {
+        return _transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    // For contracts holding an encrypted amount, e.g. an escrow paying out
+    function transferEncrypted(address to, euint64 amount) external returns (euint64) {
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedAmount();
+        return _transfer(msg.sender, to, amount);
+    }
+
+    function approve(address spender, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        _allowances[msg.sender][spender] = amount;
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        FHE.allow(amount, spender);
+        emit Approval(msg.sender, spender);
+    }
+
+    // Moves nothing unless both the allowance and the balance cover `amount`
+    function transferFrom(address from, address to, euint64 amount) external returns (euint64) {
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedAmount();
+        euint64 allowed = _allowances[from][msg.sender];
+        ebool withinAllowance = amount.le(allowed);
+        euint64 transferred = _transfer(from, to, FHE.select(withinAllowance, amount, FHE.asEuint64(0)));
+
+        euint64 remaining = allowed.sub(transferred);
+        _allowances[from][msg.sender] = remaining;
+        FHE.allowThis(remaining);
+        FHE.allow(remaining, from);
+        FHE.allow(remaining, msg.sender);
+        return transferred;
+    }
+
+    function _transfer(address from, address to, euint64 amount) internal returns (euint64 transferred) {
+        ebool covered = amount.le(_balances[from]);
+        transferred = FHE.select(covered, amount, FHE.asEuint64(0));
+
+        _setBalance(from, _balances[from].sub(transferred));
+        _setBalance(to, _balances[to].add(transferred));
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, msg.sender);
+        emit Transfer(from, to);
+    }
+
+    function _setBalance(address account, euint64 balance) internal {
+        _balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+}
@@ -0,0 +1,12 @@
+pragma solidity ^0.8.24;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+// Freely mintable collection for auctioning items in the test suite
+contract MockERC721 is ERC721 {
+    constructor() ERC721("Mock Collection", "MOCKNFT") {}
+
+    function mint(address to, uint256 tokenId) external {
+        _mint(to, tokenId);
+    }
+}
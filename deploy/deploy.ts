@@ -4,6 +4,7 @@ import path from "path";
 import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
+import { decodeContractError } from "../frontend/web/src/errors";
 
 const WORD_LIBRARY = [
   'api', 'ape', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
@@ -325,8 +326,9 @@ async function main() {
     privateKey = await ask("Enter the deployer private key (testnet only): ");
   }
 
-  const DEFAULT_RPC = "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3";
-  const rpc = DEFAULT_RPC;
+  // A public Sepolia endpoint; keyed ones come from DEPLOY_RPC_URL and are never written out
+  const DEFAULT_RPC = "https://rpc.sepolia.org";
+  const rpc = process.env.DEPLOY_RPC_URL || DEFAULT_RPC;
 
   const provider = new JsonRpcProvider(rpc);
   const wallet = new Wallet(privateKey, provider);
@@ -334,12 +336,21 @@ async function main() {
   console.log("Deployer account:", wallet.address);
 
   try {
-    const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-    const factory = await UniversalAdapterFactory.deploy();
+    // AuctionSealFHE links the settlement library, which has to be on-chain first
+    const settlementLibrary = await hardhatEthers.deployContract("AuctionSettlement", wallet);
+    await settlementLibrary.waitForDeployment();
+    console.log("AuctionSettlement library deployed at:", await settlementLibrary.getAddress());
+
+    const AuctionSealFactory = await hardhatEthers.getContractFactory("AuctionSealFHE", {
+      signer: wallet,
+      libraries: { AuctionSettlement: await settlementLibrary.getAddress() }
+    });
+    const factory = await AuctionSealFactory.deploy();
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalAdapter contract deployed at:", deployedAddress);
+    const deployReceipt = await factory.deploymentTransaction()?.wait();
+    console.log("AuctionSealFHE contract deployed at:", deployedAddress);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -358,39 +369,21 @@ async function main() {
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
+      // chainId selects the app's network from its registry (frontend/web/src/networks.ts)
       const config = {
-        network: rpc,
+        chainId: Number((await provider.getNetwork()).chainId),
         contractAddress: deployedAddress,
         deployer: wallet.address,
+        startBlock: deployReceipt?.blockNumber ?? 0,
       };
       fs.writeFileSync(
         path.join(frontendConfigDir, "config.json"),
         JSON.stringify(config, null, 2)
       );
       console.log("Wrote frontend config: frontend/web/src/config.json");
-
-      try {
-        const artifactPath = path.join(
-          __dirname,
-          "..",
-          "artifacts",
-          "contracts",
-          "UniversalAdapter.sol",
-          "UniversalAdapter.json"
-        );
-        const targetAbiPath = path.join(frontendConfigDir, "abi");
-        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-      } catch (e) {
-        console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-          e
-        );
-      }
     }
   } catch (error) {
-    console.error("Deployment failed:", error);
+    console.error("Deployment failed:", decodeContractError(error).message);
     const logEntry = `none | ${wallet.address} | 失败`;
     fs.appendFileSync(successLogPath, logEntry + "\n");
     throw error;
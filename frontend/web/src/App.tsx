@@ -1,27 +1,83 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  AccessRecord,
+  AuctionClient,
+  AuctionRecord,
+  AuctionType,
+  ContractSettings,
+  Eligibility,
+  EscrowState,
+  EscrowStatus,
+  ItemRecord,
+  NATIVE_TOKEN,
+  PROVIDERS_ONLY,
+  Participation,
+  ParticipationRule,
+  PaymentTerms,
+  ROLES,
+  Role,
+  TieBreak,
+  TokenInfo,
+  escrowState,
+  holdsFunds,
+  holdsRole,
+  paymentShortfall
+} from "./auctionClient";
+import { ConfidentialBalance, ConfidentialTokenClient } from "./confidentialToken";
+import { config, getReadProvider, normAddr } from "./contract";
+import { useAuctionContract, useReadOnlyContract } from "./contractContext";
+import { LogWatcher, watchContractLogs } from "./contractEvents";
+import { DutchSchedule, dutchPriceAt, dutchPriceCurve, isValidDutchSchedule, nextPriceDrop } from "./dutch";
+import { decodeContractError } from "./errors";
+import { TypedDataSigner, clearUserDecryptSession, loadOrSignUserDecrypt, userDecrypt } from "./fhe";
+import { fetchIndexedAuctions } from "./indexer";
+import { MerkleAllowlist, buildMerkleAllowlist, parseAddressCsv } from "./merkle";
+import { ACTIVE_NETWORK } from "./networks";
+import { NftMetadata, fetchNftMetadata } from "./nft";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { getAddress } from 'viem';
+import { useAccount, useSignTypedData } from 'wagmi';
 
 interface Auction {
   id: number;
   title: string;
   description: string;
-  encryptedBids: string[];
-  highestBid: string;
+  bids: Bid[];
+  createdAt: number;
+  startTime: number;
   endTime: number;
+  closedAt?: number;
   creator: string;
-  status: 'active' | 'ended';
+  auctionType: AuctionType;
+  tieBreak: TieBreak;
+  quantity: number;
+  payment: PaymentTerms;
+  token: TokenInfo;
+  item?: ItemRecord;
+  schedule?: DutchSchedule;
+  participation: AuctionRecord["participation"];
+  lastUnmetAsk?: number;
+  closed: boolean;
+  settled: boolean;
+  reserveMet?: boolean;
+  winner?: string;
+  clearingPrice?: number;
+  settledAt?: number;
 }
 
+// In uniform-price auctions the amount is a unit price and the quantity fields
+// are set; allocation is the number of units the bid won once settled.
 interface Bid {
   bidder: string;
   encryptedAmount: string;
   decryptedAmount?: number;
+  encryptedQuantity?: string;
+  decryptedQuantity?: number;
+  allocation?: number;
   timestamp: number;
 }
 
@@ -31,76 +87,363 @@ interface UserAction {
   details: string;
 }
 
-// FHE encryption/decryption functions
-const FHEEncryptNumber = (value: number): string => `FHE-${btoa(value.toString())}`;
-const FHEDecryptNumber = (encryptedData: string): number => encryptedData.startsWith('FHE-') ? parseFloat(atob(encryptedData.substring(4))) : parseFloat(encryptedData);
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+type AuctionStatus = 'upcoming' | 'active' | 'ended';
+
+interface AuctionFormData {
+  title: string;
+  description: string;
+  auctionType: string;
+  tieBreak: string;
+  quantity: string;
+  startDelay: string;
+  duration: string;
+  reservePrice: string;
+  // Blank pays in ETH; amounts are decimals in the payment token
+  paymentToken: string;
+  // "true" when paymentToken is a confidential token, which takes no deposit
+  confidential: string;
+  priceUnit: string;
+  deposit: string;
+  // Optional ERC-721 to sell; blank for an auction of something off-chain
+  nftContract: string;
+  nftTokenId: string;
+  // Dutch auctions: prices in whole bid units, the tick in minutes
+  dutchStartPrice: string;
+  dutchFloorPrice: string;
+  dutchPriceDrop: string;
+  dutchTickMinutes: string;
+  // Who may bid; allowlist holds addresses for Allowlist and Merkle auctions, one per
+  // line or as a CSV, and proofsUri where the Merkle tree's JSON will be published
+  participation: string;
+  allowlist: string;
+  proofsUri: string;
+}
+
+const EMPTY_AUCTION_FORM: AuctionFormData = { title: "", description: "", auctionType: String(AuctionType.FirstPrice), tieBreak: String(TieBreak.Latest), quantity: "1", startDelay: "0", duration: "1", reservePrice: "0", paymentToken: "", confidential: "false", priceUnit: "0.001", deposit: "0", nftContract: "", nftTokenId: "", dutchStartPrice: "100", dutchFloorPrice: "10", dutchPriceDrop: "5", dutchTickMinutes: "60", participation: String(Participation.Open), allowlist: "", proofsUri: "" };
+
+const AUCTION_TYPE_LABELS: Record<AuctionType, string> = {
+  [AuctionType.FirstPrice]: "First-price",
+  [AuctionType.SecondPrice]: "Second-price (Vickrey)",
+  [AuctionType.UniformPrice]: "Multi-unit uniform-price",
+  [AuctionType.Dutch]: "Dutch (descending price)"
+};
+
+const AUCTION_TYPE_HINTS: Record<AuctionType, string> = {
+  [AuctionType.FirstPrice]: "The winner pays their own bid.",
+  [AuctionType.SecondPrice]: "The winner pays the second-highest bid, or the reserve if that is higher.",
+  [AuctionType.UniformPrice]: "Several identical units; every winner pays the lowest accepted unit price.",
+  [AuctionType.Dutch]: "The ask falls on a public schedule; bids are encrypted limits and the highest one buys at the ask once it reaches it."
+};
+
+const TIE_BREAK_LABELS: Record<TieBreak, string> = {
+  [TieBreak.Latest]: "Latest bid wins",
+  [TieBreak.Earliest]: "Earliest bid wins",
+  [TieBreak.Random]: "Random (drawn on-chain at bid time)"
+};
+
+// Uniform-price auctions rank every bid by price and time, so they cannot draw lots
+function tieBreaksFor(auctionType: AuctionType): TieBreak[] {
+  return auctionType === AuctionType.UniformPrice
+    ? [TieBreak.Latest, TieBreak.Earliest]
+    : [TieBreak.Latest, TieBreak.Earliest, TieBreak.Random];
+}
+
+const PARTICIPATION_LABELS: Record<Participation, string> = {
+  [Participation.Open]: "Open to everyone",
+  [Participation.Allowlist]: "Allowlist",
+  [Participation.Merkle]: "Merkle allowlist",
+  [Participation.Providers]: "Registered providers"
+};
+
+const PARTICIPATION_HINTS: Record<Participation, string> = {
+  [Participation.Open]: "Any wallet can bid.",
+  [Participation.Allowlist]: "Only the addresses below can bid; you can add or remove addresses later.",
+  [Participation.Merkle]: "Only the Merkle root goes on-chain. Publish the tree's JSON so that listed bidders can prove they are on it.",
+  [Participation.Providers]: "Only providers the contract's admins registered can bid."
+};
+
+// Throws when the address list does not parse, which the form shows as the reason
+const toParticipationRule = (form: AuctionFormData): ParticipationRule => {
+  const participation = Number(form.participation) as Participation;
+  if (participation === Participation.Allowlist) {
+    return { ...PROVIDERS_ONLY, participation, allowlist: parseAddressCsv(form.allowlist) };
+  }
+  if (participation === Participation.Merkle) {
+    const { root } = buildMerkleAllowlist(parseAddressCsv(form.allowlist));
+    return { ...PROVIDERS_ONLY, participation, merkleRoot: root, proofsUri: form.proofsUri.trim() };
+  }
+  return { ...PROVIDERS_ONLY, participation };
+};
+
+const toDutchSchedule = (form: AuctionFormData): DutchSchedule => ({
+  startPrice: Number(form.dutchStartPrice),
+  floorPrice: Number(form.dutchFloorPrice),
+  priceDrop: Number(form.dutchPriceDrop),
+  tickSeconds: Number(form.dutchTickMinutes) * 60
+});
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${seconds % 60}s`;
+};
+
+// max is ContractSettings.maxQuantity; until the settings load only the
+// contract enforces it
+const isValidQuantity = (value: string, max = Infinity) => /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= max;
+
+const MAX_UINT32 = 2 ** 32 - 1;
+const isValidBid = (value: string) => /^\d+$/.test(value) && Number(value) <= MAX_UINT32;
+
+// ethers.parseUnits throws on more fraction digits than the token has decimals
+const isValidAmount = (value: string, decimals = Infinity) => {
+  const match = /^\d+(?:\.(\d+))?$/.exec(value.trim());
+  return match !== null && (match[1]?.length ?? 0) <= decimals;
+};
+
+const isValidParticipation = (form: AuctionFormData) => {
+  try {
+    toParticipationRule(form);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isValidItem = (contract: string, tokenId: string) =>
+  !contract.trim() || (ethers.isAddress(contract.trim()) && /^\d+$/.test(tokenId.trim()));
+
+// A rejection needs no "failed" prefix; anything else is decoded against the contract's ABI
+const failureMessage = (action: string, e: unknown) => {
+  const error = decodeContractError(e);
+  return error.kind === "rejected" ? error.message : `${action} failed: ${error.message}`;
+};
+
+const formatAmount = (amount: bigint, token: TokenInfo) => `${ethers.formatUnits(amount, token.decimals)} ${token.symbol}`;
+
+type EscrowAction = 'refund' | 'pay' | 'claim' | 'proceeds' | 'forfeit';
+
+const ESCROW_ACTION_LABELS: Record<EscrowAction, string> = {
+  refund: "Claim refund",
+  pay: "Pay & claim item",
+  claim: "Claim item",
+  proceeds: "Withdraw proceeds",
+  forfeit: "Keep deposit"
+};
+
+const ESCROW_STATE_LABELS: Record<EscrowState, string> = {
+  none: "No deposit",
+  locked: "Funds locked",
+  refundable: "Refund available",
+  refunded: "Refunded",
+  "payment-due": "Payment due",
+  paid: "Paid",
+  expired: "Payment period over"
+};
+
+const toAuction = (record: AuctionRecord, token: TokenInfo): Auction => ({
+  id: record.auctionId,
+  title: record.title,
+  description: record.description,
+  bids: record.bids.map((bid, index) => ({
+    bidder: bid.bidder,
+    encryptedAmount: bid.handle,
+    encryptedQuantity: bid.quantityHandle,
+    allocation: record.settlement?.allocations.find(a => a.bidIndex === index)?.quantity,
+    timestamp: bid.timestamp
+  })),
+  createdAt: record.createdAt,
+  startTime: record.startTime,
+  endTime: record.endTime,
+  closedAt: record.closedAt,
+  creator: record.creator,
+  auctionType: record.auctionType,
+  tieBreak: record.tieBreak,
+  quantity: record.quantity,
+  payment: record.payment,
+  token,
+  item: record.item,
+  schedule: record.schedule,
+  participation: record.participation,
+  lastUnmetAsk: record.lastUnmetAsk,
+  closed: record.closed,
+  settled: !!record.settlement,
+  reserveMet: record.settlement?.reserveMet,
+  winner: record.settlement?.winner,
+  clearingPrice: record.settlement ? Number(record.settlement.clearingPrice) : undefined,
+  settledAt: record.settlement?.settledAt
+});
+
+// Events after which live updates read the access record or the contract settings again
+const ACCESS_EVENTS = new Set([
+  "OwnershipTransferStarted",
+  "OwnershipTransferred",
+  "RoleGranted",
+  "RoleRevoked",
+  "ProviderAdded",
+  "ProviderRemoved"
+]);
+const SETTINGS_EVENTS = new Set(["Paused", "Unpaused", "CooldownSecondsSet", "AuctionCreated"]);
+
+const shortAddr = (a: string) => `${a.substring(0, 6)}...${a.substring(38)}`;
+
+// Mirrors the checks in submitBid; `now` must be chain time, not the browser clock
+const getAuctionStatus = (auction: Auction, now: number): AuctionStatus => {
+  if (auction.closed || now >= auction.endTime) return 'ended';
+  return now < auction.startTime ? 'upcoming' : 'active';
+};
+
+const renderAuctionStatus = (auction: Auction, now: number) => {
+  const status = getAuctionStatus(auction, now);
+  
+  return (
+    <div className={`auction-status ${status}`}>
+      {status === 'ended' ? (auction.settled ? 'Settled' : 'Ended') : status === 'upcoming' ? 'Upcoming' : 'Active'}
+    </div>
+  );
+};
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { contract: readContract, ready, chainId = 0, withSigner } = useAuctionContract();
+  const contractAddress = readContract ? config.contractAddress : "";
   const [loading, setLoading] = useState(true);
   const [auctions, setAuctions] = useState<Auction[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creatingAuction, setCreatingAuction] = useState(false);
+  const [newAuctionData, setNewAuctionData] = useState(EMPTY_AUCTION_FORM);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newAuctionData, setNewAuctionData] = useState({ title: "", description: "", duration: 1 });
+  const [access, setAccess] = useState<AccessRecord | undefined>();
+  const [settings, setSettings] = useState<ContractSettings | undefined>();
   const [selectedAuction, setSelectedAuction] = useState<Auction | null>(null);
   const [decryptedBids, setDecryptedBids] = useState<Bid[]>([]);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState("");
-  const [contractAddress, setContractAddress] = useState("");
-  const [chainId, setChainId] = useState(0);
   const [startTimestamp, setStartTimestamp] = useState(0);
   const [durationDays, setDurationDays] = useState(30);
   const [userActions, setUserActions] = useState<UserAction[]>([]);
   const [activeTab, setActiveTab] = useState('auctions');
   const [searchTerm, setSearchTerm] = useState("");
   const [bidAmount, setBidAmount] = useState("");
-  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'ended'>('all');
+  const [bidQuantity, setBidQuantity] = useState("1");
+  const [filterStatus, setFilterStatus] = useState<'all' | AuctionStatus>('all');
+  // Seconds the chain's latest block timestamp is ahead of the local clock
+  const [clockOffset, setClockOffset] = useState(0);
+  const [chainNow, setChainNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [eligibility, setEligibility] = useState<Eligibility | undefined>();
+  // Auction records as of the last full load, kept current by live updates from
+  // the snapshot's block on; token details never change, so they are kept too
+  const records = useRef(new Map<number, AuctionRecord>());
+  const tokenInfos = useRef(new Map<string, TokenInfo>());
+  const [snapshot, setSnapshot] = useState<{ blockNumber: number }>();
+  const watcher = useRef<LogWatcher | undefined>(undefined);
+
+  useEffect(() => {
+    const tick = () => setChainNow(Math.floor(Date.now() / 1000) + clockOffset);
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [clockOffset]);
 
   // Initialize signature parameters
   useEffect(() => {
-    loadData().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
+    setStartTimestamp(Math.floor(Date.now() / 1000));
+    setDurationDays(30);
   }, []);
 
+  // Loads once the contract's code was checked
+  useEffect(() => {
+    if (ready) loadData().finally(() => setLoading(false));
+  }, [ready]);
+
+  // Rechecked whenever the selected auction is reloaded or the account changes, so
+  // that the bid form only shows when a bid can go through
+  useEffect(() => {
+    setEligibility(undefined);
+    if (!selectedAuction || !address || !readContract) return;
+    let cancelled = false;
+    new AuctionClient(readContract).eligibility({ auctionId: selectedAuction.id, participation: selectedAuction.participation }, address)
+      .then(result => {
+        if (!cancelled) setEligibility(result);
+      })
+      .catch(e => {
+        console.error("Error checking eligibility:", e);
+        if (!cancelled) setEligibility({ status: "not-eligible", reason: "Could not check whether you can bid" });
+      });
+    return () => { cancelled = true; };
+  }, [selectedAuction, address, readContract]);
+
+  // Live updates: from the loaded snapshot on, each batch of the contract's
+  // events is applied to a copy of the records, which replaces them once the
+  // batch went through, so a failed batch can be read again as it was
+  useEffect(() => {
+    if (!readContract || !snapshot) return;
+    const client = new AuctionClient(readContract);
+    const live = watchContractLogs(getReadProvider(), config.contractAddress, snapshot.blockNumber, async logs => {
+      const next = new Map(records.current);
+      const changed = await client.applyAuctionLogs(next, logs);
+      const names = [...new Set(logs.map(log => readContract.interface.parseLog(log)?.name ?? ""))];
+      const [accessRecord, contractSettings] = await Promise.all([
+        names.some(name => ACCESS_EVENTS.has(name)) ? client.accessControl() : undefined,
+        names.some(name => SETTINGS_EVENTS.has(name)) ? client.settings() : undefined
+      ]);
+      if (changed.size > 0) await publishAuctions(client, next, changed);
+      if (accessRecord) setAccess(accessRecord);
+      if (contractSettings) setSettings(contractSettings);
+    }, { wsUrl: ACTIVE_NETWORK.wsUrls?.[0] });
+    watcher.current = live;
+    return () => {
+      live.stop();
+      if (watcher.current === live) watcher.current = undefined;
+    };
+  }, [readContract, snapshot]);
+
+  // Turns records into auctions for display. With `changed`, only those are
+  // rebuilt and the rest keep their objects, so their views do not reload.
+  const publishAuctions = async (client: AuctionClient, next: Map<number, AuctionRecord>, changed?: Set<number>) => {
+    const tokens = tokenInfos.current;
+    const missing = [...new Set([...next.values()].map(r => r.payment.token))].filter(token => !tokens.has(token));
+    await Promise.all(missing.map(async token => {
+      tokens.set(token, await client.tokenInfo(token));
+    }));
+    records.current = next;
+    
+    const rebuilt = new Map<number, Auction>();
+    for (const record of next.values()) {
+      if (!changed || changed.has(record.auctionId)) {
+        rebuilt.set(record.auctionId, toAuction(record, tokens.get(record.payment.token)!));
+      }
+    }
+    setAuctions(prev => [...(changed ? prev.filter(a => !rebuilt.has(a.id)) : []), ...rebuilt.values()].sort((a, b) => b.id - a.id));
+    setSelectedAuction(prev => prev && (rebuilt.get(prev.id) ?? (changed ? prev : null)));
+  };
+
   // Load data from contract
   const loadData = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
+      if (!readContract) return;
       
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        setTransactionStatus({ visible: true, status: "success", message: "Contract is available!" });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-      }
+      const client = new AuctionClient(readContract);
+      const indexed = await fetchIndexedAuctions().catch(e => {
+        console.warn("Indexer unavailable, reading auctions from the chain:", e);
+        return undefined;
+      });
+      const blockNumber = indexed?.blockNumber ?? await client.blockNumber();
+      const [accessRecord, contractSettings, list, chainTime] = await Promise.all([
+        client.accessControl(),
+        client.settings(),
+        indexed?.auctions ?? client.listAuctions(blockNumber),
+        client.chainTime()
+      ]);
+      setAccess(accessRecord);
+      setSettings(contractSettings);
+      setClockOffset(chainTime - Math.floor(Date.now() / 1000));
       
       // Load auctions
-      const auctionsBytes = await contract.getData("auctions");
-      let auctionsList: Auction[] = [];
-      if (auctionsBytes.length > 0) {
-        try {
-          const auctionsStr = ethers.toUtf8String(auctionsBytes);
-          if (auctionsStr.trim() !== '') auctionsList = JSON.parse(auctionsStr);
-        } catch (e) {}
-      }
-      setAuctions(auctionsList);
+      await publishAuctions(client, new Map(list.map(record => [record.auctionId, record])));
+      setSnapshot({ blockNumber });
     } catch (e) {
       console.error("Error loading data:", e);
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
@@ -111,6 +454,9 @@ const App: React.FC = () => {
     }
   };
 
+  // Reads the events of the user's own transactions now instead of at the next poll
+  const syncEvents = () => watcher.current ? watcher.current.sync() : loadData();
+
   // Create new auction
   const createAuction = async () => {
     if (!isConnected || !address) { 
@@ -119,51 +465,73 @@ const App: React.FC = () => {
       return; 
     }
     
+    if (!isValidBid(newAuctionData.reservePrice)) {
+      setTransactionStatus({ visible: true, status: "error", message: "Please enter a valid reserve price" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+    
     setCreatingAuction(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Creating auction with Zama FHE..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Creating sealed-bid auction..." });
     
     try {
-      const contract = await getContractWithSigner();
+      const contract = await withSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
-      // Create new auction
-      const newAuction: Auction = {
-        id: auctions.length + 1,
+      const client = new AuctionClient(contract);
+      const auctionType = Number(newAuctionData.auctionType) as AuctionType;
+      const tieBreak = Number(newAuctionData.tieBreak) as TieBreak;
+      if (!tieBreaksFor(auctionType).includes(tieBreak)) throw new Error("Uniform-price auctions cannot break ties randomly");
+      const token = newAuctionData.paymentToken.trim() || NATIVE_TOKEN;
+      const confidential = newAuctionData.confidential === "true";
+      if (!ethers.isAddress(token)) throw new Error("Payment token must be an address");
+      if (confidential && token === NATIVE_TOKEN) throw new Error("Enter the confidential token's address");
+      const nftContract = auctionType === AuctionType.UniformPrice ? "" : newAuctionData.nftContract.trim();
+      const schedule = auctionType === AuctionType.Dutch ? toDutchSchedule(newAuctionData) : undefined;
+      if (schedule && !isValidDutchSchedule(schedule)) throw new Error("Price schedule is invalid");
+      if (!isValidItem(nftContract, newAuctionData.nftTokenId)) throw new Error("Item needs a collection address and a token id");
+      if (nftContract && !confidential && !(Number(newAuctionData.deposit) > 0)) throw new Error("Selling an item needs a deposit or a confidential token");
+      const participation = toParticipationRule(newAuctionData);
+      const { decimals } = await client.tokenInfo(token);
+      const startTime = await client.chainTime() + (Number(newAuctionData.startDelay) * 3600);
+      const auctionId = await client.createAuction({
         title: newAuctionData.title,
         description: newAuctionData.description,
-        encryptedBids: [],
-        highestBid: FHEEncryptNumber(0),
-        endTime: Math.floor(Date.now() / 1000) + (newAuctionData.duration * 86400),
-        creator: address,
-        status: 'active'
-      };
-      
-      // Update auctions list
-      const updatedAuctions = [...auctions, newAuction];
-      
-      // Save to contract
-      await contract.setData("auctions", ethers.toUtf8Bytes(JSON.stringify(updatedAuctions)));
+        auctionType,
+        tieBreak,
+        quantity: auctionType === AuctionType.UniformPrice ? Number(newAuctionData.quantity) : 1,
+        startTime,
+        endTime: startTime + (Number(newAuctionData.duration) * 86400),
+        payment: {
+          token,
+          priceUnit: ethers.parseUnits(newAuctionData.priceUnit.trim(), decimals),
+          deposit: confidential ? 0n : ethers.parseUnits(newAuctionData.deposit.trim(), decimals),
+          confidential
+        },
+        item: nftContract ? { collection: nftContract, tokenId: BigInt(newAuctionData.nftTokenId.trim()) } : undefined,
+        schedule,
+        participation,
+        reservePrice: Number(newAuctionData.reservePrice)
+      });
       
       // Update user actions
       const newAction: UserAction = {
         type: 'create',
         timestamp: Math.floor(Date.now() / 1000),
-        details: `Created auction: ${newAuctionData.title}`
+        details: `Created auction #${auctionId}: ${newAuctionData.title}`
       };
       setUserActions(prev => [newAction, ...prev]);
       
       setTransactionStatus({ visible: true, status: "success", message: "Auction created successfully!" });
-      await loadData();
+      await syncEvents();
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewAuctionData({ title: "", description: "", duration: 1 });
+        setNewAuctionData(EMPTY_AUCTION_FORM);
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Submission failed: " + (e.message || "Unknown error");
+      const errorMessage = failureMessage("Submission", e);
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
@@ -179,7 +547,7 @@ const App: React.FC = () => {
       return; 
     }
     
-    if (!bidAmount || isNaN(parseFloat(bidAmount))) {
+    if (!isValidBid(bidAmount)) {
       setTransactionStatus({ visible: true, status: "error", message: "Please enter a valid bid amount" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return;
@@ -188,54 +556,187 @@ const App: React.FC = () => {
     setTransactionStatus({ visible: true, status: "pending", message: "Processing bid with Zama FHE..." });
     
     try {
-      const contract = await getContractWithSigner();
+      const contract = await withSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
       // Find the auction
-      const auctionIndex = auctions.findIndex(a => a.id === auctionId);
-      if (auctionIndex === -1) throw new Error("Auction not found");
-      
-      // Update bids
-      const updatedAuctions = [...auctions];
-      const encryptedBid = FHEEncryptNumber(parseFloat(bidAmount));
-      updatedAuctions[auctionIndex].encryptedBids.push(encryptedBid);
-      
-      // Update highest bid if needed (simulate FHE comparison)
-      const currentHighest = FHEDecryptNumber(updatedAuctions[auctionIndex].highestBid);
-      if (parseFloat(bidAmount) > currentHighest) {
-        updatedAuctions[auctionIndex].highestBid = encryptedBid;
-      }
+      const auction = auctions.find(a => a.id === auctionId);
+      if (!auction) throw new Error("Auction not found");
+      const status = getAuctionStatus(auction, chainNow);
+      if (status === 'upcoming') throw new Error("Auction has not started yet");
+      if (status === 'ended') throw new Error("Auction is no longer accepting bids");
       
-      // Save to contract
-      await contract.setData("auctions", ethers.toUtf8Bytes(JSON.stringify(updatedAuctions)));
+      const client = new AuctionClient(contract);
+      if (auction.auctionType === AuctionType.UniformPrice) {
+        if (!isValidQuantity(bidQuantity, settings?.maxQuantity)) throw new Error("Please enter a valid quantity");
+        if (settings && auction.bids.length >= settings.maxUniformPriceBids) throw new Error("Auction has reached its bid limit");
+        await client.bidMultiUnit(auctionId, Number(bidAmount), Number(bidQuantity));
+      } else {
+        await client.bid(auctionId, Number(bidAmount));
+      }
       
       // Update user actions
       const newAction: UserAction = {
         type: 'bid',
         timestamp: Math.floor(Date.now() / 1000),
-        details: `Placed bid on auction: ${updatedAuctions[auctionIndex].title}`
+        details: `Placed bid on auction: ${auction.title}`
       };
       setUserActions(prev => [newAction, ...prev]);
       
       setTransactionStatus({ visible: true, status: "success", message: "Bid placed with FHE encryption!" });
-      await loadData();
+      await syncEvents();
       setBidAmount("");
+      setBidQuantity("1");
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Bidding failed: " + (e.message || "Unknown error");
+      const errorMessage = failureMessage("Bidding", e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Stop accepting bids before the end time
+  const closeAuction = async (auctionId: number) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Closing auction..." });
+    
+    try {
+      const contract = await withSigner();
+      await new AuctionClient(contract).close(auctionId);
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Auction closed" });
+      await syncEvents();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = failureMessage("Closing", e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Takes back the item of an auction that cannot sell it: nobody bid, the reserve
+  // was not met, or the winner let the payment period pass
+  const reclaimItem = async (auctionId: number) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Reclaiming item..." });
+    
+    try {
+      const contract = await withSigner();
+      await new AuctionClient(contract).reclaimItem(auctionId);
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Item returned" });
+      await syncEvents();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = failureMessage("Reclaiming", e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Proves membership of a Merkle allowlist; the auction then takes bids from this account
+  const joinAuction = async (auctionId: number, proof: string[]) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Joining auction..." });
+    
+    try {
+      const contract = await withSigner();
+      await new AuctionClient(contract).joinAuction(auctionId, proof);
+      
+      setTransactionStatus({ visible: true, status: "success", message: "You can now bid" });
+      await syncEvents();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = failureMessage("Joining", e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const updateAllowlist = async (auctionId: number, accounts: string[], allowed: boolean) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Updating allowlist..." });
+    
+    try {
+      const contract = await withSigner();
+      await new AuctionClient(contract).setAllowlist(auctionId, accounts, allowed);
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Allowlist updated" });
+      await syncEvents();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = failureMessage("Updating the allowlist", e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Refunds, payment and proceeds once an auction has settled. `bidder` is only used to forfeit a deposit.
+  const escrowAction = async (action: EscrowAction, auctionId: number, bidder?: string) => {
+    setTransactionStatus({ visible: true, status: "pending", message: ESCROW_ACTION_LABELS[action] + "..." });
+    
+    try {
+      const client = new AuctionClient(await withSigner());
+      if (action === 'refund') await client.withdrawRefund(auctionId);
+      else if (action === 'pay' || action === 'claim') await client.payAndClaim(auctionId);
+      else if (action === 'proceeds') await client.withdrawProceeds(auctionId);
+      else await client.forfeitDeposit(auctionId, bidder!);
+      
+      setTransactionStatus({ visible: true, status: "success", message: ESCROW_ACTION_LABELS[action] + " done" });
+      await syncEvents();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = failureMessage(ESCROW_ACTION_LABELS[action], e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Role, provider and ownership changes from the admin panel
+  const adminAction = async (label: string, run: (client: AuctionClient) => Promise<unknown>) => {
+    setTransactionStatus({ visible: true, status: "pending", message: label + "..." });
+    
+    try {
+      await run(new AuctionClient(await withSigner()));
+      
+      setTransactionStatus({ visible: true, status: "success", message: label + " done" });
+      await syncEvents();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = failureMessage(label, e);
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
+  // Request decryption of the highest bid; AuctionSettled is emitted once the oracle calls back
+  const settleAuction = async (auctionId: number) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting winner decryption..." });
+    
+    try {
+      const contract = await withSigner();
+      await new AuctionClient(contract).settle(auctionId);
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Settlement requested, waiting for the decryption oracle" });
+      await syncEvents();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = failureMessage("Settlement", e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // wagmi wants the verifying contract as a checksummed 0x address
+  const signUserDecrypt: TypedDataSigner = typedData => signTypedDataAsync({
+    domain: { ...typedData.domain, verifyingContract: getAddress(typedData.domain.verifyingContract) },
+    types: { UserDecryptRequestVerification: typedData.types.UserDecryptRequestVerification },
+    primaryType: 'UserDecryptRequestVerification',
+    message: typedData.message
+  });
+
   // Decrypt bids with signature
   const decryptWithSignature = async (auction: Auction) => {
-    if (!isConnected) { 
+    if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return; 
@@ -243,16 +744,36 @@ const App: React.FC = () => {
     
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // Decrypt all bids
-      const decrypted = auction.encryptedBids.map(bid => ({
-        bidder: "0x...", // In real implementation, this would come from encrypted metadata
-        encryptedAmount: bid,
-        decryptedAmount: FHEDecryptNumber(bid),
-        timestamp: Math.floor(Date.now() / 1000)
+      // Signed once per durationDays window and kept in memory, so a reload asks again
+      const request = await loadOrSignUserDecrypt(
+        chainId,
+        address,
+        [contractAddress],
+        signUserDecrypt,
+        startTimestamp,
+        durationDays
+      );
+      
+      // The contract only grants each bidder access to their own bids
+      const myBids = auction.bids.filter(bid => normAddr(bid.bidder) === normAddr(address));
+      let clearValues: Record<string, bigint>;
+      try {
+        clearValues = await userDecrypt(
+          chainId,
+          myBids.flatMap(bid => [bid.encryptedAmount, ...(bid.encryptedQuantity ? [bid.encryptedQuantity] : [])])
+            .map(handle => ({ handle, contractAddress })),
+          request
+        );
+      } catch (e) {
+        // A rejected request usually means a stale signature; sign again next time
+        clearUserDecryptSession(chainId, address, [contractAddress]);
+        throw e;
+      }
+      
+      const decrypted = myBids.map(bid => ({
+        ...bid,
+        decryptedAmount: Number(clearValues[bid.encryptedAmount.toLowerCase()]),
+        decryptedQuantity: bid.encryptedQuantity ? Number(clearValues[bid.encryptedQuantity.toLowerCase()]) : undefined
       }));
       
       setDecryptedBids(decrypted);
@@ -261,26 +782,56 @@ const App: React.FC = () => {
       const newAction: UserAction = {
         type: 'decrypt',
         timestamp: Math.floor(Date.now() / 1000),
-        details: "Decrypted FHE bids"
+        details: `Decrypted ${decrypted.length} bid(s) on ${auction.title}`
       };
       setUserActions(prev => [newAction, ...prev]);
-    } catch (e) { 
+    } catch (e: any) { 
       console.error("Decryption failed:", e);
+      const errorMessage = failureMessage("Decryption", e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
       setIsDecrypting(false); 
     }
   };
 
-  // Render auction status
-  const renderAuctionStatus = (auction: Auction) => {
-    const now = Math.floor(Date.now() / 1000);
-    const ended = auction.endTime <= now;
+  // Balance and allowance in the confidential token an auction is paid in. The
+  // token is a separate contract, so it needs its own user-decrypt signature.
+  const decryptTokenBalance = async (token: string): Promise<ConfidentialBalance | undefined> => {
+    if (!isConnected || !address) return undefined;
     
-    return (
-      <div className={`auction-status ${ended ? 'ended' : 'active'}`}>
-        {ended ? 'Ended' : 'Active'}
-      </div>
-    );
+    try {
+      const request = await loadOrSignUserDecrypt(chainId, address, [token], signUserDecrypt, startTimestamp, durationDays);
+      try {
+        const client = new ConfidentialTokenClient(token, (await withSigner()).runner);
+        return await client.decrypt(chainId, contractAddress, request);
+      } catch (e) {
+        clearUserDecryptSession(chainId, address, [token]);
+        throw e;
+      }
+    } catch (e: any) {
+      const errorMessage = failureMessage("Balance decryption", e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return undefined;
+    }
+  };
+
+  // Lets the auction contract pull bids from the confidential token, up to `amount` in total
+  const approveToken = async (token: string, amount: bigint) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting allowance..." });
+    
+    try {
+      const client = new ConfidentialTokenClient(token, (await withSigner()).runner);
+      await client.approve(contractAddress, amount);
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Allowance updated" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = failureMessage("Approval", e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
   };
 
   // Render FHE flow visualization
@@ -378,12 +929,15 @@ const App: React.FC = () => {
   const filteredAuctions = auctions.filter(auction => {
     const matchesSearch = auction.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
                          auction.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = filterStatus === 'all' || 
-                        (filterStatus === 'active' && auction.status === 'active' && auction.endTime > Math.floor(Date.now() / 1000)) ||
-                        (filterStatus === 'ended' && (auction.status === 'ended' || auction.endTime <= Math.floor(Date.now() / 1000)));
+    const matchesStatus = filterStatus === 'all' || getAuctionStatus(auction, chainNow) === filterStatus;
     return matchesSearch && matchesStatus;
   });
 
+  // Role holders administer the contract; a pending owner needs the tab to accept
+  const showAdmin = !!address && !!access && (
+    ROLES.some(role => holdsRole(access, address, role)) || normAddr(address) === normAddr(access.pendingOwner ?? "")
+  );
+
   if (loading) return (
     <div className="loading-screen">
       <div className="fhe-spinner"></div>
@@ -442,7 +996,7 @@ const App: React.FC = () => {
                   <div className="stat-item">
                     <div className="stat-value">
                       {auctions.length > 0 
-                        ? auctions.reduce((sum, a) => sum + a.encryptedBids.length, 0)
+                        ? auctions.reduce((sum, a) => sum + a.bids.length, 0)
                         : 0}
                     </div>
                     <div className="stat-label">Total Bids</div>
@@ -450,7 +1004,7 @@ const App: React.FC = () => {
                   <div className="stat-item">
                     <div className="stat-value">
                       {auctions.length > 0 
-                        ? Math.round(auctions.reduce((sum, a) => sum + a.encryptedBids.length, 0) / auctions.length) 
+                        ? Math.round(auctions.reduce((sum, a) => sum + a.bids.length, 0) / auctions.length) 
                         : 0}
                     </div>
                     <div className="stat-label">Avg Bids</div>
@@ -480,6 +1034,14 @@ const App: React.FC = () => {
               >
                 FAQ
               </button>
+              {showAdmin && (
+                <button 
+                  className={`tab ${activeTab === 'admin' ? 'active' : ''}`}
+                  onClick={() => setActiveTab('admin')}
+                >
+                  Admin
+                </button>
+              )}
             </div>
             
             <div className="tab-content">
@@ -497,9 +1059,10 @@ const App: React.FC = () => {
                         />
                         <select 
                           value={filterStatus}
-                          onChange={(e) => setFilterStatus(e.target.value as 'all' | 'active' | 'ended')}
+                          onChange={(e) => setFilterStatus(e.target.value as 'all' | AuctionStatus)}
                         >
                           <option value="all">All</option>
+                          <option value="upcoming">Upcoming</option>
                           <option value="active">Active</option>
                           <option value="ended">Ended</option>
                         </select>
@@ -534,13 +1097,13 @@ const App: React.FC = () => {
                       >
                         <div className="auction-header">
                           <div className="auction-title">{auction.title}</div>
-                          {renderAuctionStatus(auction)}
+                          {renderAuctionStatus(auction, chainNow)}
                         </div>
                         <div className="auction-description">{auction.description.substring(0, 100)}...</div>
                         <div className="auction-meta">
                           <div className="meta-item">
                             <span>Creator:</span>
-                            <strong>{auction.creator.substring(0, 6)}...{auction.creator.substring(38)}</strong>
+                            <strong>{shortAddr(auction.creator)}</strong>
                           </div>
                           <div className="meta-item">
                             <span>Ends:</span>
@@ -548,7 +1111,7 @@ const App: React.FC = () => {
                           </div>
                           <div className="meta-item">
                             <span>Bids:</span>
-                            <strong>{auction.encryptedBids.length}</strong>
+                            <strong>{auction.bids.length}</strong>
                           </div>
                         </div>
                       </div>
@@ -570,6 +1133,10 @@ const App: React.FC = () => {
                   {renderFAQ()}
                 </div>
               )}
+              
+              {activeTab === 'admin' && showAdmin && access && settings && address && (
+                <AdminPanel access={access} settings={settings} account={address} adminAction={adminAction} />
+              )}
             </div>
           </div>
         </div>
@@ -582,22 +1149,41 @@ const App: React.FC = () => {
           creating={creatingAuction} 
           auctionData={newAuctionData} 
           setAuctionData={setNewAuctionData}
+          settings={settings}
         />
       )}
       
       {selectedAuction && (
         <AuctionDetailModal 
           auction={selectedAuction} 
+          now={chainNow}
+          canManage={!!address && (normAddr(address) === normAddr(selectedAuction.creator) || (!!access && holdsRole(access, address, Role.Auctioneer)))}
+          canSettle={!!address && !!access && holdsRole(access, address, Role.Settler)}
           onClose={() => { 
             setSelectedAuction(null); 
             setDecryptedBids([]); 
           }} 
+          myBidCount={address ? selectedAuction.bids.filter(bid => normAddr(bid.bidder) === normAddr(address)).length : 0}
           decryptedBids={decryptedBids}
           isDecrypting={isDecrypting} 
           decryptWithSignature={decryptWithSignature}
           placeBid={placeBid}
+          eligibility={eligibility}
+          joinAuction={joinAuction}
+          updateAllowlist={updateAllowlist}
+          closeAuction={closeAuction}
+          reclaimItem={reclaimItem}
+          settleAuction={settleAuction}
+          escrowAction={escrowAction}
+          decryptTokenBalance={decryptTokenBalance}
+          approveToken={approveToken}
+          account={address}
+          isCreator={!!address && normAddr(address) === normAddr(selectedAuction.creator)}
           bidAmount={bidAmount}
           setBidAmount={setBidAmount}
+          bidQuantity={bidQuantity}
+          setBidQuantity={setBidQuantity}
+          maxQuantity={settings?.maxQuantity}
         />
       )}
       
@@ -651,14 +1237,19 @@ interface ModalCreateAuctionProps {
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
-  auctionData: any;
-  setAuctionData: (data: any) => void;
+  auctionData: AuctionFormData;
+  setAuctionData: (data: AuctionFormData) => void;
+  settings?: ContractSettings;
 }
 
-const ModalCreateAuction: React.FC<ModalCreateAuctionProps> = ({ onSubmit, onClose, creating, auctionData, setAuctionData }) => {
+const ModalCreateAuction: React.FC<ModalCreateAuctionProps> = ({ onSubmit, onClose, creating, auctionData, setAuctionData, settings }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    setAuctionData({ ...auctionData, [name]: value });
+    const next = { ...auctionData, [name]: value };
+    if (!tieBreaksFor(Number(next.auctionType) as AuctionType).includes(Number(next.tieBreak) as TieBreak)) {
+      next.tieBreak = String(TieBreak.Latest);
+    }
+    setAuctionData(next);
   };
 
   return (
@@ -700,6 +1291,61 @@ const ModalCreateAuction: React.FC<ModalCreateAuctionProps> = ({ onSubmit, onClo
             />
           </div>
           
+          <div className="form-group">
+            <label>Auction Type</label>
+            <select name="auctionType" value={auctionData.auctionType} onChange={handleChange}>
+              {[AuctionType.FirstPrice, AuctionType.SecondPrice, AuctionType.UniformPrice, AuctionType.Dutch].map(type => (
+                <option key={type} value={type}>{AUCTION_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <small>{AUCTION_TYPE_HINTS[Number(auctionData.auctionType) as AuctionType]}</small>
+          </div>
+          
+          <div className="form-group">
+            <label>Equal Highest Bids</label>
+            <select name="tieBreak" value={auctionData.tieBreak} onChange={handleChange}>
+              {tieBreaksFor(Number(auctionData.auctionType) as AuctionType).map(rule => (
+                <option key={rule} value={rule}>{TIE_BREAK_LABELS[rule]}</option>
+              ))}
+            </select>
+            <small>Decides which bid wins when several encrypted bids are equal.</small>
+          </div>
+          
+          {Number(auctionData.auctionType) === AuctionType.Dutch && (
+            <DutchScheduleEditor auctionData={auctionData} onChange={handleChange} />
+          )}
+          
+          <ParticipationEditor auctionData={auctionData} onChange={handleChange} />
+          
+          {Number(auctionData.auctionType) === AuctionType.UniformPrice && (
+            <div className="form-group">
+              <label>Units on Offer *</label>
+              <input 
+                type="number" 
+                name="quantity" 
+                min="1"
+                max={settings?.maxQuantity}
+                step="1"
+                value={auctionData.quantity} 
+                onChange={handleChange} 
+                placeholder="Number of identical units..." 
+              />
+              <small>Units go to the highest unit prices; every winner pays the lowest accepted unit price.{settings && ` At most ${settings.maxUniformPriceBids} bids.`}</small>
+            </div>
+          )}
+          
+          <div className="form-group">
+            <label>Starts In (Hours)</label>
+            <input 
+              type="number" 
+              name="startDelay" 
+              min="0"
+              value={auctionData.startDelay} 
+              onChange={handleChange} 
+              placeholder="0 opens bidding right away..." 
+            />
+          </div>
+          
           <div className="form-group">
             <label>Duration (Days) *</label>
             <input 
@@ -712,16 +1358,100 @@ const ModalCreateAuction: React.FC<ModalCreateAuctionProps> = ({ onSubmit, onClo
               placeholder="Enter duration in days..." 
             />
           </div>
+          
+          <div className="form-group">
+            <label>Reserve Price (encrypted)</label>
+            <input 
+              type="number" 
+              name="reservePrice" 
+              min="0"
+              step="1"
+              value={auctionData.reservePrice} 
+              onChange={handleChange} 
+              placeholder="Lowest winning bid (whole units)..." 
+            />
+          </div>
+          
+          {Number(auctionData.auctionType) !== AuctionType.UniformPrice && (
+            <div className="form-group">
+              <label>Item (ERC-721)</label>
+              <input 
+                type="text" 
+                name="nftContract" 
+                value={auctionData.nftContract} 
+                onChange={handleChange} 
+                placeholder="Collection address, leave blank for no on-chain item" 
+              />
+              {auctionData.nftContract.trim() && (
+                <input 
+                  type="text" 
+                  name="nftTokenId" 
+                  value={auctionData.nftTokenId} 
+                  onChange={handleChange} 
+                  placeholder="Token id..." 
+                />
+              )}
+              <small>Held by the contract until the winner pays, then sent to them; you take it back if nobody wins or the winner does not pay. Needs a deposit or a confidential token.</small>
+            </div>
+          )}
+          
+          <div className="form-group">
+            <label>Payment Token</label>
+            <input 
+              type="text" 
+              name="paymentToken" 
+              value={auctionData.paymentToken} 
+              onChange={handleChange} 
+              placeholder="ERC-20 address, leave blank for ETH" 
+            />
+          </div>
+          
+          <div className="form-group">
+            <label>Token Balances</label>
+            <select name="confidential" value={auctionData.confidential} onChange={handleChange}>
+              <option value="false">Public (ETH or ERC-20)</option>
+              <option value="true">Encrypted (confidential token)</option>
+            </select>
+            {auctionData.confidential === "true" && (
+              <small>Each bid escrows its full encrypted price; losers are refunded without anything being revealed.</small>
+            )}
+          </div>
+          
+          <div className="form-group">
+            <label>Value of One Bid Unit *</label>
+            <input 
+              type="text" 
+              name="priceUnit" 
+              value={auctionData.priceUnit} 
+              onChange={handleChange} 
+              placeholder="e.g. 0.001" 
+            />
+            <small>Bids are whole units; the winner pays the clearing price times this amount.</small>
+          </div>
+          
+          {auctionData.confidential !== "true" && (
+            <div className="form-group">
+              <label>Deposit per Bid</label>
+              <input 
+                type="text" 
+                name="deposit" 
+                value={auctionData.deposit} 
+                onChange={handleChange} 
+                placeholder="0 for no deposit" 
+              />
+              <small>Locked with every bid. Losers get it back; winners pay the rest or lose it after 7 days.</small>
+            </div>
+          )}
         </div>
         
         <div className="modal-footer">
           <button onClick={onClose} className="cancel-btn">Cancel</button>
           <button 
             onClick={onSubmit} 
-            disabled={creating || !auctionData.title || !auctionData.description} 
+            disabled={creating || !auctionData.title || !auctionData.description || !(Number(auctionData.duration) >= 1) || !(Number(auctionData.startDelay) >= 0) || !isValidAmount(auctionData.priceUnit) || !(Number(auctionData.priceUnit) > 0) || !isValidAmount(auctionData.deposit) || (Number(auctionData.auctionType) === AuctionType.Dutch && !isValidDutchSchedule(toDutchSchedule(auctionData))) || (Number(auctionData.auctionType) !== AuctionType.UniformPrice && !isValidItem(auctionData.nftContract, auctionData.nftTokenId)) || (Number(auctionData.auctionType) !== AuctionType.UniformPrice && !!auctionData.nftContract.trim() && auctionData.confidential !== "true" && !(Number(auctionData.deposit) > 0)) || (auctionData.confidential === "true" && !auctionData.paymentToken.trim()) || (Number(auctionData.auctionType) === AuctionType.UniformPrice && !isValidQuantity(auctionData.quantity, settings?.maxQuantity)) || !isValidParticipation(auctionData)} 
             className="submit-btn"
           >
-            {creating ? "Creating with FHE..." : "Create Auction"}
+            {creating ? "Creating auction..." : "Create Auction"}
           </button>
         </div>
       </div>
@@ -731,28 +1461,77 @@ const ModalCreateAuction: React.FC<ModalCreateAuctionProps> = ({ onSubmit, onClo
 
 interface AuctionDetailModalProps {
   auction: Auction;
+  now: number;
+  canManage: boolean;
+  // Settlers may settle any auction without managing it otherwise
+  canSettle: boolean;
+  myBidCount: number;
   onClose: () => void;
   decryptedBids: Bid[];
   isDecrypting: boolean;
   decryptWithSignature: (auction: Auction) => Promise<void>;
   placeBid: (auctionId: number) => void;
+  // Undefined while it is being checked, or when no wallet is connected
+  eligibility?: Eligibility;
+  joinAuction: (auctionId: number, proof: string[]) => void;
+  updateAllowlist: (auctionId: number, accounts: string[], allowed: boolean) => void;
+  closeAuction: (auctionId: number) => void;
+  reclaimItem: (auctionId: number) => void;
+  settleAuction: (auctionId: number) => void;
+  escrowAction: (action: EscrowAction, auctionId: number, bidder?: string) => void;
+  decryptTokenBalance: (token: string) => Promise<ConfidentialBalance | undefined>;
+  approveToken: (token: string, amount: bigint) => Promise<void>;
+  account?: string;
+  isCreator: boolean;
   bidAmount: string;
   setBidAmount: (value: string) => void;
+  bidQuantity: string;
+  setBidQuantity: (value: string) => void;
+  maxQuantity?: number;
 }
 
 const AuctionDetailModal: React.FC<AuctionDetailModalProps> = ({ 
   auction, 
+  now,
+  canManage,
+  canSettle,
+  myBidCount,
   onClose, 
   decryptedBids,
   isDecrypting, 
   decryptWithSignature,
   placeBid,
+  eligibility,
+  joinAuction,
+  updateAllowlist,
+  closeAuction,
+  reclaimItem,
+  settleAuction,
+  escrowAction,
+  decryptTokenBalance,
+  approveToken,
+  account,
+  isCreator,
   bidAmount,
-  setBidAmount
+  setBidAmount,
+  bidQuantity,
+  setBidQuantity,
+  maxQuantity
 }) => {
-  const now = Math.floor(Date.now() / 1000);
-  const ended = auction.endTime <= now;
-  const isCreator = auction.creator === auction.creator; // Simplified for demo
+  const status = getAuctionStatus(auction, now);
+  const ended = status === 'ended';
+  // Past its end time anyone may settle an auction, so deposits never wait on the creator
+  const openToSettle = !!account && now >= auction.endTime && auction.bids.length > 0;
+  const multiUnit = auction.auctionType === AuctionType.UniformPrice;
+  const bidFormValid = isValidBid(bidAmount) && (!multiUnit || isValidQuantity(bidQuantity, maxQuantity));
+  const [allowlistInput, setAllowlistInput] = useState("");
+  const allowlistAccounts = (() => {
+    try {
+      return parseAddressCsv(allowlistInput.split(/[\s,]+/).join("\n"));
+    } catch {
+      return [];
+    }
+  })();
 
   return (
     <div className="modal-overlay">
@@ -763,58 +1542,229 @@ const AuctionDetailModal: React.FC<AuctionDetailModalProps> = ({
         </div>
         
         <div className="modal-body">
+          {auction.item && <NftPreview item={auction.item} />}
           <div className="auction-info">
             <div className="info-header">
               <h3>{auction.title}</h3>
-              {renderAuctionStatus(auction)}
+              {renderAuctionStatus(auction, now)}
             </div>
             <div className="info-item">
               <span>Creator:</span>
-              <strong>{auction.creator.substring(0, 6)}...{auction.creator.substring(38)}</strong>
+              <strong>{shortAddr(auction.creator)}</strong>
+            </div>
+            <div className="info-item">
+              <span>Type:</span>
+              <strong>{AUCTION_TYPE_LABELS[auction.auctionType]}</strong>
+            </div>
+            <div className="info-item">
+              <span>Ties:</span>
+              <strong>{TIE_BREAK_LABELS[auction.tieBreak]}</strong>
+            </div>
+            <div className="info-item">
+              <span>Bidders:</span>
+              <strong>{PARTICIPATION_LABELS[auction.participation.participation]}</strong>
+            </div>
+            {multiUnit && (
+              <div className="info-item">
+                <span>Units on Offer:</span>
+                <strong>{auction.quantity}</strong>
+              </div>
+            )}
+            <div className="info-item">
+              <span>Created:</span>
+              <strong>{new Date(auction.createdAt * 1000).toLocaleString()}</strong>
+            </div>
+            <div className="info-item">
+              <span>Starts:</span>
+              <strong>{new Date(auction.startTime * 1000).toLocaleString()}</strong>
             </div>
             <div className="info-item">
-              <span>End Time:</span>
+              <span>Ends:</span>
               <strong>{new Date(auction.endTime * 1000).toLocaleString()}</strong>
             </div>
+            {auction.closedAt !== undefined && (
+              <div className="info-item">
+                <span>Closed:</span>
+                <strong>{new Date(auction.closedAt * 1000).toLocaleString()}</strong>
+              </div>
+            )}
+            {auction.schedule && !auction.settled && <DutchPriceTicker auction={auction} schedule={auction.schedule} now={now} />}
             <div className="info-item">
               <span>Total Bids:</span>
-              <strong>{auction.encryptedBids.length}</strong>
+              <strong>{auction.bids.length}</strong>
+            </div>
+            <div className="info-item">
+              <span>Reserve:</span>
+              <strong>{auction.settled ? (auction.reserveMet ? "Met" : "Not met") : "Encrypted"}</strong>
             </div>
+            <div className="info-item">
+              <span>Bid Unit:</span>
+              <strong>{formatAmount(auction.payment.priceUnit, auction.token)}</strong>
+            </div>
+            <div className="info-item">
+              <span>{auction.payment.confidential ? "Escrow:" : "Deposit per Bid:"}</span>
+              <strong>{auction.payment.confidential ? "Full bid, encrypted" : formatAmount(auction.payment.deposit, auction.token)}</strong>
+            </div>
+            {auction.settled && auction.reserveMet && !multiUnit && auction.winner && (
+              <div className="info-item">
+                <span>Winner:</span>
+                <strong>{shortAddr(auction.winner)}</strong>
+              </div>
+            )}
+            {auction.settled && auction.reserveMet && (
+              <div className="info-item">
+                <span>{multiUnit ? "Clearing Unit Price:" : "Clearing Price:"}</span>
+                <strong>{auction.clearingPrice}</strong>
+              </div>
+            )}
             <div className="info-item full-width">
               <span>Description:</span>
               <div className="auction-description">{auction.description}</div>
             </div>
           </div>
           
-          {!ended && (
+          {status === 'upcoming' && (
+            <div className="bid-section">
+              <h3>Place Bid</h3>
+              <p>Bidding opens {new Date(auction.startTime * 1000).toLocaleString()} (chain time).</p>
+            </div>
+          )}
+          
+          {status === 'active' && (
             <div className="bid-section">
               <h3>Place Bid</h3>
+              {account && eligibility?.status !== "eligible" ? (
+                <div className="bid-form">
+                  {!eligibility ? (
+                    <p>Checking whether you can bid...</p>
+                  ) : eligibility.status === "can-join" ? (
+                    <>
+                      <p>You are on this auction's allowlist. Join it once to start bidding.</p>
+                      <button className="bid-btn" onClick={() => joinAuction(auction.id, eligibility.proof)}>Join Auction</button>
+                    </>
+                  ) : (
+                    <p>{eligibility.reason}</p>
+                  )}
+                </div>
+              ) : (
+              <>
+              {auction.payment.confidential && account && (
+                <ConfidentialBalancePanel 
+                  auction={auction} 
+                  decryptBalance={() => decryptTokenBalance(auction.payment.token)} 
+                  approve={amount => approveToken(auction.payment.token, amount)} 
+                />
+              )}
               <div className="bid-form">
                 <input 
                   type="number" 
-                  placeholder="Enter bid amount..." 
+                  min="0"
+                  step="1"
+                  placeholder={multiUnit ? "Price per unit (whole units)..." : auction.schedule ? "Highest price you would pay (whole units)..." : "Enter bid amount (whole units)..."} 
                   value={bidAmount}
                   onChange={(e) => setBidAmount(e.target.value)}
                 />
+                {multiUnit && (
+                  <input 
+                    type="number" 
+                    min="1"
+                    max={auction.quantity}
+                    step="1"
+                    placeholder="Quantity..." 
+                    value={bidQuantity}
+                    onChange={(e) => setBidQuantity(e.target.value)}
+                  />
+                )}
                 <button 
                   className="bid-btn" 
                   onClick={() => placeBid(auction.id)}
-                  disabled={!bidAmount || isNaN(parseFloat(bidAmount))}
+                  disabled={!bidFormValid}
                 >
                   Submit Encrypted Bid
                 </button>
               </div>
               <div className="fhe-tag">
                 <div className="fhe-icon"></div>
-                <span>Bid will be encrypted with FHE</span>
+                <span>
+                  {multiUnit ? "Unit price and quantity will be encrypted with FHE" : "Bid will be encrypted with FHE"}
+                  {auction.payment.deposit > 0n && ` · locks ${formatAmount(auction.payment.deposit, auction.token)}`}
+                  {auction.payment.confidential && " · escrows the bid's price from your encrypted balance; a bid it cannot cover counts as zero"}
+                </span>
+              </div>
+              </>
+              )}
+            </div>
+          )}
+          
+          {multiUnit && auction.settled && auction.reserveMet && (
+            <div className="bids-section">
+              <h3>Allocation</h3>
+              <div className="bids-list">
+                <div className="bids-header">
+                  <span>Winner</span>
+                  <span>Units @ {auction.clearingPrice}</span>
+                </div>
+                {auction.bids.filter(bid => bid.allocation).map((bid, index) => (
+                  <div className="bid-item" key={index}>
+                    <span>{bid.bidder}</span>
+                    <strong>{bid.allocation}</strong>
+                  </div>
+                ))}
               </div>
             </div>
           )}
           
+          {auction.settled && account && (
+            <EscrowPanel auction={auction} account={account} isCreator={isCreator} now={now} escrowAction={escrowAction} reclaimItem={reclaimItem} />
+          )}
+          
+          {(canManage || canSettle || openToSettle) && !auction.settled && (
+            <div className="bid-section">
+              <h3>{canManage ? "Creator Actions" : "Settlement"}</h3>
+              <div className="bid-form">
+                {canManage && !ended && (
+                  <button className="bid-btn" onClick={() => closeAuction(auction.id)}>Close Bidding</button>
+                )}
+                {auction.bids.length > 0 && (
+                  <button className="bid-btn" onClick={() => settleAuction(auction.id)}>
+                    {auction.schedule && !ended ? "Check Current Ask" : "Reveal Winner"}
+                  </button>
+                )}
+                {isCreator && ended && auction.bids.length === 0 && auction.item && !auction.item.releasedTo && (
+                  <button className="bid-btn" onClick={() => reclaimItem(auction.id)}>Reclaim Item</button>
+                )}
+              </div>
+              {isCreator && !ended && auction.participation.participation === Participation.Allowlist && (
+                <div className="bid-form">
+                  <input 
+                    type="text" 
+                    placeholder="Addresses, comma or newline separated..." 
+                    value={allowlistInput}
+                    onChange={(e) => setAllowlistInput(e.target.value)}
+                  />
+                  <button 
+                    className="bid-btn" 
+                    onClick={() => updateAllowlist(auction.id, allowlistAccounts, true)}
+                    disabled={allowlistAccounts.length === 0}
+                  >
+                    Allow
+                  </button>
+                  <button 
+                    className="bid-btn" 
+                    onClick={() => updateAllowlist(auction.id, allowlistAccounts, false)}
+                    disabled={allowlistAccounts.length === 0}
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+          
           <div className="bids-section">
             <h3>
               {ended ? 'Auction Results' : 'Bid Activity'}
-              {isCreator && auction.encryptedBids.length > 0 && (
+              {myBidCount > 0 && (
                 <button 
                   className="decrypt-btn" 
                   onClick={() => decryptWithSignature(auction)} 
@@ -823,9 +1773,9 @@ const AuctionDetailModal: React.FC<AuctionDetailModalProps> = ({
                   {isDecrypting ? (
                     "Decrypting..."
                   ) : decryptedBids.length > 0 ? (
-                    "Hide Decrypted Bids"
+                    "Refresh My Bids"
                   ) : (
-                    "Decrypt Bids"
+                    "Decrypt My Bids"
                   )}
                 </button>
               )}
@@ -835,12 +1785,12 @@ const AuctionDetailModal: React.FC<AuctionDetailModalProps> = ({
               <div className="bids-list">
                 <div className="bids-header">
                   <span>Bidder</span>
-                  <span>Amount</span>
+                  <span>{multiUnit ? "Quantity @ Unit Price" : "Amount"}</span>
                 </div>
                 {decryptedBids.map((bid, index) => (
                   <div className="bid-item" key={index}>
                     <span>{bid.bidder}</span>
-                    <strong>{bid.decryptedAmount?.toFixed(4)} ETH</strong>
+                    <strong>{multiUnit ? `${bid.decryptedQuantity} @ ${bid.decryptedAmount}` : bid.decryptedAmount}</strong>
                   </div>
                 ))}
               </div>
@@ -849,7 +1799,7 @@ const AuctionDetailModal: React.FC<AuctionDetailModalProps> = ({
                 <div className="lock-icon"></div>
                 <p>
                   {ended 
-                    ? "Auction has ended. The creator can decrypt the winning bid." 
+                    ? "Auction has ended. Only the settlement outcome is revealed when the creator settles it." 
                     : "All bids are encrypted with FHE and will remain confidential until auction ends."}
                 </p>
               </div>
@@ -865,4 +1815,585 @@ const AuctionDetailModal: React.FC<AuctionDetailModalProps> = ({
   );
 };
 
+interface EscrowPanelProps {
+  auction: Auction;
+  account: string;
+  isCreator: boolean;
+  now: number;
+  escrowAction: (action: EscrowAction, auctionId: number, bidder?: string) => void;
+  reclaimItem: (auctionId: number) => void;
+}
+
+// What winners owe and losers get back decides payments, so escrow reads need
+// this many RPC endpoints to agree
+const SETTLEMENT_QUORUM = 2;
+
+// Escrow of a settled auction: the connected account's own state, and for the
+// creator the state of every bidder plus the proceeds waiting to be withdrawn.
+// An item stays with the contract until its winner pays, or comes back to the
+// creator when the reserve was not met or a cleartext winner never paid.
+const EscrowPanel: React.FC<EscrowPanelProps> = ({ auction, account, isCreator, now, escrowAction, reclaimItem }) => {
+  const [escrows, setEscrows] = useState<EscrowStatus[]>([]);
+  const [proceeds, setProceeds] = useState(0n);
+  const contract = useReadOnlyContract(SETTLEMENT_QUORUM);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      if (!contract) return;
+      const client = new AuctionClient(contract);
+      const accounts = [...new Set([account, ...(isCreator ? auction.bids.map(bid => bid.bidder) : [])].map(normAddr))];
+      const [statuses, pending] = await Promise.all([
+        Promise.all(accounts.map(a => client.escrowOf(auction.id, a))),
+        isCreator ? client.proceeds(auction.id) : Promise.resolve(0n)
+      ]);
+      if (!cancelled) {
+        setEscrows(statuses);
+        setProceeds(pending);
+      }
+    };
+    load().catch(e => console.error("Failed to load escrow:", e));
+    return () => { cancelled = true; };
+  }, [auction, account, isCreator, contract]);
+
+  const stateOf = (escrow: EscrowStatus) => escrowState(escrow, {
+    settledAt: auction.settledAt,
+    payment: auction.payment,
+    hasBid: auction.bids.some(bid => normAddr(bid.bidder) === normAddr(escrow.account))
+  }, now);
+  const mine = escrows.find(e => normAddr(e.account) === normAddr(account));
+  const myState = mine ? stateOf(mine) : 'none';
+  const itemHeld = !!auction.item && !auction.item.releasedTo;
+  const canReclaim = itemHeld && (!auction.reserveMet ||
+    (!auction.payment.confidential && escrows.some(e => e.unitsWon > 0 && stateOf(e) === 'expired')));
+
+  return (
+    <div className="bid-section">
+      <h3>Escrow</h3>
+      {mine && myState !== 'none' && (
+        <div className="info-item">
+          <span>You:</span>
+          <strong>
+            {ESCROW_STATE_LABELS[myState]}
+            {mine.deposit > 0n && ` (${formatAmount(mine.deposit, auction.token)} held)`}
+            {mine.encryptedDeposit !== ethers.ZeroHash && " (encrypted amount held)"}
+            {myState === 'payment-due' && ` · ${formatAmount(mine.amountDue, auction.token)} due`}
+          </strong>
+        </div>
+      )}
+      <div className="bid-form">
+        {myState === 'refundable' && (
+          <button className="bid-btn" onClick={() => escrowAction('refund', auction.id)}>{ESCROW_ACTION_LABELS.refund}</button>
+        )}
+        {myState === 'payment-due' && mine && (
+          <button className="bid-btn" onClick={() => escrowAction('pay', auction.id)}>
+            {ESCROW_ACTION_LABELS.pay}
+            {paymentShortfall(mine) > 0n && ` (${formatAmount(paymentShortfall(mine), auction.token)})`}
+          </button>
+        )}
+        {myState === 'paid' && itemHeld && (
+          <button className="bid-btn" onClick={() => escrowAction('claim', auction.id)}>{ESCROW_ACTION_LABELS.claim}</button>
+        )}
+        {isCreator && canReclaim && (
+          <button className="bid-btn" onClick={() => reclaimItem(auction.id)}>Reclaim Item</button>
+        )}
+        {isCreator && proceeds > 0n && (
+          <button className="bid-btn" onClick={() => escrowAction('proceeds', auction.id)}>
+            {ESCROW_ACTION_LABELS.proceeds} ({formatAmount(proceeds, auction.token)})
+          </button>
+        )}
+      </div>
+      {isCreator && escrows.length > 0 && (
+        <div className="bids-list">
+          <div className="bids-header">
+            <span>Bidder</span>
+            <span>State</span>
+          </div>
+          {escrows.filter(e => auction.bids.some(bid => normAddr(bid.bidder) === normAddr(e.account))).map(escrow => (
+            <div className="bid-item" key={escrow.account}>
+              <span>{escrow.account}</span>
+              <strong>
+                {ESCROW_STATE_LABELS[stateOf(escrow)]}
+                {stateOf(escrow) === 'expired' && holdsFunds(escrow) && (
+                  <button className="decrypt-btn" onClick={() => escrowAction('forfeit', auction.id, escrow.account)}>
+                    {ESCROW_ACTION_LABELS.forfeit}
+                  </button>
+                )}
+              </strong>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  [Role.Admin]: "Admins",
+  [Role.Auctioneer]: "Auctioneers",
+  [Role.Pauser]: "Pausers",
+  [Role.Settler]: "Settlers"
+};
+
+const ROLE_HINTS: Record<Role, string> = {
+  [Role.Admin]: "Grant the other roles, keep the provider registry and set the cooldown. Only the owner grants this role.",
+  [Role.Auctioneer]: "Manage any auction as its creator would.",
+  [Role.Pauser]: "Pause and unpause the contract.",
+  [Role.Settler]: "Process bids and request settlement of any auction."
+};
+
+interface AdminPanelProps {
+  access: AccessRecord;
+  settings: ContractSettings;
+  account: string;
+  adminAction: (label: string, run: (client: AuctionClient) => Promise<unknown>) => void;
+}
+
+// Role holders and providers as the contract's events tell them. Each role can be
+// granted and revoked by whoever administers it: the owner for admins, admins for
+// the rest.
+const AdminPanel: React.FC<AdminPanelProps> = ({ access, settings, account, adminAction }) => {
+  const [cooldown, setCooldown] = useState(String(settings.cooldownSeconds));
+  const [grantedRole, setGrantedRole] = useState(Role.Auctioneer);
+  const [grantee, setGrantee] = useState("");
+  const [provider, setProvider] = useState("");
+  const [newOwner, setNewOwner] = useState("");
+  const isOwner = normAddr(account) === normAddr(access.owner);
+  const isAdmin = holdsRole(access, account, Role.Admin);
+  const administers = (role: Role) => (role === Role.Admin ? isOwner : isAdmin);
+  const grantable = ROLES.filter(administers);
+  const cooldownValid = /^\d+$/.test(cooldown.trim()) && Number(cooldown) > 0;
+
+  return (
+    <div className="auctions-section">
+      <div className="bids-section">
+        <h3>Contract</h3>
+        <div className="bids-list">
+          <div className="bid-item">
+            <span>Status</span>
+            <strong>{settings.paused ? "Paused" : "Active"}</strong>
+          </div>
+          <div className="bid-item">
+            <span>Cooldown</span>
+            <strong>{formatDuration(settings.cooldownSeconds)}</strong>
+          </div>
+          <div className="bid-item">
+            <span>Auctions Created</span>
+            <strong>{settings.auctionCount}</strong>
+          </div>
+        </div>
+        {holdsRole(access, account, Role.Pauser) && (
+          <div className="bid-form">
+            <button 
+              className="bid-btn" 
+              onClick={() => adminAction(settings.paused ? "Unpausing" : "Pausing", client => client.setPaused(!settings.paused))}
+            >
+              {settings.paused ? "Unpause" : "Pause"}
+            </button>
+          </div>
+        )}
+        {isAdmin && (
+          <div className="bid-form">
+            <input 
+              type="number" 
+              min="1"
+              step="1"
+              placeholder="Cooldown in seconds..." 
+              value={cooldown}
+              onChange={(e) => setCooldown(e.target.value)}
+            />
+            <button 
+              className="bid-btn" 
+              onClick={() => adminAction("Setting cooldown", client => client.setCooldownSeconds(Number(cooldown)))}
+              disabled={!cooldownValid || Number(cooldown) === settings.cooldownSeconds}
+            >
+              Set Cooldown
+            </button>
+          </div>
+        )}
+        <small>Pausing stops auction creation, bids and settlement requests; refunds, payments and withdrawals stay open. The cooldown is the time each account waits between bids, and between settlement requests.</small>
+      </div>
+      
+      <div className="bids-section">
+        <h3>Ownership</h3>
+        <div className="bids-list">
+          <div className="bid-item">
+            <span>Owner</span>
+            <strong>{access.owner}</strong>
+          </div>
+          {access.pendingOwner && (
+            <div className="bid-item">
+              <span>Pending Owner</span>
+              <strong>{access.pendingOwner}</strong>
+            </div>
+          )}
+        </div>
+        {access.pendingOwner && normAddr(account) === normAddr(access.pendingOwner) && (
+          <div className="bid-form">
+            <button className="bid-btn" onClick={() => adminAction("Accepting ownership", client => client.acceptOwnership())}>
+              Accept Ownership
+            </button>
+          </div>
+        )}
+        {isOwner && (
+          <div className="bid-form">
+            <input 
+              type="text" 
+              placeholder="New owner address..." 
+              value={newOwner}
+              onChange={(e) => setNewOwner(e.target.value)}
+            />
+            <button 
+              className="bid-btn" 
+              onClick={() => adminAction("Starting ownership transfer", client => client.transferOwnership(newOwner.trim()))}
+              disabled={!ethers.isAddress(newOwner.trim())}
+            >
+              Transfer Ownership
+            </button>
+          </div>
+        )}
+        <small>The new owner takes over once they accept from their own wallet.</small>
+      </div>
+      
+      {ROLES.map(role => (
+        <div className="bids-section" key={role}>
+          <h3>{ROLE_LABELS[role]}</h3>
+          <small>{ROLE_HINTS[role]}</small>
+          <div className="bids-list">
+            {access.roles[role].length === 0 ? (
+              <div className="bid-item">
+                <span>Only the owner</span>
+              </div>
+            ) : access.roles[role].map(holder => (
+              <div className="bid-item" key={holder}>
+                <span>{holder}</span>
+                {administers(role) ? (
+                  <button className="decrypt-btn" onClick={() => adminAction("Revoking role", client => client.revokeRole(role, holder))}>
+                    Revoke
+                  </button>
+                ) : normAddr(holder) === normAddr(account) && (
+                  <button className="decrypt-btn" onClick={() => adminAction("Renouncing role", client => client.renounceRole(role))}>
+                    Renounce
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      
+      {grantable.length > 0 && (
+        <div className="bids-section">
+          <h3>Grant Role</h3>
+          <div className="bid-form">
+            <select value={grantedRole} onChange={(e) => setGrantedRole(e.target.value as Role)}>
+              {grantable.map(role => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <input 
+              type="text" 
+              placeholder="Account address..." 
+              value={grantee}
+              onChange={(e) => setGrantee(e.target.value)}
+            />
+            <button 
+              className="bid-btn" 
+              onClick={() => adminAction("Granting role", client => client.grantRole(grantedRole, grantee.trim()))}
+              disabled={!grantable.includes(grantedRole) || !ethers.isAddress(grantee.trim())}
+            >
+              Grant
+            </button>
+          </div>
+        </div>
+      )}
+      
+      <div className="bids-section">
+        <h3>Providers</h3>
+        <small>Accounts that may bid in auctions limited to registered providers.</small>
+        <div className="bids-list">
+          {access.providers.map(holder => (
+            <div className="bid-item" key={holder}>
+              <span>{holder}</span>
+              {isAdmin && (
+                <button className="decrypt-btn" onClick={() => adminAction("Removing provider", client => client.setProvider(holder, false))}>
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        {isAdmin && (
+          <div className="bid-form">
+            <input 
+              type="text" 
+              placeholder="Provider address..." 
+              value={provider}
+              onChange={(e) => setProvider(e.target.value)}
+            />
+            <button 
+              className="bid-btn" 
+              onClick={() => adminAction("Adding provider", client => client.setProvider(provider.trim(), true))}
+              disabled={!ethers.isAddress(provider.trim())}
+            >
+              Add Provider
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface DutchScheduleEditorProps {
+  auctionData: AuctionFormData;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+// Start, floor, step and tick of a Dutch auction, with the steps the ask will take
+const DutchScheduleEditor: React.FC<DutchScheduleEditorProps> = ({ auctionData, onChange }) => {
+  const schedule = toDutchSchedule(auctionData);
+  const valid = isValidDutchSchedule(schedule);
+  const duration = Number(auctionData.duration) * 86400;
+  const curve = valid ? dutchPriceCurve(schedule, 0, duration) : [];
+  const floorReached = curve.length > 0 && curve[curve.length - 1].price === schedule.floorPrice;
+  const fields: { name: keyof AuctionFormData; label: string }[] = [
+    { name: "dutchStartPrice", label: "Start Price" },
+    { name: "dutchFloorPrice", label: "Floor Price" },
+    { name: "dutchPriceDrop", label: "Drop per Tick" },
+    { name: "dutchTickMinutes", label: "Tick (Minutes)" }
+  ];
+
+  return (
+    <div className="form-group">
+      <label>Price Schedule *</label>
+      <div className="bid-form">
+        {fields.map(field => (
+          <input 
+            key={field.name}
+            type="number" 
+            name={field.name} 
+            min="0"
+            step="1"
+            title={field.label}
+            value={auctionData[field.name]} 
+            onChange={onChange} 
+            placeholder={field.label + "..."} 
+          />
+        ))}
+      </div>
+      <small>
+        {!valid
+          ? "Needs a positive drop and tick, and a floor no higher than the start price."
+          : curve.slice(0, 6).map(point => `${point.price} at +${formatDuration(point.time)}`).join(" → ") +
+            (curve.length > 6 ? " → …" : "") +
+            (floorReached
+              ? ` (floor after ${formatDuration(curve[curve.length - 1].time)})`
+              : ` (ends at ${dutchPriceAt(schedule, 0, duration)} before reaching the floor)`)}
+      </small>
+    </div>
+  );
+};
+
+interface ParticipationEditorProps {
+  auctionData: AuctionFormData;
+  onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void;
+}
+
+// Who may bid. For a Merkle allowlist the tree is built here so that the creator
+// can download the proofs and publish them at the URI stored with the auction.
+const ParticipationEditor: React.FC<ParticipationEditorProps> = ({ auctionData, onChange }) => {
+  const participation = Number(auctionData.participation) as Participation;
+  const listed = participation === Participation.Allowlist || participation === Participation.Merkle;
+  let addresses: string[] = [];
+  let tree: MerkleAllowlist | undefined;
+  let error = "";
+  if (listed) {
+    try {
+      addresses = parseAddressCsv(auctionData.allowlist);
+      if (participation === Participation.Merkle) tree = buildMerkleAllowlist(addresses);
+    } catch (e: any) {
+      error = e.message;
+    }
+  }
+
+  const downloadProofs = () => {
+    if (!tree) return;
+    const url = URL.createObjectURL(new Blob([JSON.stringify(tree, null, 2)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "allowlist.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="form-group">
+      <label>Bidders</label>
+      <select name="participation" value={auctionData.participation} onChange={onChange}>
+        {[Participation.Open, Participation.Allowlist, Participation.Merkle, Participation.Providers].map(rule => (
+          <option key={rule} value={rule}>{PARTICIPATION_LABELS[rule]}</option>
+        ))}
+      </select>
+      <small>{PARTICIPATION_HINTS[participation]}</small>
+      {listed && (
+        <>
+          <textarea 
+            name="allowlist" 
+            value={auctionData.allowlist} 
+            onChange={onChange} 
+            placeholder="One address per line, or paste a CSV with addresses in the first column..." 
+            rows={4}
+          />
+          <small>{error || `${addresses.length} address${addresses.length === 1 ? "" : "es"}`}</small>
+        </>
+      )}
+      {tree && (
+        <>
+          <small>Root {tree.root}</small>
+          <div className="bid-form">
+            <input 
+              type="text" 
+              name="proofsUri" 
+              value={auctionData.proofsUri} 
+              onChange={onChange} 
+              placeholder="Where the proofs JSON will be published (ipfs:// or https://)..." 
+            />
+            <button type="button" className="bid-btn" onClick={downloadProofs}>Download Proofs JSON</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface DutchPriceTickerProps {
+  auction: Auction;
+  schedule: DutchSchedule;
+  now: number;
+}
+
+// Live ask of a Dutch auction by chain time. Bidding is frozen at endTime, so
+// the ask is too.
+const DutchPriceTicker: React.FC<DutchPriceTickerProps> = ({ auction, schedule, now }) => {
+  const at = Math.min(now, auction.endTime);
+  const ask = dutchPriceAt(schedule, auction.startTime, at);
+  const next = at < auction.endTime ? nextPriceDrop(schedule, auction.startTime, at) : undefined;
+
+  return (
+    <>
+      <div className="info-item">
+        <span>Current Ask:</span>
+        <strong>{ask} ({formatAmount(BigInt(ask) * auction.payment.priceUnit, auction.token)})</strong>
+      </div>
+      <div className="info-item">
+        <span>Next Drop:</span>
+        <strong>
+          {next !== undefined && next < auction.endTime
+            ? `to ${dutchPriceAt(schedule, auction.startTime, next)} in ${formatDuration(next - at)}`
+            : ask === schedule.floorPrice ? `At the floor of ${schedule.floorPrice}` : "None before bidding ends"}
+        </strong>
+      </div>
+      {auction.lastUnmetAsk !== undefined && (
+        <div className="info-item">
+          <span>Last Check:</span>
+          <strong>Nobody took {auction.lastUnmetAsk}</strong>
+        </div>
+      )}
+    </>
+  );
+};
+
+// Image and metadata of the item on sale, and where it went after settlement
+const NftPreview: React.FC<{ item: ItemRecord }> = ({ item }) => {
+  const [metadata, setMetadata] = useState<NftMetadata>();
+  const contract = useReadOnlyContract();
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      if (!contract) return;
+      const result = await fetchNftMetadata(item.collection, item.tokenId, contract.runner);
+      if (!cancelled) setMetadata(result);
+    };
+    load().catch(e => console.error("Failed to load item metadata:", e));
+    return () => { cancelled = true; };
+  }, [item.collection, item.tokenId, contract]);
+
+  return (
+    <div className="nft-preview">
+      {metadata?.image && <img src={metadata.image} alt={metadata.name ?? `#${item.tokenId}`} />}
+      <div className="nft-details">
+        <strong>{metadata?.name ?? `${metadata?.symbol ?? "NFT"} #${item.tokenId}`}</strong>
+        <small>{metadata?.collectionName ?? shortAddr(item.collection)} · token #{item.tokenId.toString()}</small>
+        {metadata?.description && <span className="auction-description">{metadata.description}</span>}
+        <small>{item.releasedTo ? `Transferred to ${shortAddr(item.releasedTo)}` : "Held in escrow by the auction contract until the winner pays"}</small>
+      </div>
+    </div>
+  );
+};
+
+interface ConfidentialBalancePanelProps {
+  auction: Auction;
+  decryptBalance: () => Promise<ConfidentialBalance | undefined>;
+  approve: (amount: bigint) => Promise<void>;
+}
+
+// Encrypted balance and allowance for bidding in a confidential token. Both
+// stay hidden until the bidder decrypts them; approving replaces the allowance.
+const ConfidentialBalancePanel: React.FC<ConfidentialBalancePanelProps> = ({ auction, decryptBalance, approve }) => {
+  const [balance, setBalance] = useState<ConfidentialBalance>();
+  const [approveAmount, setApproveAmount] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => setBalance(undefined), [auction.id]);
+
+  const decrypt = async () => {
+    setBusy(true);
+    try {
+      setBalance(await decryptBalance());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitApproval = async () => {
+    setBusy(true);
+    try {
+      await approve(ethers.parseUnits(approveAmount.trim(), auction.token.decimals));
+      setApproveAmount("");
+      setBalance(undefined);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="info-item">
+        <span>Your {auction.token.symbol}:</span>
+        <strong>
+          {balance
+            ? `${formatAmount(balance.balance, auction.token)} · ${formatAmount(balance.allowance, auction.token)} approved`
+            : "Encrypted"}
+          <button className="decrypt-btn" onClick={decrypt} disabled={busy}>
+            {balance ? "Refresh" : "Decrypt"}
+          </button>
+        </strong>
+      </div>
+      <div className="bid-form">
+        <input 
+          type="text" 
+          placeholder={`Allowance in ${auction.token.symbol}...`} 
+          value={approveAmount}
+          onChange={(e) => setApproveAmount(e.target.value)}
+        />
+        <button className="bid-btn" onClick={submitApproval} disabled={busy || !isValidAmount(approveAmount, auction.token.decimals)}>
+          Approve Encrypted
+        </button>
+      </div>
+    </>
+  );
+};
+
 export default App;
\ No newline at end of file
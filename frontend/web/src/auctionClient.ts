@@ -0,0 +1,752 @@
+// auctionClient.ts
+import { ethers } from "ethers";
+import type { ContractTransactionResponse, Signer } from "ethers";
+import { AuctionSealFHE, config, getCollectionContract, getTokenContract, retry } from "./contract";
+import { DutchSchedule } from "./dutch";
+import { encryptUint32s } from "./fhe";
+import { MerkleAllowlist, proofFor, verifyMerkleProof } from "./merkle";
+import { resolveUri } from "./nft";
+
+// Mirrors AuctionSealFHE.AuctionType. In a second-price auction the winner pays
+// the larger of the runner-up bid and the reserve instead of their own bid. A
+// uniform-price auction sells several units and every winner pays the lowest
+// accepted unit price. A Dutch auction sells at its falling ask once the highest
+// encrypted limit reaches it; each settlement request checks the current ask.
+export enum AuctionType {
+  FirstPrice = 0,
+  SecondPrice = 1,
+  UniformPrice = 2,
+  Dutch = 3
+}
+
+// Mirrors AuctionSealFHE.TieBreak: which of several equal highest bids wins.
+// Random ranks are drawn on-chain when each bid is placed and stay encrypted;
+// uniform-price auctions only support Latest and Earliest.
+export enum TieBreak {
+  Latest = 0,
+  Earliest = 1,
+  Random = 2
+}
+
+// Mirrors AuctionSealFHE.PaymentTerms. token is the zero address for ETH;
+// priceUnit is the token amount one bid unit stands for, and every bid locks
+// deposit until settlement. With a confidential token there is no deposit:
+// every bid escrows its full encrypted price from the bidder's allowance.
+export interface PaymentTerms {
+  token: string;
+  priceUnit: bigint;
+  deposit: bigint;
+  confidential: boolean;
+}
+
+export const NATIVE_TOKEN = ethers.ZeroAddress;
+
+// Mirrors AuctionSealFHE.PAYMENT_PERIOD
+export const PAYMENT_PERIOD = 7 * 86400;
+
+export interface TokenInfo {
+  symbol: string;
+  decimals: number;
+}
+
+// Where one address stands with the escrow of one auction:
+//   locked       deposits held while the auction is open or awaiting settlement
+//   refundable   lost or reserve not met, deposits can be withdrawn
+//   refunded     lost and already withdrew
+//   payment-due  won and can still pay within PAYMENT_PERIOD
+//   paid         won and paid
+//   expired      won, never paid, and the deposit can now go to the creator
+//   none         never locked anything
+export type EscrowState = "none" | "locked" | "refundable" | "refunded" | "payment-due" | "paid" | "expired";
+
+// encryptedDeposit is the handle of a confidential escrow, the zero hash if
+// there is none.
+export interface EscrowStatus {
+  account: string;
+  deposit: bigint;
+  encryptedDeposit: string;
+  unitsWon: number;
+  paid: boolean;
+  amountDue: bigint;
+}
+
+export const holdsFunds = (escrow: EscrowStatus) =>
+  escrow.deposit > 0n || escrow.encryptedDeposit !== ethers.ZeroHash;
+
+// settledAt is undefined until the auction settles; hasBid tells a refunded
+// bidder apart from an address that never bid, as both hold nothing afterwards.
+export function escrowState(
+  escrow: EscrowStatus,
+  auction: { settledAt?: number; payment: PaymentTerms; hasBid: boolean },
+  now: number
+): EscrowState {
+  if (auction.settledAt === undefined) return holdsFunds(escrow) ? "locked" : "none";
+  if (escrow.unitsWon === 0) {
+    if (holdsFunds(escrow)) return "refundable";
+    return auction.hasBid && (auction.payment.deposit > 0n || auction.payment.confidential) ? "refunded" : "none";
+  }
+  if (escrow.paid) return "paid";
+  return now >= auction.settledAt + PAYMENT_PERIOD ? "expired" : "payment-due";
+}
+
+// What payAndClaim collects on top of the deposit. A confidential escrow
+// already holds the full price, and a paid winner only collects the item.
+export const paymentShortfall = (escrow: EscrowStatus) =>
+  !escrow.paid && escrow.encryptedDeposit === ethers.ZeroHash && escrow.amountDue > escrow.deposit
+    ? escrow.amountDue - escrow.deposit
+    : 0n;
+
+// Mirrors AuctionSealFHE.Item, an ERC-721 the auction sells
+export interface ItemRef {
+  collection: string;
+  tokenId: bigint;
+}
+
+const NO_ITEM: ItemRef = { collection: ethers.ZeroAddress, tokenId: 0n };
+const NO_SCHEDULE: DutchSchedule = { startPrice: 0, floorPrice: 0, priceDrop: 0, tickSeconds: 0 };
+
+// Mirrors AuctionSealFHE.Participation. Providers is the admins' contract-wide
+// registry; Merkle auctions admit listed accounts once they joined with a proof.
+export enum Participation {
+  Providers = 0,
+  Open = 1,
+  Allowlist = 2,
+  Merkle = 3
+}
+
+// Mirrors AuctionSealFHE.ParticipationRule. allowlist only applies to Allowlist
+// auctions, merkleRoot to Merkle ones, whose proofsUri points to the published
+// MerkleAllowlist JSON.
+export interface ParticipationRule {
+  participation: Participation;
+  merkleRoot: string;
+  allowlist: string[];
+  proofsUri: string;
+}
+
+export const PROVIDERS_ONLY: ParticipationRule = {
+  participation: Participation.Providers,
+  merkleRoot: ethers.ZeroHash,
+  allowlist: [],
+  proofsUri: ""
+};
+
+// Whether an account can bid right now, or what it takes to get there. A Merkle
+// auction's proof is looked up in the published tree and only needs sending
+// once, through joinAuction.
+export type Eligibility =
+  | { status: "eligible" }
+  | { status: "can-join"; proof: string[] }
+  | { status: "not-eligible"; reason: string };
+
+// AuctionSealFHE's roles by the name their id hashes. The owner holds every role
+// implicitly and alone grants Admin; admins grant the others and keep the
+// provider registry. Auctioneers manage any auction as its creator would, while
+// settlers may only process bids and request settlement.
+export enum Role {
+  Admin = "ADMIN_ROLE",
+  Auctioneer = "AUCTIONEER_ROLE",
+  Pauser = "PAUSER_ROLE",
+  Settler = "SETTLER_ROLE"
+}
+
+export const ROLES = [Role.Admin, Role.Auctioneer, Role.Pauser, Role.Settler];
+
+export const roleId = (role: Role) => ethers.id(role);
+
+// Who holds which role, replayed from the role and provider events. The owner
+// is not listed under any role it was never granted explicitly.
+export interface AccessRecord {
+  owner: string;
+  pendingOwner?: string;
+  roles: Record<Role, string[]>;
+  providers: string[];
+}
+
+// Contract-wide parameters shown in the admin panel, and the MAX_QUANTITY and
+// MAX_UNIFORM_PRICE_BIDS limits the forms check bids against
+export interface ContractSettings {
+  paused: boolean;
+  cooldownSeconds: number;
+  auctionCount: number;
+  maxQuantity: number;
+  maxUniformPriceBids: number;
+}
+
+export const holdsRole = (access: AccessRecord, account: string, role: Role) =>
+  account.toLowerCase() === access.owner.toLowerCase() ||
+  access.roles[role].some(holder => holder.toLowerCase() === account.toLowerCase());
+
+// releasedTo is the winner once they paid, or the creator when the item came
+// back unsold
+export interface ItemRecord extends ItemRef {
+  releasedTo?: string;
+}
+
+// For uniform-price bids, handle is the unit price and quantityHandle the
+// number of units asked for; single-unit bids have no quantityHandle.
+export interface BidRecord {
+  bidder: string;
+  handle: string;
+  quantityHandle?: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface AllocationRecord {
+  bidIndex: number;
+  bidder: string;
+  quantity: number;
+}
+
+// When the reserve was not met, winner is the zero address and the price 0.
+// Uniform-price auctions also leave winner at zero and list their winners in
+// allocations instead.
+export interface SettlementRecord {
+  requestId: bigint;
+  reserveMet: boolean;
+  winner: string;
+  clearingPrice: bigint;
+  allocations: AllocationRecord[];
+  settledAt: number;
+}
+
+export interface AuctionRecord {
+  auctionId: number;
+  title: string;
+  description: string;
+  creator: string;
+  auctionType: AuctionType;
+  tieBreak: TieBreak;
+  quantity: number;
+  payment: PaymentTerms;
+  item?: ItemRecord;
+  schedule?: DutchSchedule;
+  participation: Omit<ParticipationRule, "allowlist">;
+  // Dutch only: the last ask a settlement request found nobody willing to pay
+  lastUnmetAsk?: number;
+  startTime: number;
+  endTime: number;
+  createdAt: number;
+  closedAt?: number;
+  closed: boolean;
+  bids: BidRecord[];
+  settlement?: SettlementRecord;
+}
+
+// Times are unix seconds compared against block.timestamp; a startTime in the
+// past (or 0) opens the auction as soon as it is mined. The reserve is encrypted
+// before it is sent and only the creator can decrypt it again. quantity is the
+// number of units on offer and must be 1 unless the auction is uniform-price.
+// An item is escrowed by the contract as part of creating the auction.
+export interface NewAuction {
+  title: string;
+  description: string;
+  auctionType: AuctionType;
+  tieBreak: TieBreak;
+  quantity: number;
+  payment: PaymentTerms;
+  item?: ItemRef;
+  // Required for Dutch auctions, ignored otherwise
+  schedule?: DutchSchedule;
+  // Providers only when left out
+  participation?: ParticipationRule;
+  startTime: number;
+  endTime: number;
+  reservePrice: number;
+}
+
+// The events auction records are built from. Escrow events change no field of
+// the record but still count as changing the auction, so views read its escrow again.
+const AUCTION_EVENTS = [
+  "AuctionCreated",
+  "AuctionClosed",
+  "BidSubmitted",
+  "UnitsAllocated",
+  "AuctionSettled",
+  "ItemEscrowed",
+  "ItemReleased",
+  "DutchScheduleSet",
+  "DutchPriceNotReached",
+  "ParticipationSet",
+  "PaymentMade",
+  "RefundWithdrawn",
+  "DepositForfeited",
+  "ConfidentialRefundWithdrawn",
+  "ProceedsWithdrawn"
+] as const;
+
+// Those whose block timestamp goes into the record
+const TIMESTAMPED_EVENTS = new Set<string>(["AuctionCreated", "AuctionClosed", "BidSubmitted", "AuctionSettled"]);
+
+// Wraps AuctionSealFHE for the app. Reads work with a read-only contract, the
+// write methods need the contract to be connected to a signer.
+export class AuctionClient {
+  constructor(private readonly contract: AuctionSealFHE) {}
+
+  private get signer(): Signer {
+    const runner = this.contract.runner;
+    if (!runner || typeof (runner as Signer).getAddress !== "function") {
+      throw new Error("AuctionClient needs a contract connected to a signer");
+    }
+    return runner as Signer;
+  }
+
+  private get provider() {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("Contract has no provider");
+    return provider;
+  }
+
+  private async send(tx: Promise<ContractTransactionResponse>) {
+    const receipt = await (await tx).wait();
+    if (!receipt) throw new Error("Transaction was dropped");
+    return receipt;
+  }
+
+  // Resolves to the id the contract assigned to the new auction
+  async createAuction(auction: NewAuction): Promise<number> {
+    if (auction.item) await this.approveItem(auction.item);
+    const reserve = await this.encrypt(auction.reservePrice);
+    const receipt = await this.send(
+      this.contract.createAuction(
+        auction.title,
+        auction.description,
+        auction.auctionType,
+        auction.tieBreak,
+        auction.quantity,
+        auction.startTime,
+        auction.endTime,
+        auction.payment,
+        auction.item ?? NO_ITEM,
+        auction.schedule ?? NO_SCHEDULE,
+        auction.participation ?? PROVIDERS_ONLY,
+        reserve.handles[0],
+        reserve.inputProof
+      )
+    );
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "AuctionCreated") return Number(parsed.args.auctionId);
+    }
+    throw new Error("AuctionCreated event missing from receipt");
+  }
+
+  // The contract takes the item with transferFrom, so it must be approved for it first
+  private async approveItem(item: ItemRef) {
+    const collection = getCollectionContract(item.collection, this.signer);
+    const spender = await this.contract.getAddress();
+    const [approved, approvedForAll] = await Promise.all([
+      collection.getApproved(item.tokenId),
+      collection.isApprovedForAll(await this.signer.getAddress(), spender)
+    ]);
+    if (approved.toLowerCase() !== spender.toLowerCase() && !approvedForAll) {
+      await this.send(collection.approve(spender, item.tokenId));
+    }
+  }
+
+  // Rebuilds every auction from the contract's event log. Titles and
+  // descriptions are only emitted, never stored, so events are the only source.
+  // Pass toBlock to keep the records current with applyAuctionLogs from there.
+  async listAuctions(toBlock: number | "latest" = "latest"): Promise<AuctionRecord[]> {
+    const logs = await this.provider.getLogs({
+      address: await this.contract.getAddress(),
+      topics: [AUCTION_EVENTS.map(name => this.contract.interface.getEvent(name)!.topicHash)],
+      fromBlock: config.startBlock,
+      toBlock
+    });
+    const auctions = new Map<number, AuctionRecord>();
+    await this.applyAuctionLogs(auctions, logs);
+    return [...auctions.values()].sort((a, b) => b.auctionId - a.auctionId);
+  }
+
+  // Applies the contract's logs in chain order, replacing the records they
+  // change in `auctions`, and returns the ids of those auctions. Logs of
+  // unrelated events are skipped. A settlement emits its UnitsAllocated events before
+  // AuctionSettled, so `logs` must hold whole blocks.
+  async applyAuctionLogs(auctions: Map<number, AuctionRecord>, logs: readonly ethers.Log[]): Promise<Set<number>> {
+    const events = logs
+      .filter(log => !log.removed)
+      .map(log => ({ log, event: this.contract.interface.parseLog(log) }))
+      .filter((entry): entry is { log: ethers.Log; event: ethers.LogDescription } =>
+        !!entry.event && (AUCTION_EVENTS as readonly string[]).includes(entry.event.name))
+      .sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+
+    const provider = this.provider;
+    const timestamps = new Map<number, number>();
+    const blockNumbers = new Set(events.filter(({ event }) => TIMESTAMPED_EVENTS.has(event.name)).map(({ log }) => log.blockNumber));
+    await Promise.all([...blockNumbers].map(async blockNumber => {
+      const block = await retry(() => provider.getBlock(blockNumber));
+      timestamps.set(blockNumber, block ? block.timestamp : 0);
+    }));
+
+    // Records are copied before their first change, so earlier copies handed to
+    // React stay as they were
+    const touched = new Set<number>();
+    const edit = (auctionId: number) => {
+      const auction = auctions.get(auctionId);
+      if (!auction || touched.has(auctionId)) return auction;
+      const copy = { ...auction, bids: [...auction.bids] };
+      auctions.set(auctionId, copy);
+      touched.add(auctionId);
+      return copy;
+    };
+    const allocations = new Map<number, AllocationRecord[]>();
+
+    for (const { log, event } of events) {
+      const { args } = event;
+      const auctionId = Number(args.auctionId);
+      if (event.name === "AuctionCreated") {
+        auctions.set(auctionId, {
+          auctionId,
+          title: args.title,
+          description: args.description,
+          creator: args.creator,
+          auctionType: Number(args.auctionType) as AuctionType,
+          tieBreak: Number(args.tieBreak) as TieBreak,
+          quantity: Number(args.quantity),
+          payment: {
+            token: args.payment.token,
+            priceUnit: args.payment.priceUnit,
+            deposit: args.payment.deposit,
+            confidential: args.payment.confidential
+          },
+          participation: { participation: Participation.Providers, merkleRoot: ethers.ZeroHash, proofsUri: "" },
+          startTime: Number(args.startTime),
+          endTime: Number(args.endTime),
+          createdAt: timestamps.get(log.blockNumber) ?? 0,
+          closed: false,
+          bids: []
+        });
+        touched.add(auctionId);
+        continue;
+      }
+      if (event.name === "UnitsAllocated") {
+        allocations.set(auctionId, [
+          ...(allocations.get(auctionId) ?? []),
+          { bidIndex: Number(args.bidIndex), bidder: args.bidder, quantity: Number(args.quantity) }
+        ]);
+        continue;
+      }
+
+      const auction = edit(auctionId);
+      if (!auction) continue;
+      switch (event.name) {
+        case "DutchScheduleSet": {
+          const { startPrice, floorPrice, priceDrop, tickSeconds } = args.schedule;
+          auction.schedule = {
+            startPrice: Number(startPrice),
+            floorPrice: Number(floorPrice),
+            priceDrop: Number(priceDrop),
+            tickSeconds: Number(tickSeconds)
+          };
+          break;
+        }
+        case "ParticipationSet":
+          auction.participation = {
+            participation: Number(args.participation) as Participation,
+            merkleRoot: args.merkleRoot,
+            proofsUri: args.proofsUri
+          };
+          break;
+        case "DutchPriceNotReached":
+          auction.lastUnmetAsk = Number(args.price);
+          break;
+        case "ItemEscrowed":
+          auction.item = { collection: args.collection, tokenId: args.tokenId };
+          break;
+        case "ItemReleased":
+          if (!auction.item) break;
+          auction.item = { ...auction.item, releasedTo: args.to };
+          break;
+        case "AuctionClosed":
+          auction.closed = true;
+          auction.closedAt = timestamps.get(log.blockNumber);
+          break;
+        case "BidSubmitted": {
+          const quantityHandle = args.encryptedQuantity;
+          auction.bids.push({
+            bidder: args.bidder,
+            handle: args.encryptedBidAmount,
+            quantityHandle: BigInt(quantityHandle) === 0n ? undefined : quantityHandle,
+            blockNumber: log.blockNumber,
+            timestamp: timestamps.get(log.blockNumber) ?? 0
+          });
+          break;
+        }
+        case "AuctionSettled":
+          // Settlement closes the auction on-chain without an AuctionClosed event
+          auction.closed = true;
+          auction.settlement = {
+            requestId: args.requestId,
+            reserveMet: args.reserveMet,
+            winner: args.winner,
+            clearingPrice: args.clearingPrice,
+            allocations: allocations.get(auctionId) ?? [],
+            settledAt: timestamps.get(log.blockNumber) ?? 0
+          };
+          break;
+      }
+    }
+    return touched;
+  }
+
+  async accessControl(): Promise<AccessRecord> {
+    const contract = this.contract;
+    const fromBlock = config.startBlock;
+    const [owner, pendingOwner, granted, revoked, added, removed] = await Promise.all([
+      retry(() => contract.owner()),
+      retry(() => contract.pendingOwner()),
+      contract.queryFilter(contract.filters.RoleGranted(), fromBlock),
+      contract.queryFilter(contract.filters.RoleRevoked(), fromBlock),
+      contract.queryFilter(contract.filters.ProviderAdded(), fromBlock),
+      contract.queryFilter(contract.filters.ProviderRemoved(), fromBlock)
+    ]);
+
+    // Grants and revocations only make sense in the order they happened
+    const inOrder = <T extends { blockNumber: number; index: number }>(logs: T[]) =>
+      logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const byId = new Map(ROLES.map(role => [roleId(role), role]));
+    const holders = new Map(ROLES.map(role => [role, new Set<string>()]));
+    for (const log of inOrder([...granted, ...revoked])) {
+      const role = byId.get(log.args.role);
+      if (!role) continue;
+      if (log.eventName === "RoleGranted") holders.get(role)!.add(log.args.account);
+      else holders.get(role)!.delete(log.args.account);
+    }
+    const providers = new Set<string>();
+    for (const log of inOrder([...added, ...removed])) {
+      if (log.eventName === "ProviderAdded") providers.add(log.args.provider);
+      else providers.delete(log.args.provider);
+    }
+
+    return {
+      owner,
+      pendingOwner: pendingOwner === ethers.ZeroAddress ? undefined : pendingOwner,
+      roles: Object.fromEntries(ROLES.map(role => [role, [...holders.get(role)!]])) as Record<Role, string[]>,
+      providers: [...providers]
+    };
+  }
+
+  async settings(): Promise<ContractSettings> {
+    const [paused, cooldownSeconds, auctionCount, maxQuantity, maxUniformPriceBids] = await Promise.all([
+      retry(() => this.contract.paused()),
+      retry(() => this.contract.cooldownSeconds()),
+      retry(() => this.contract.auctionCount()),
+      retry(() => this.contract.MAX_QUANTITY()),
+      retry(() => this.contract.MAX_UNIFORM_PRICE_BIDS())
+    ]);
+    return {
+      paused,
+      cooldownSeconds: Number(cooldownSeconds),
+      auctionCount: Number(auctionCount),
+      maxQuantity: Number(maxQuantity),
+      maxUniformPriceBids: Number(maxUniformPriceBids)
+    };
+  }
+
+  // Pausers only. Escrow withdrawals stay available while paused.
+  async setPaused(paused: boolean) {
+    return this.send(paused ? this.contract.pause() : this.contract.unpause());
+  }
+
+  // Admins only; applies to both bid submissions and settlement requests, per account
+  async setCooldownSeconds(seconds: number) {
+    return this.send(this.contract.setCooldownSeconds(seconds));
+  }
+
+  async grantRole(role: Role, account: string) {
+    return this.send(this.contract.grantRole(roleId(role), account));
+  }
+
+  async revokeRole(role: Role, account: string) {
+    return this.send(this.contract.revokeRole(roleId(role), account));
+  }
+
+  async renounceRole(role: Role) {
+    return this.send(this.contract.renounceRole(roleId(role)));
+  }
+
+  async setProvider(account: string, provider: boolean) {
+    return this.send(provider ? this.contract.addProvider(account) : this.contract.removeProvider(account));
+  }
+
+  // Takes effect once the new owner calls acceptOwnership
+  async transferOwnership(newOwner: string) {
+    return this.send(this.contract.transferOwnership(newOwner));
+  }
+
+  async acceptOwnership() {
+    return this.send(this.contract.acceptOwnership());
+  }
+
+  async blockNumber(): Promise<number> {
+    return retry(() => this.provider.getBlockNumber());
+  }
+
+  // The contract judges deadlines by block.timestamp, which can drift from the
+  // browser clock, so the app schedules and displays against this value.
+  async chainTime(): Promise<number> {
+    const block = await retry(() => this.provider.getBlock("latest"));
+    if (!block) throw new Error("Latest block unavailable");
+    return block.timestamp;
+  }
+
+  // Encrypts for this contract with the connected account as the only party allowed to submit it.
+  // All values share one input proof.
+  private async encrypt(...values: (number | bigint)[]) {
+    const user = await this.signer.getAddress();
+    const { chainId } = await this.provider.getNetwork();
+    return encryptUint32s(Number(chainId), await this.contract.getAddress(), user, values);
+  }
+
+  async bid(auctionId: number, amount: number | bigint) {
+    const encrypted = await this.encrypt(amount);
+    const overrides = await this.prepareDeposit(auctionId);
+    return this.send(this.contract.submitBid(auctionId, encrypted.handles[0], encrypted.inputProof, overrides));
+  }
+
+  // Uniform-price auctions only
+  async bidMultiUnit(auctionId: number, unitPrice: number | bigint, quantity: number | bigint) {
+    const { handles, inputProof } = await this.encrypt(unitPrice, quantity);
+    const overrides = await this.prepareDeposit(auctionId);
+    return this.send(this.contract.submitMultiUnitBid(auctionId, handles[0], handles[1], inputProof, overrides));
+  }
+
+  async paymentTerms(auctionId: number): Promise<PaymentTerms> {
+    const { payment } = await retry(() => this.contract.auctions(auctionId));
+    return { token: payment.token, priceUnit: payment.priceUnit, deposit: payment.deposit, confidential: payment.confidential };
+  }
+
+  async tokenInfo(token: string): Promise<TokenInfo> {
+    if (token === NATIVE_TOKEN) return { symbol: "ETH", decimals: 18 };
+    const erc20 = getTokenContract(token, this.contract.runner);
+    const [symbol, decimals] = await Promise.all([retry(() => erc20.symbol()), retry(() => erc20.decimals())]);
+    return { symbol, decimals: Number(decimals) };
+  }
+
+  // ETH is sent along with the call; tokens are pulled by the contract, so the
+  // allowance is topped up first when it would not cover `amount`
+  private async fund(token: string, amount: bigint) {
+    if (token === NATIVE_TOKEN) return { value: amount };
+    if (amount > 0n) {
+      const erc20 = getTokenContract(token, this.signer);
+      const spender = await this.contract.getAddress();
+      const allowance = await erc20.allowance(await this.signer.getAddress(), spender);
+      if (allowance < amount) await this.send(erc20.approve(spender, amount));
+    }
+    return { value: 0n };
+  }
+
+  private async prepareDeposit(auctionId: number) {
+    const { token, deposit } = await this.paymentTerms(auctionId);
+    return this.fund(token, deposit);
+  }
+
+  async escrowOf(auctionId: number, account: string): Promise<EscrowStatus> {
+    const [escrow, amountDue] = await Promise.all([
+      retry(() => this.contract.escrows(auctionId, account)),
+      retry(() => this.contract.amountDue(auctionId, account))
+    ]);
+    return {
+      account,
+      deposit: escrow.deposit,
+      encryptedDeposit: escrow.encryptedDeposit,
+      unitsWon: Number(escrow.unitsWon),
+      paid: escrow.paid,
+      amountDue
+    };
+  }
+
+  // Winners only; sends the shortfall over the deposit or gets the excess back,
+  // and collects the item, if any, with the payment
+  async payAndClaim(auctionId: number) {
+    const [{ token }, escrow] = await Promise.all([
+      this.paymentTerms(auctionId),
+      this.escrowOf(auctionId, await this.signer.getAddress())
+    ]);
+    const overrides = await this.fund(token, paymentShortfall(escrow));
+    return this.send(this.contract.payAndClaim(auctionId, overrides));
+  }
+
+  async withdrawRefund(auctionId: number) {
+    return this.send(this.contract.withdrawRefund(auctionId));
+  }
+
+  async withdrawProceeds(auctionId: number) {
+    return this.send(this.contract.withdrawProceeds(auctionId));
+  }
+
+  async proceeds(auctionId: number): Promise<bigint> {
+    return retry(() => this.contract.proceeds(auctionId));
+  }
+
+  async forfeitDeposit(auctionId: number, bidder: string) {
+    return this.send(this.contract.forfeitDeposit(auctionId, bidder));
+  }
+
+  async canBid(auctionId: number, account: string): Promise<boolean> {
+    return retry(() => this.contract.canBid(auctionId, account));
+  }
+
+  // Checks the chain first; for a Merkle auction the account has not joined yet,
+  // fetches the published tree and looks for a proof that matches the root.
+  async eligibility(auction: Pick<AuctionRecord, "auctionId" | "participation">, account: string): Promise<Eligibility> {
+    if (await this.canBid(auction.auctionId, account)) return { status: "eligible" };
+    const { participation, merkleRoot, proofsUri } = auction.participation;
+    if (participation === Participation.Providers) {
+      return { status: "not-eligible", reason: "Only providers registered by the contract's admins can bid" };
+    }
+    if (participation === Participation.Allowlist) {
+      return { status: "not-eligible", reason: "Your address is not on this auction's allowlist" };
+    }
+    if (!proofsUri) return { status: "not-eligible", reason: "The creator has not published the allowlist's proofs" };
+
+    const response = await fetch(resolveUri(proofsUri));
+    if (!response.ok) throw new Error(`Allowlist request failed with status ${response.status}`);
+    const allowlist = (await response.json()) as MerkleAllowlist;
+    const proof = proofFor(allowlist, account);
+    if (!proof) return { status: "not-eligible", reason: "Your address is not on this auction's allowlist" };
+    if (!verifyMerkleProof(merkleRoot, account, proof)) {
+      return { status: "not-eligible", reason: "The published allowlist does not match the auction's Merkle root" };
+    }
+    return { status: "can-join", proof };
+  }
+
+  async joinAuction(auctionId: number, proof: string[]) {
+    return this.send(this.contract.joinAuction(auctionId, proof));
+  }
+
+  // Allowlist auctions only
+  async setAllowlist(auctionId: number, accounts: string[], allowed: boolean) {
+    return this.send(this.contract.setAllowlist(auctionId, accounts, allowed));
+  }
+
+  // Creator only, for items an auction could not sell: nobody bid, the reserve
+  // was not met, or a winner paying in the clear let the payment period pass
+  async reclaimItem(auctionId: number) {
+    return this.send(this.contract.reclaimItem(auctionId));
+  }
+
+  async close(auctionId: number) {
+    return this.send(this.contract.closeAuction(auctionId));
+  }
+
+  // Only requests decryption; AuctionSettled follows once the oracle calls back.
+  // A Dutch auction nobody takes at the current ask answers with
+  // DutchPriceNotReached instead and stays open. More bids than the request can
+  // fold in are first processed in chunks, one transaction each.
+  async settle(auctionId: number) {
+    const auction = await retry(() => this.contract.auctions(auctionId));
+    if (Number(auction.auctionType) !== AuctionType.UniformPrice) {
+      const chunk = await retry(() => this.contract.MAX_BIDS_PER_CHUNK());
+      const total = await retry(() => this.contract.bidCount(auctionId));
+      let { processed } = await retry(() => this.contract.reductions(auctionId));
+      while (total - processed > chunk) {
+        await this.send(this.contract.processBids(auctionId, chunk));
+        ({ processed } = await retry(() => this.contract.reductions(auctionId)));
+      }
+    }
+    return this.send(this.contract.findHighestBidder(auctionId));
+  }
+}
@@ -0,0 +1,75 @@
+// confidentialToken.ts
+import { ethers } from "ethers";
+import type { ContractTransactionResponse, Signer } from "ethers";
+import { ConfidentialToken, getConfidentialTokenContract, retry } from "./contract";
+import { UserDecryptRequest, encryptUint64, userDecrypt } from "./fhe";
+
+// Decrypted view of one account's position in a confidential token. Handles are
+// the zero hash until the account is first credited or gives an allowance, and
+// then decrypt to 0 as well.
+export interface ConfidentialBalance {
+  balance: bigint;
+  allowance: bigint;
+}
+
+// Wraps ConfidentialToken for the app. Amounts only ever leave the browser
+// encrypted; reading them back needs a user-decrypt request signed for the
+// token address.
+export class ConfidentialTokenClient {
+  private readonly token: ConfidentialToken;
+
+  constructor(readonly address: string, runner: ethers.ContractRunner | null) {
+    this.token = getConfidentialTokenContract(address, runner);
+  }
+
+  private get signer(): Signer {
+    const runner = this.token.runner;
+    if (!runner || typeof (runner as Signer).getAddress !== "function") {
+      throw new Error("ConfidentialTokenClient needs a contract connected to a signer");
+    }
+    return runner as Signer;
+  }
+
+  private async send(tx: Promise<ContractTransactionResponse>) {
+    const receipt = await (await tx).wait();
+    if (!receipt) throw new Error("Transaction was dropped");
+    return receipt;
+  }
+
+  private async encrypt(amount: bigint) {
+    const user = await this.signer.getAddress();
+    const { chainId } = await this.signer.provider!.getNetwork();
+    return encryptUint64(Number(chainId), this.address, user, amount);
+  }
+
+  async balanceHandle(account: string): Promise<string> {
+    return retry(() => this.token.balanceOf(account));
+  }
+
+  async allowanceHandle(account: string, spender: string): Promise<string> {
+    return retry(() => this.token.allowance(account, spender));
+  }
+
+  // Balance of request.userAddress and what `spender` may still pull from it
+  async decrypt(chainId: number, spender: string, request: UserDecryptRequest): Promise<ConfidentialBalance> {
+    const [balance, allowance] = await Promise.all([
+      this.balanceHandle(request.userAddress),
+      this.allowanceHandle(request.userAddress, spender)
+    ]);
+    const handles = [balance, allowance].filter(handle => handle !== ethers.ZeroHash);
+    const values = await userDecrypt(chainId, handles.map(handle => ({ handle, contractAddress: this.address })), request);
+    const valueOf = (handle: string) => values[handle.toLowerCase()] ?? 0n;
+    return { balance: valueOf(balance), allowance: valueOf(allowance) };
+  }
+
+  // Replaces the allowance; an auction pulls each bid's full price from it
+  async approve(spender: string, amount: bigint) {
+    const encrypted = await this.encrypt(amount);
+    return this.send(this.token.approve(spender, encrypted.handle, encrypted.inputProof));
+  }
+
+  async transfer(to: string, amount: bigint) {
+    const encrypted = await this.encrypt(amount);
+    return this.send(this.token.transfer(to, encrypted.handle, encrypted.inputProof));
+  }
+}
@@ -1,12 +1,25 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
+import {
+  AuctionSealFHE,
+  AuctionSealFHE__factory,
+  ConfidentialToken,
+  ConfidentialToken__factory,
+  IERC20Metadata,
+  IERC20Metadata__factory,
+  IERC721Metadata,
+  IERC721Metadata__factory
+} from "../../../types";
 import configJson from "./config.json";
+import { ACTIVE_NETWORK } from "./networks";
+import { RpcPool } from "./rpcPool";
 
-export const ABI = (abiJson as any).abi || abiJson;
+export type { AuctionSealFHE, ConfidentialToken, IERC20Metadata, IERC721Metadata };
+
+export const ABI = AuctionSealFHE__factory.abi;
 export const config = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+export const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
   } catch (e) {
@@ -18,41 +31,19 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
+// One pool for the whole session, so endpoint health carries over between calls
+const rpcPool = new RpcPool(ACTIVE_NETWORK.rpcUrls, ACTIVE_NETWORK.chainId);
+
+// Pass a quorum for reads that should not rest on a single endpoint's word, such
+// as settlement results; it is capped at the number of configured endpoints.
+export const getReadProvider = (quorum = 1) => rpcPool.quorumProvider(quorum);
 
-export async function getContractReadOnly() {
+// Components take their contracts from contractContext.tsx, which calls these
+// once per session, account and chain rather than once per call
+export async function getContractReadOnly(quorum = 1): Promise<AuctionSealFHE | null> {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = getReadProvider(quorum);
+    const contract = AuctionSealFHE__factory.connect(config.contractAddress, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
@@ -66,14 +57,18 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractWithSigner(): Promise<AuctionSealFHE> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const { chainId } = await provider.getNetwork();
+    if (Number(chainId) !== ACTIVE_NETWORK.chainId) {
+      throw new Error(`Switch your wallet to ${ACTIVE_NETWORK.name} (chain ${ACTIVE_NETWORK.chainId})`);
+    }
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = AuctionSealFHE__factory.connect(config.contractAddress, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -81,6 +76,21 @@ export async function getContractWithSigner() {
   }
 }
 
+// ERC-20 an auction is paid in, connected to the same runner as the auction contract
+export function getTokenContract(address: string, runner: ethers.ContractRunner | null): IERC20Metadata {
+  return IERC20Metadata__factory.connect(address, runner);
+}
+
+// Token with encrypted balances, for auctions with confidential payment terms
+export function getConfidentialTokenContract(address: string, runner: ethers.ContractRunner | null): ConfidentialToken {
+  return ConfidentialToken__factory.connect(address, runner);
+}
+
+// ERC-721 collection an auctioned item belongs to
+export function getCollectionContract(address: string, runner: ethers.ContractRunner | null): IERC721Metadata {
+  return IERC721Metadata__factory.connect(address, runner);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,90 @@
+// contractContext.tsx
+// The app's connections to AuctionSealFHE, made once and shared: the read-only
+// contract over the RPC pool, checked for code when the app starts, and the
+// contract bound to the wallet's signer, built on first use and again only after
+// the wallet reports another account or chain.
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { AuctionSealFHE, getContractReadOnly, getContractWithSigner, getReadProvider } from "./contract";
+
+export interface AuctionContracts {
+  // Null until the code check is done, and after it when nothing is deployed
+  contract: AuctionSealFHE | null;
+  ready: boolean;
+  // The wallet's first account and chain, as it last reported them
+  account?: string;
+  chainId?: number;
+  // Rejects when there is no wallet or it is on another chain; the next call retries
+  withSigner: () => Promise<AuctionSealFHE>;
+}
+
+const AuctionContractContext = createContext<AuctionContracts | null>(null);
+
+export const AuctionContractProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [contract, setContract] = useState<AuctionSealFHE | null>(null);
+  const [ready, setReady] = useState(false);
+  const [wallet, setWallet] = useState<{ account?: string; chainId?: number }>({});
+  const signer = useRef<Promise<AuctionSealFHE> | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    getContractReadOnly().then(result => {
+      if (cancelled) return;
+      setContract(result);
+      setReady(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    const ethereum = window.ethereum;
+    if (!ethereum) return;
+    const onAccountsChanged = (accounts: string[]) => {
+      signer.current = undefined;
+      setWallet(prev => ({ ...prev, account: accounts[0] }));
+    };
+    const onChainChanged = (chainIdHex: string) => {
+      signer.current = undefined;
+      setWallet(prev => ({ ...prev, chainId: parseInt(chainIdHex, 16) }));
+    };
+    ethereum.request({ method: "eth_accounts" }).then(onAccountsChanged).catch(() => {});
+    ethereum.request({ method: "eth_chainId" }).then(onChainChanged).catch(() => {});
+    ethereum.on("accountsChanged", onAccountsChanged);
+    ethereum.on("chainChanged", onChainChanged);
+    return () => {
+      ethereum.removeListener("accountsChanged", onAccountsChanged);
+      ethereum.removeListener("chainChanged", onChainChanged);
+    };
+  }, []);
+
+  const withSigner = useCallback(() => {
+    if (!signer.current) {
+      const connecting = getContractWithSigner();
+      signer.current = connecting;
+      connecting.catch(() => {
+        if (signer.current === connecting) signer.current = undefined;
+      });
+    }
+    return signer.current;
+  }, []);
+
+  const value = useMemo(
+    () => ({ contract, ready, ...wallet, withSigner }),
+    [contract, ready, wallet, withSigner]
+  );
+  return <AuctionContractContext.Provider value={value}>{children}</AuctionContractContext.Provider>;
+};
+
+export function useAuctionContract(): AuctionContracts {
+  const contracts = useContext(AuctionContractContext);
+  if (!contracts) throw new Error("useAuctionContract must be used inside an AuctionContractProvider");
+  return contracts;
+}
+
+// The read-only contract, over a provider that needs `quorum` endpoints to agree
+export function useReadOnlyContract(quorum = 1): AuctionSealFHE | null {
+  const { contract } = useAuctionContract();
+  return useMemo(
+    () => (contract && quorum > 1 ? contract.connect(getReadProvider(quorum)) : contract),
+    [contract, quorum]
+  );
+}
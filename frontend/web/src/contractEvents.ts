@@ -0,0 +1,130 @@
+// contractEvents.ts
+// Follows a contract's logs as blocks are mined. When the network has a
+// WebSocket endpoint, the node pushes each new log of the contract and the app
+// reads the blocks up to it right away; without one, or while a dropped socket
+// reconnects, it polls over the read provider, which works on plain HTTP RPCs and across the
+// endpoints of the RPC pool. Either way logs are read back per block range, so
+// every batch holds whole blocks, in order, and none is delivered twice.
+import { ethers } from "ethers";
+
+export interface LogWatchOptions {
+  // Subscribes here when set; polling stays the fallback
+  wsUrl?: string;
+  pollIntervalMs?: number;
+  // Largest range one eth_getLogs asks for; public RPCs cap it
+  maxBlockRange?: number;
+  // Wait before reconnecting a dropped socket; doubles with each failed attempt
+  reconnectMs?: number;
+  maxReconnectMs?: number;
+}
+
+export interface LogWatcher {
+  // Reads whatever was mined since the last batch; never rejects
+  sync: () => Promise<void>;
+  stop: () => void;
+}
+
+// Hands every log of `address` after `fromBlock` to onLogs, along with the last
+// block the batch covers. A batch whose onLogs throws is read again next time.
+export function watchContractLogs(
+  provider: ethers.Provider,
+  address: string,
+  fromBlock: number,
+  onLogs: (logs: ethers.Log[], toBlock: number) => void | Promise<void>,
+  options: LogWatchOptions = {}
+): LogWatcher {
+  const { wsUrl, pollIntervalMs = 4000, maxBlockRange = 2000, reconnectMs = 1000, maxReconnectMs = 60000 } = options;
+  let synced = fromBlock;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let reconnectDelay = reconnectMs;
+  let connection: ethers.WebSocketProvider | undefined;
+  // Set while the socket is open; reads then go to the node that pushed the log
+  let socket: ethers.WebSocketProvider | undefined;
+  let queue = Promise.resolve();
+
+  const catchUp = async (head?: number) => {
+    const source = socket ?? provider;
+    const latest = head ?? (await source.getBlockNumber());
+    while (!stopped && synced < latest) {
+      const toBlock = Math.min(latest, synced + maxBlockRange);
+      const logs = await source.getLogs({ address, fromBlock: synced + 1, toBlock });
+      if (stopped) return;
+      await onLogs(logs, toBlock);
+      synced = toBlock;
+    }
+  };
+
+  const poll = () => {
+    clearTimeout(timer);
+    if (!stopped) timer = setTimeout(() => sync(), pollIntervalMs);
+  };
+
+  // Catch-ups run one after another. The next poll is scheduled after each one,
+  // unless the socket is open and the last catch-up went through.
+  const sync = (head?: number) => {
+    queue = queue
+      .then(() => catchUp(head))
+      .then(
+        () => { if (!socket) poll(); },
+        e => {
+          console.error("Failed to read contract events:", e);
+          poll();
+        }
+      );
+    return queue;
+  };
+
+  const subscribe = async (url: string) => {
+    const network = await provider.getNetwork();
+    if (stopped) return;
+    const ws = new WebSocket(url);
+    const subscribed = new ethers.WebSocketProvider(ws, network, { staticNetwork: true });
+    connection = subscribed;
+    ws.addEventListener("open", () => {
+      socket = subscribed;
+      reconnectDelay = reconnectMs;
+      clearTimeout(timer);
+      subscribed.on({ address }, (log: ethers.Log) => sync(log.blockNumber));
+      sync();
+    });
+    ws.addEventListener("close", () => {
+      if (socket === subscribed) socket = undefined;
+      if (connection === subscribed) connection = undefined;
+      subscribed.destroy();
+      if (stopped) return;
+      sync();
+      reconnect(url);
+    });
+  };
+
+  // Polling covers the gap until the socket is back
+  const reconnect = (url: string) => {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = setTimeout(() => connect(url), reconnectDelay);
+    reconnectDelay = Math.min(maxReconnectMs, reconnectDelay * 2);
+  };
+
+  const connect = (url: string) => {
+    if (stopped) return;
+    subscribe(url).catch(e => {
+      console.error("Failed to subscribe to contract events:", e);
+      if (!stopped) reconnect(url);
+    });
+  };
+
+  sync();
+  if (wsUrl) connect(wsUrl);
+
+  return {
+    sync: () => sync(),
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+      clearTimeout(reconnectTimer);
+      socket = undefined;
+      connection?.destroy();
+    }
+  };
+}
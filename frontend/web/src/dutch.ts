@@ -0,0 +1,63 @@
+// dutch.ts
+// Price schedule of a Dutch auction, computed exactly like
+// AuctionSealFHE.dutchPriceAt. Prices are whole bid units and times unix seconds.
+
+// Mirrors AuctionSealFHE.DutchSchedule
+export interface DutchSchedule {
+  startPrice: number;
+  floorPrice: number;
+  priceDrop: number;
+  tickSeconds: number;
+}
+
+export interface PricePoint {
+  time: number;
+  price: number;
+}
+
+// Same checks createAuction makes before accepting a schedule
+export function isValidDutchSchedule(schedule: DutchSchedule): boolean {
+  const isUint32 = (value: number) => Number.isInteger(value) && value >= 0 && value <= 0xffffffff;
+  return (
+    [schedule.startPrice, schedule.floorPrice, schedule.priceDrop, schedule.tickSeconds].every(isUint32) &&
+    schedule.priceDrop > 0 &&
+    schedule.tickSeconds > 0 &&
+    schedule.floorPrice <= schedule.startPrice
+  );
+}
+
+// The ask at `timestamp`: startPrice until startTime, then one priceDrop per
+// completed tick, never below floorPrice. Integer arithmetic throughout, as on-chain.
+export function dutchPriceAt(schedule: DutchSchedule, startTime: number, timestamp: number): number {
+  if (timestamp <= startTime) return schedule.startPrice;
+  const ticks = Math.floor((timestamp - startTime) / schedule.tickSeconds);
+  const drop = BigInt(schedule.priceDrop) * BigInt(ticks);
+  if (drop >= BigInt(schedule.startPrice - schedule.floorPrice)) return schedule.floorPrice;
+  return schedule.startPrice - Number(drop);
+}
+
+// When the ask next drops after `timestamp`, or undefined once it sits at the floor
+export function nextPriceDrop(schedule: DutchSchedule, startTime: number, timestamp: number): number | undefined {
+  if (dutchPriceAt(schedule, startTime, timestamp) === schedule.floorPrice) return undefined;
+  if (timestamp < startTime) return startTime + schedule.tickSeconds;
+  const ticks = Math.floor((timestamp - startTime) / schedule.tickSeconds);
+  return startTime + (ticks + 1) * schedule.tickSeconds;
+}
+
+// Every step of the curve between startTime and endTime, starting with the
+// opening ask. The curve is a staircase, so these points describe it fully;
+// a schedule with more than maxPoints steps is cut off after that many.
+export function dutchPriceCurve(
+  schedule: DutchSchedule,
+  startTime: number,
+  endTime: number,
+  maxPoints = 1000
+): PricePoint[] {
+  const points: PricePoint[] = [{ time: startTime, price: schedule.startPrice }];
+  let time = nextPriceDrop(schedule, startTime, startTime);
+  while (time !== undefined && time < endTime && points.length < maxPoints) {
+    points.push({ time, price: dutchPriceAt(schedule, startTime, time) });
+    time = nextPriceDrop(schedule, startTime, time);
+  }
+  return points;
+}
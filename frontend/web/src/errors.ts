@@ -0,0 +1,174 @@
+// errors.ts
+// Whatever a call to AuctionSealFHE throws, be it one of its custom errors, a
+// require message, a wallet refusal or an RPC failure, decoded into one error
+// type with text fit to show users. The app's handlers and the hardhat tasks
+// both report failures through decodeContractError.
+import { ethers } from "ethers";
+import { AuctionSealFHE__factory } from "../../../types";
+
+// contract: a custom error of AuctionSealFHE; revert: a require message, panic or
+// revert without data; rejected: the user declined in their wallet; wallet and
+// rpc: the wallet or node refused the request; network: the node was unreachable.
+export type ContractErrorKind = "contract" | "revert" | "rejected" | "wallet" | "rpc" | "network" | "unknown";
+
+export type AuctionSealErrorName = Extract<(typeof AuctionSealFHE__factory.abi)[number], { type: "error" }>["name"];
+
+export class ContractCallError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ContractErrorKind,
+    // The custom error's name, or the wallet, RPC or ethers error code
+    readonly code?: string | number,
+    readonly args: readonly unknown[] = [],
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "ContractCallError";
+  }
+}
+
+const auctionSeal = new ethers.Interface(AuctionSealFHE__factory.abi);
+
+// Role ids are the hashes of the contract's *_ROLE constants
+const ROLE_NAMES = new Map(
+  auctionSeal.fragments
+    .filter((fragment): fragment is ethers.FunctionFragment => fragment.type === "function")
+    .filter(fragment => fragment.name.endsWith("_ROLE"))
+    .map(fragment => [ethers.id(fragment.name), fragment.name.replace(/_ROLE$/, "").toLowerCase()])
+);
+
+// Keyed by every custom error in the ABI, so a new error fails the type check
+// until it has a message here
+const CONTRACT_ERROR_MESSAGES: Record<AuctionSealErrorName, string | ((args: ethers.Result) => string)> = {
+  NotOwner: "Only the contract owner can do this",
+  NotPendingOwner: "Only the pending owner can accept ownership",
+  MissingRole: args => `This needs the ${ROLE_NAMES.get(args[0]) ?? "missing"} role`,
+  InvalidRole: "The contract has no such role",
+  NotProvider: "Only registered providers can bid in this auction",
+  NotEligible: "Your account cannot bid in this auction",
+  NotCreator: "Only the auction's creator can do this",
+  PausedError: "The contract is paused",
+  CooldownActive: "You acted too recently; wait for the cooldown to pass and try again",
+  AuctionNotFound: "There is no such auction",
+  AuctionNotStarted: "The auction has not started yet",
+  AuctionNotOpen: "The auction is not open for bids",
+  AuctionStillOpen: "The auction is still open; close it or wait until it ends",
+  InvalidSchedule: "The auction's start, duration or price schedule is invalid",
+  InvalidQuantity: "The quantity is out of range",
+  WrongAuctionType: "This does not apply to this type of auction",
+  TooManyBids: "The auction has taken all the bids it can",
+  InvalidPaymentTerms: "The payment token, price unit or deposit is invalid",
+  InvalidItem: "The item cannot be escrowed with this auction",
+  InvalidTieBreak: "This tie-break rule is not available for this type of auction",
+  InvalidParticipation: "The participation rule is invalid",
+  InvalidMerkleProof: "Your address is not in the auction's Merkle allowlist",
+  IncorrectPayment: "The amount sent does not match what is due",
+  NothingToClaim: "There is nothing to claim",
+  PaymentPeriodOver: "The payment period is over",
+  PaymentPeriodActive: "The winner can still pay; try again once the payment period is over",
+  TransferFailed: "The transfer failed",
+  SafeERC20FailedOperation: "The token transfer failed; check your balance and allowance",
+  AuctionAlreadySettled: "The auction is already settled",
+  NoBids: "The auction has no bids",
+  BidsNotProcessed: "Process the auction's bids in chunks before settling it",
+  ReplayAttempt: "This settlement was already handled",
+  InvalidProof: "The decryption proof did not verify",
+  BidSubmissionFailed: "The bid could not be submitted",
+  DecryptionFailed: "The decryption result is malformed",
+  HandlesAlreadySavedForRequestID: "This decryption request was already made",
+  NoHandleFoundForRequestID: "There is no such decryption request",
+  InvalidKMSSignatures: "The decryption signatures did not verify"
+};
+
+// EIP-1193 provider codes and the JSON-RPC codes wallets and nodes answer with
+const RPC_ERROR_MESSAGES: Record<number, [ContractErrorKind, string]> = {
+  4001: ["rejected", "Transaction rejected by user"],
+  4100: ["wallet", "The wallet has not authorized this account"],
+  4200: ["wallet", "The wallet does not support this request"],
+  4900: ["network", "The wallet is disconnected"],
+  4901: ["network", "The wallet is not connected to this chain"],
+  4902: ["wallet", "The wallet does not know this chain"],
+  [-32002]: ["wallet", "The wallet already has a request pending; check it"],
+  [-32003]: ["rpc", "The node rejected the transaction"],
+  [-32005]: ["rpc", "The node is rate limiting requests; try again shortly"],
+  [-32601]: ["rpc", "The node does not support this request"],
+  [-32602]: ["rpc", "The node rejected the request's parameters"],
+  [-32603]: ["rpc", "The node failed to process the request"]
+};
+
+// ethers' own error codes, for failures that carry no revert data
+const ETHERS_ERROR_MESSAGES: Partial<Record<ethers.ErrorCode, [ContractErrorKind, string]>> = {
+  ACTION_REJECTED: ["rejected", "Transaction rejected by user"],
+  INSUFFICIENT_FUNDS: ["wallet", "Your account cannot pay for this transaction and its gas"],
+  NONCE_EXPIRED: ["wallet", "The transaction's nonce was already used; reset your wallet's activity"],
+  REPLACEMENT_UNDERPRICED: ["wallet", "A pending transaction needs a higher fee to be replaced"],
+  TRANSACTION_REPLACED: ["wallet", "The transaction was replaced by another one"],
+  NETWORK_ERROR: ["network", "The network is unreachable"],
+  TIMEOUT: ["network", "The request timed out"],
+  SERVER_ERROR: ["rpc", "The node returned an error"]
+};
+
+// Revert data may sit on the error itself or on whatever the wallet or node
+// wrapped inside it, depending on who reported the failure
+function findRevertData(error: any, depth = 0): string | undefined {
+  if (!error || typeof error !== "object" || depth > 4) return undefined;
+  if (typeof error.data === "string" && ethers.isHexString(error.data) && error.data.length >= 10) return error.data;
+  for (const inner of [error.data, error.error, error.info?.error, error.cause]) {
+    const data = findRevertData(inner, depth + 1);
+    if (data) return data;
+  }
+  return undefined;
+}
+
+function findRpcCode(error: any, depth = 0): number | undefined {
+  if (!error || typeof error !== "object" || depth > 4) return undefined;
+  if (typeof error.code === "number") return error.code;
+  for (const inner of [error.error, error.info?.error, error.cause]) {
+    const code = findRpcCode(inner, depth + 1);
+    if (code !== undefined) return code;
+  }
+  return undefined;
+}
+
+export function decodeContractError(error: unknown): ContractCallError {
+  if (error instanceof ContractCallError) return error;
+  const e = error as any;
+
+  const data = findRevertData(e);
+  if (data) {
+    let decoded: ethers.ErrorDescription | null = null;
+    try {
+      decoded = auctionSeal.parseError(data);
+    } catch {
+      // Not an error of this contract; fall through to the codes below
+    }
+    if (decoded && decoded.name in CONTRACT_ERROR_MESSAGES) {
+      const message = CONTRACT_ERROR_MESSAGES[decoded.name as AuctionSealErrorName];
+      return new ContractCallError(
+        typeof message === "function" ? message(decoded.args) : message,
+        "contract",
+        decoded.name,
+        [...decoded.args],
+        error
+      );
+    }
+    if (decoded?.name === "Error") return new ContractCallError(decoded.args[0], "revert", "Error", [...decoded.args], error);
+    if (decoded?.name === "Panic") {
+      return new ContractCallError(`The contract failed (panic ${decoded.args[0]})`, "revert", "Panic", [...decoded.args], error);
+    }
+  }
+
+  if (e?.code && e.code in ETHERS_ERROR_MESSAGES) {
+    const [kind, message] = ETHERS_ERROR_MESSAGES[e.code as ethers.ErrorCode]!;
+    return new ContractCallError(message, kind, e.code, [], error);
+  }
+  const rpcCode = findRpcCode(e);
+  if (rpcCode !== undefined && RPC_ERROR_MESSAGES[rpcCode]) {
+    const [kind, message] = RPC_ERROR_MESSAGES[rpcCode];
+    return new ContractCallError(message, kind, rpcCode, [], error);
+  }
+  if (e?.code === "CALL_EXCEPTION") {
+    return new ContractCallError(e.reason ?? "The transaction reverted", "revert", e.code, [], error);
+  }
+  return new ContractCallError(e?.shortMessage ?? e?.message ?? String(error), "unknown", e?.code, [], error);
+}
@@ -0,0 +1,207 @@
+// fhe.ts
+import { ethers } from "ethers";
+import type { EIP712, FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { getNetwork } from "./networks";
+import type { RelayerConfig } from "./networks";
+
+// The subset of the relayer SDK instance the app relies on. Both the real
+// relayer instance and the hardhat mock instance satisfy it.
+export type FheInstance = Pick<FhevmInstance, "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt">;
+
+export type FheBackend = (chainId: number) => Promise<FheInstance>;
+
+export interface EncryptedValue {
+  handle: string;
+  inputProof: string;
+}
+
+export interface UserDecryptRequest {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddresses: string[];
+  userAddress: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export type TypedDataSigner = (typedData: EIP712) => Promise<string>;
+
+// Signed user-decrypt requests of this page load. They carry the private key
+// of the decryption keypair, so they are never written to browser storage.
+const sessions = new Map<string, UserDecryptRequest>();
+
+// A Zama relayer, reached through the injected wallet
+const relayerBackend = (relayer: RelayerConfig = {}): FheBackend => async (chainId) => {
+  const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/web");
+  await initSDK();
+  return createInstance({ ...SepoliaConfig, ...relayer, chainId, network: (window as any).ethereum });
+};
+
+// Local hardhat node started with @fhevm/hardhat-plugin, which answers the relayer calls itself
+const mockBackend: FheBackend = async (chainId) => {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const network = getNetwork(chainId);
+  if (!network) throw new Error(`Chain ${chainId} is not in the network registry`);
+  const provider = new ethers.JsonRpcProvider(network.rpcUrls[0]);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+    verifyingContractAddressInputVerification: "0x812b06e1CDCE800494b79fFE4f925A504a9A9810"
+  });
+};
+
+// Backends registered for a chain take precedence over its network's fhe config
+const backends = new Map<number, FheBackend>();
+const instances = new Map<number, Promise<FheInstance>>();
+
+export function registerFheBackend(chainId: number, backend: FheBackend) {
+  backends.set(chainId, backend);
+  instances.delete(chainId);
+}
+
+const networkBackend = (chainId: number): FheBackend | undefined => {
+  const fhe = getNetwork(chainId)?.fhe;
+  if (fhe?.backend === "relayer") return relayerBackend(fhe.relayer);
+  if (fhe?.backend === "mock") return mockBackend;
+};
+
+export function getFheInstance(chainId: number): Promise<FheInstance> {
+  let instance = instances.get(chainId);
+  if (!instance) {
+    const backend = backends.get(chainId) ?? networkBackend(chainId);
+    if (!backend) return Promise.reject(new Error(`No FHE backend for chain ${chainId}; set fhe in its network config`));
+    instance = backend(chainId);
+    // Drop failed initialisations so the next call retries
+    instance.catch(() => instances.delete(chainId));
+    instances.set(chainId, instance);
+  }
+  return instance;
+}
+
+export async function encryptUint32(
+  chainId: number,
+  contractAddress: string,
+  userAddress: string,
+  value: number | bigint
+): Promise<EncryptedValue> {
+  const { handles, inputProof } = await encryptUint32s(chainId, contractAddress, userAddress, [value]);
+  return { handle: handles[0], inputProof };
+}
+
+// Encrypts several values into one input, so a single proof covers all handles
+export async function encryptUint32s(
+  chainId: number,
+  contractAddress: string,
+  userAddress: string,
+  values: (number | bigint)[]
+): Promise<{ handles: string[]; inputProof: string }> {
+  const instance = await getFheInstance(chainId);
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const value of values) input.add32(value);
+  const { handles, inputProof } = await input.encrypt();
+  return { handles: handles.map(handle => ethers.hexlify(handle)), inputProof: ethers.hexlify(inputProof) };
+}
+
+// Confidential token amounts are euint64
+export async function encryptUint64(
+  chainId: number,
+  contractAddress: string,
+  userAddress: string,
+  value: number | bigint
+): Promise<EncryptedValue> {
+  const instance = await getFheInstance(chainId);
+  const { handles, inputProof } = await instance.createEncryptedInput(contractAddress, userAddress).add64(value).encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+export async function generateKeypair(chainId: number) {
+  const instance = await getFheInstance(chainId);
+  return instance.generateKeypair();
+}
+
+export async function createUserDecryptTypedData(
+  chainId: number,
+  publicKey: string,
+  contractAddresses: string[],
+  startTimestamp: number,
+  durationDays: number
+) {
+  const instance = await getFheInstance(chainId);
+  return instance.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+}
+
+// Decrypts handles the user has ACL access to. The request must carry an EIP-712
+// signature over createUserDecryptTypedData for the same key and validity window.
+// Results are keyed by lowercase handle.
+export async function userDecrypt(
+  chainId: number,
+  handles: { handle: string; contractAddress: string }[],
+  request: UserDecryptRequest
+): Promise<Record<string, bigint>> {
+  if (handles.length === 0) return {};
+  const instance = await getFheInstance(chainId);
+  const results = await instance.userDecrypt(
+    handles,
+    request.privateKey,
+    request.publicKey,
+    request.signature,
+    request.contractAddresses,
+    request.userAddress,
+    request.startTimestamp,
+    request.durationDays
+  );
+  const values: Record<string, bigint> = {};
+  for (const [handle, value] of Object.entries(results)) {
+    values[handle.toLowerCase()] = BigInt(value);
+  }
+  return values;
+}
+
+const sessionKey = (chainId: number, userAddress: string, contractAddresses: string[]) =>
+  [chainId, userAddress.toLowerCase(), ...contractAddresses.map(a => a.toLowerCase()).sort()].join(":");
+
+const isSessionValid = (request: UserDecryptRequest) => {
+  const expiresAt = request.startTimestamp + request.durationDays * 86400;
+  return Math.floor(Date.now() / 1000) < expiresAt;
+};
+
+// Returns a signed user-decrypt request for the given contracts, reusing the
+// keypair and signature of an earlier call until they expire so the wallet is
+// only prompted once per validity window, or once per page load.
+export async function loadOrSignUserDecrypt(
+  chainId: number,
+  userAddress: string,
+  contractAddresses: string[],
+  sign: TypedDataSigner,
+  startTimestamp: number,
+  durationDays: number
+): Promise<UserDecryptRequest> {
+  const key = sessionKey(chainId, userAddress, contractAddresses);
+  const stored = sessions.get(key);
+  if (stored && isSessionValid(stored)) return stored;
+  sessions.delete(key);
+
+  const keypair = await generateKeypair(chainId);
+  const typedData = await createUserDecryptTypedData(chainId, keypair.publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await sign(typedData);
+  const request: UserDecryptRequest = {
+    ...keypair,
+    signature,
+    contractAddresses,
+    userAddress,
+    startTimestamp,
+    durationDays
+  };
+  sessions.set(key, request);
+  return request;
+}
+
+export function clearUserDecryptSession(chainId: number, userAddress: string, contractAddresses: string[]) {
+  sessions.delete(sessionKey(chainId, userAddress, contractAddresses));
+}
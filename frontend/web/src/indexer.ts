@@ -0,0 +1,51 @@
+// indexer.ts
+// Reads the auction records from the event indexer in /indexer, when
+// VITE_INDEXER_URL points at one, instead of scanning the contract's logs from
+// its deployment. The indexer answers with the block its records are current
+// as of, so live updates pick up from there.
+import { ethers } from "ethers";
+import type { AuctionsResponse, IndexedAuction } from "../../../indexer/src/records";
+import { AuctionRecord } from "./auctionClient";
+
+export const INDEXER_URL: string | undefined = import.meta.env.VITE_INDEXER_URL || undefined;
+
+export interface IndexedSnapshot {
+  blockNumber: number;
+  auctions: AuctionRecord[];
+}
+
+// Resolves to undefined without an indexer, and rejects when it cannot be read
+// or has not indexed a block yet, so the caller falls back to the chain
+export async function fetchIndexedAuctions(url = INDEXER_URL): Promise<IndexedSnapshot | undefined> {
+  if (!url) return undefined;
+  const response = await fetch(`${url.replace(/\/$/, "")}/auctions`);
+  if (!response.ok) throw new Error(`The indexer answered ${response.status}`);
+  const body = (await response.json()) as AuctionsResponse;
+  if (body.blockNumber === null) throw new Error("The indexer has not indexed any block yet");
+  return { blockNumber: body.blockNumber, auctions: body.auctions.map(toRecord) };
+}
+
+function toRecord(auction: IndexedAuction): AuctionRecord {
+  const { payment, item, settlement } = auction;
+  return {
+    ...auction,
+    payment: { ...payment, priceUnit: BigInt(payment.priceUnit), deposit: BigInt(payment.deposit) },
+    item: item && { ...item, tokenId: BigInt(item.tokenId) },
+    // The indexer keys bidders in lower case
+    bids: auction.bids.map(({ bidder, handle, quantityHandle, blockNumber, timestamp }) => ({
+      bidder: ethers.getAddress(bidder),
+      handle,
+      quantityHandle,
+      blockNumber,
+      timestamp
+    })),
+    settlement: settlement && {
+      requestId: BigInt(settlement.requestId),
+      reserveMet: settlement.reserveMet,
+      winner: settlement.winner,
+      clearingPrice: BigInt(settlement.clearingPrice),
+      allocations: settlement.allocations,
+      settledAt: settlement.settledAt
+    }
+  };
+}
@@ -5,15 +5,16 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
 import { BrowserRouter } from 'react-router-dom';
+import { ACTIVE_NETWORK, toViemChain } from './networks';
+import { AuctionContractProvider } from './contractContext';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: [toViemChain(ACTIVE_NETWORK)],
 });
 
 const queryClient = new QueryClient();
@@ -122,7 +123,9 @@ createRoot(document.getElementById('root')!).render(
       <WagmiConfig config={config}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
-            <App />
+            <AuctionContractProvider>
+              <App />
+            </AuctionContractProvider>
           </AdaptiveThemeProvider>
         </BrowserRouter>
       </WagmiConfig>
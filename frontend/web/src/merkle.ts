@@ -0,0 +1,79 @@
+// merkle.ts
+// Merkle allowlists for AuctionSealFHE.joinAuction. Leaves are hashed twice and
+// pairs sorted before hashing, as OpenZeppelin's MerkleProof expects, so the
+// contract verifies proofs from this tree unchanged.
+import { ethers } from "ethers";
+
+// What a creator publishes for bidders to take their proof from. proofs is keyed
+// by lowercase address.
+export interface MerkleAllowlist {
+  root: string;
+  proofs: Record<string, string[]>;
+}
+
+export function merkleLeaf(account: string): string {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [account]);
+  return ethers.keccak256(ethers.keccak256(encoded));
+}
+
+function hashPair(a: string, b: string): string {
+  return ethers.keccak256(ethers.concat(a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a]));
+}
+
+// Addresses from the first column of a CSV, one per line. Blank lines, a header
+// and duplicates are skipped; anything else that is not an address is an error.
+export function parseAddressCsv(csv: string): string[] {
+  const addresses = new Map<string, string>();
+  csv.split(/\r?\n/).forEach((line, index) => {
+    const value = line.split(",")[0].trim().replace(/^"|"$/g, "");
+    if (!value) return;
+    if (!ethers.isAddress(value)) {
+      if (index === 0) return;
+      throw new Error(`Line ${index + 1} is not an address: ${value}`);
+    }
+    addresses.set(value.toLowerCase(), ethers.getAddress(value));
+  });
+  return [...addresses.values()];
+}
+
+// Leaves are sorted so that the root depends only on the set of addresses. A
+// level with an odd number of nodes carries its last node up unpaired.
+export function buildMerkleAllowlist(addresses: string[]): MerkleAllowlist {
+  if (addresses.length === 0) throw new Error("An allowlist needs at least one address");
+  const leaves = [...new Set(addresses.map(address => ethers.getAddress(address)))]
+    .map(account => ({ account, leaf: merkleLeaf(account) }))
+    .sort((a, b) => (a.leaf < b.leaf ? -1 : a.leaf > b.leaf ? 1 : 0));
+
+  const levels: string[][] = [leaves.map(entry => entry.leaf)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+
+  const proofs: Record<string, string[]> = {};
+  leaves.forEach(({ account }, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (const level of levels.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < level.length) proof.push(level[sibling]);
+      index = Math.floor(index / 2);
+    }
+    proofs[account.toLowerCase()] = proof;
+  });
+  return { root: levels[levels.length - 1][0], proofs };
+}
+
+export function proofFor(allowlist: MerkleAllowlist, account: string): string[] | undefined {
+  return allowlist.proofs[account.toLowerCase()];
+}
+
+// Same check as MerkleProof.verify, so the app can tell a stale tree from a
+// valid one before sending joinAuction
+export function verifyMerkleProof(root: string, account: string, proof: string[]): boolean {
+  return proof.reduce(hashPair, merkleLeaf(account)).toLowerCase() === root.toLowerCase();
+}
@@ -0,0 +1,143 @@
+// networks.ts
+// The chains the app knows: the local hardhat node, Sepolia, and whatever
+// config.json adds. The read provider, wagmi and the wallet's chain switch all
+// take the active chain from here, so pointing the app at another chain only
+// takes config: VITE_CHAIN_ID or config.json's chainId picks it, VITE_RPC_URLS
+// adds endpoints (keyed ones belong there rather than in the source) and
+// VITE_WS_URLS WebSocket endpoints for live updates.
+import { defineChain } from "viem";
+import type { Chain, EIP1193Provider } from "viem";
+import type { FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/web";
+import configJson from "./config.json";
+
+// The relayer SDK settings a chain's relayer needs; fields left out take the
+// SDK's SepoliaConfig values
+export type RelayerConfig = Partial<Pick<FhevmInstanceConfig,
+  | "relayerUrl"
+  | "gatewayChainId"
+  | "aclContractAddress"
+  | "kmsContractAddress"
+  | "inputVerifierContractAddress"
+  | "verifyingContractAddressDecryption"
+  | "verifyingContractAddressInputVerification">>;
+
+// How the app encrypts bids and decrypts results on a chain: through a Zama
+// relayer, or against a hardhat node running @fhevm/hardhat-plugin, which
+// answers the relayer calls itself
+export type FheConfig =
+  | { backend: "relayer"; relayer?: RelayerConfig }
+  | { backend: "mock" };
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  // Tried in order; wallets that do not know the chain are offered them too
+  rpcUrls: string[];
+  // Live updates subscribe to the first; without one they poll the RPCs
+  wsUrls?: string[];
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  blockExplorerUrl?: string;
+  testnet?: boolean;
+  // Without one the app cannot encrypt bids or decrypt results on the chain
+  fhe?: FheConfig;
+}
+
+// What the deploy script writes, plus optional custom chains. Keyed RPC URLs
+// never go here: the file is committed and bundled into the app.
+interface NetworkFileConfig {
+  chainId?: number;
+  networks?: NetworkConfig[];
+}
+
+const ETHER = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+const BUILTIN_NETWORKS: NetworkConfig[] = [
+  {
+    chainId: 31337,
+    name: "Hardhat",
+    rpcUrls: ["http://127.0.0.1:8545"],
+    wsUrls: ["ws://127.0.0.1:8545"],
+    nativeCurrency: ETHER,
+    testnet: true,
+    fhe: { backend: "mock" }
+  },
+  {
+    chainId: 11155111,
+    name: "Sepolia",
+    rpcUrls: ["https://rpc.sepolia.org", "https://rpc2.sepolia.org", "https://eth-sepolia.public.blastapi.io"],
+    nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
+    blockExplorerUrl: "https://sepolia.etherscan.io",
+    testnet: true,
+    fhe: { backend: "relayer" }
+  }
+];
+
+// Where the contract lived before its chain became configurable
+const DEFAULT_CHAIN_ID = 11155111;
+
+const fileConfig = configJson as NetworkFileConfig;
+
+// config.json entries replace the built-in chain with the same id or add a new one
+export const NETWORKS: NetworkConfig[] = [
+  ...BUILTIN_NETWORKS.filter(network => !fileConfig.networks?.some(custom => custom.chainId === network.chainId)),
+  ...(fileConfig.networks ?? [])
+];
+
+export const getNetwork = (chainId: number) => NETWORKS.find(network => network.chainId === chainId);
+
+const activeChainId = Number(import.meta.env.VITE_CHAIN_ID || fileConfig.chainId || DEFAULT_CHAIN_ID);
+
+// The chain the contract in config.json is deployed on. Endpoints from the
+// environment, keyed ones among them, come before the registry's public ones.
+export const ACTIVE_NETWORK: NetworkConfig = (() => {
+  const network = getNetwork(activeChainId);
+  if (!network) throw new Error(`Chain ${activeChainId} is not in the network registry; add it to config.json's networks`);
+  const configured = String(import.meta.env.VITE_RPC_URLS ?? "").split(",").map(url => url.trim()).filter(Boolean);
+  const sockets = String(import.meta.env.VITE_WS_URLS ?? "").split(",").map(url => url.trim()).filter(Boolean);
+  return {
+    ...network,
+    rpcUrls: [...new Set([...configured, ...network.rpcUrls])],
+    wsUrls: [...new Set([...sockets, ...(network.wsUrls ?? [])])]
+  };
+})();
+
+export const toHexChainId = (chainId: number) => "0x" + chainId.toString(16);
+
+export function toViemChain(network: NetworkConfig): Chain {
+  return defineChain({
+    id: network.chainId,
+    name: network.name,
+    nativeCurrency: network.nativeCurrency,
+    rpcUrls: { default: { http: network.rpcUrls } },
+    blockExplorers: network.blockExplorerUrl
+      ? { default: { name: network.name, url: network.blockExplorerUrl } }
+      : undefined,
+    testnet: network.testnet
+  });
+}
+
+const UNRECOGNIZED_CHAIN = 4902;
+
+const hasErrorCode = (error: unknown, code: number) =>
+  typeof error === "object" && error !== null && "code" in error && error.code === code;
+
+// Switches an EIP-1193 wallet to `network`, adding the chain first when the
+// wallet does not know it (error 4902)
+export async function switchWalletNetwork(provider: EIP1193Provider, network: NetworkConfig = ACTIVE_NETWORK) {
+  const chainId = toHexChainId(network.chainId);
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (switchError) {
+    if (!hasErrorCode(switchError, UNRECOGNIZED_CHAIN)) throw switchError;
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: network.rpcUrls,
+        blockExplorerUrls: network.blockExplorerUrl ? [network.blockExplorerUrl] : undefined
+      }]
+    });
+  }
+}
@@ -0,0 +1,49 @@
+// nft.ts
+import type { ContractRunner } from "ethers";
+import { getCollectionContract, retry } from "./contract";
+
+const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+
+// What the app shows for an auctioned ERC-721. The metadata fields come from
+// the token's JSON and are missing when tokenURI is empty or unreachable.
+export interface NftMetadata {
+  collectionName: string;
+  symbol: string;
+  name?: string;
+  description?: string;
+  image?: string;
+}
+
+// ipfs:// and ar:// links go through public gateways so the browser can load them
+export function resolveUri(uri: string): string {
+  if (uri.startsWith("ipfs://")) return IPFS_GATEWAY + uri.slice("ipfs://".length).replace(/^ipfs\//, "");
+  if (uri.startsWith("ar://")) return "https://arweave.net/" + uri.slice("ar://".length);
+  return uri;
+}
+
+async function fetchJson(uri: string): Promise<any> {
+  const response = await fetch(resolveUri(uri));
+  if (!response.ok) throw new Error(`Metadata request failed with status ${response.status}`);
+  return response.json();
+}
+
+// The collection's name and symbol are required; tokenURI is optional in
+// ERC-721, so a collection without it still yields a result.
+export async function fetchNftMetadata(collection: string, tokenId: bigint, runner: ContractRunner | null): Promise<NftMetadata> {
+  const contract = getCollectionContract(collection, runner);
+  const [collectionName, symbol] = await Promise.all([retry(() => contract.name()), retry(() => contract.symbol())]);
+  const metadata: NftMetadata = { collectionName, symbol };
+
+  try {
+    const uri = await contract.tokenURI(tokenId);
+    if (!uri) return metadata;
+    const json = await fetchJson(uri);
+    metadata.name = typeof json.name === "string" ? json.name : undefined;
+    metadata.description = typeof json.description === "string" ? json.description : undefined;
+    const image = json.image ?? json.image_url;
+    metadata.image = typeof image === "string" ? resolveUri(image) : undefined;
+  } catch (e) {
+    console.warn(`No metadata for ${collection} #${tokenId}:`, e);
+  }
+  return metadata;
+}
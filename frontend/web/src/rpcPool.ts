@@ -0,0 +1,226 @@
+// rpcPool.ts
+// A long-lived pool of JSON-RPC endpoints for one chain. Every request goes to the
+// healthiest endpoint, judged by moving averages of its latency and error rate, and
+// falls over to the next one when the transport fails, so an endpoint going down
+// mid-session costs one slow request rather than the session. Critical reads can
+// ask several endpoints for the same block and only accept an answer enough of
+// them agree on.
+import { ethers } from "ethers";
+import type { JsonRpcError, JsonRpcPayload, JsonRpcResult } from "ethers";
+
+export interface RpcPoolOptions {
+  // Per request, after which the endpoint counts as failed
+  timeoutMs?: number;
+  // Weight of the newest sample in the latency and error rate averages
+  smoothing?: number;
+  // How long an endpoint is skipped after failing; doubles with each failure in a row
+  cooldownMs?: number;
+  maxCooldownMs?: number;
+}
+
+export interface EndpointHealth {
+  url: string;
+  // Moving averages; latency is 0 until the endpoint answered once
+  latencyMs: number;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  // Epoch ms; the endpoint is only tried before this when all others are down too
+  downUntil: number;
+  lastError?: string;
+}
+
+type RpcResponse = JsonRpcResult | JsonRpcError;
+
+// JSON-RPC errors that say more about the endpoint than about the request: rate
+// limits. Everything else, reverts included, is a valid answer.
+const TRANSIENT_RPC_CODES = new Set([-32005]);
+
+// The reads a quorum provider asks several endpoints for. Anything else, the block
+// number included, moves with the head, so endpoints would rarely agree on it.
+const QUORUM_METHODS = new Set(["eth_call", "eth_getLogs"]);
+const MOVING_TAGS = new Set([undefined, "latest", "pending"]);
+
+export class RpcPool {
+  readonly endpoints: EndpointHealth[];
+  readonly provider: ethers.JsonRpcApiProvider;
+  private readonly options: Required<RpcPoolOptions>;
+  private readonly quorumProviders = new Map<number, ethers.JsonRpcApiProvider>();
+
+  constructor(urls: string[], readonly chainId: number, options: RpcPoolOptions = {}) {
+    if (urls.length === 0) throw new Error("An RPC pool needs at least one endpoint");
+    this.options = { timeoutMs: 10000, smoothing: 0.3, cooldownMs: 5000, maxCooldownMs: 120000, ...options };
+    this.endpoints = [...new Set(urls)].map(url => ({
+      url,
+      latencyMs: 0,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      downUntil: 0
+    }));
+    this.provider = new PoolProvider(this, 1);
+  }
+
+  // A provider whose calls and log queries need `quorum` endpoints to agree on
+  // them at one block. Capped at the number of endpoints, so a single-endpoint
+  // pool still answers.
+  quorumProvider(quorum: number): ethers.JsonRpcApiProvider {
+    const size = Math.max(1, Math.min(quorum, this.endpoints.length));
+    let provider = this.quorumProviders.get(size);
+    if (!provider) {
+      provider = size === 1 ? this.provider : new PoolProvider(this, size);
+      this.quorumProviders.set(size, provider);
+    }
+    return provider;
+  }
+
+  // Lower is better. Errors cost as much as a timeout, so a fast endpoint that
+  // keeps failing ranks below a slow one that answers.
+  score(endpoint: EndpointHealth): number {
+    return endpoint.latencyMs + endpoint.errorRate * this.options.timeoutMs;
+  }
+
+  // Endpoints that are up, healthiest first, then those cooling down, soonest back first
+  ranked(now = Date.now()): EndpointHealth[] {
+    const up = this.endpoints.filter(endpoint => endpoint.downUntil <= now);
+    const down = this.endpoints.filter(endpoint => endpoint.downUntil > now);
+    return [
+      ...up.sort((a, b) => this.score(a) - this.score(b)),
+      ...down.sort((a, b) => a.downUntil - b.downUntil)
+    ];
+  }
+
+  async send(payload: JsonRpcPayload): Promise<RpcResponse> {
+    const failures: string[] = [];
+    for (const endpoint of this.ranked()) {
+      try {
+        return await this.request(endpoint, payload);
+      } catch (e: any) {
+        failures.push(`${endpoint.url}: ${e.message}`);
+      }
+    }
+    throw new Error(`All RPC endpoints failed for ${payload.method}: ${failures.join("; ")}`);
+  }
+
+  // Asks the healthiest endpoints in waves until `quorum` identical answers came
+  // back. An error response is an answer too, so a revert all agree on is returned.
+  async sendQuorum(payload: JsonRpcPayload, quorum: number): Promise<RpcResponse> {
+    const ranked = this.ranked();
+    const tallies = new Map<string, { count: number; response: RpcResponse }>();
+    let next = 0;
+    for (;;) {
+      const best = Math.max(0, ...[...tallies.values()].map(tally => tally.count));
+      const needed = quorum - best;
+      if (needed <= 0) return [...tallies.values()].find(tally => tally.count === best)!.response;
+      if (ranked.length - next < needed) {
+        throw new Error(`No ${quorum} RPC endpoints agreed on ${payload.method}`);
+      }
+
+      const wave = ranked.slice(next, next + needed);
+      next += needed;
+      const answers = await Promise.allSettled(wave.map(endpoint => this.request(endpoint, payload)));
+      for (const answer of answers) {
+        if (answer.status === "rejected") continue;
+        const key = JSON.stringify("error" in answer.value ? { error: answer.value.error } : { result: answer.value.result });
+        const tally = tallies.get(key) ?? { count: 0, response: answer.value };
+        tally.count++;
+        tallies.set(key, tally);
+      }
+    }
+  }
+
+  // Resolves with the endpoint's response, JSON-RPC errors included; throws when
+  // the endpoint itself failed, which counts against its health
+  private async request(endpoint: EndpointHealth, payload: JsonRpcPayload): Promise<RpcResponse> {
+    const started = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    endpoint.requests++;
+    try {
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(payload),
+        signal: controller.signal
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const body = (await response.json()) as RpcResponse;
+      if ("error" in body && TRANSIENT_RPC_CODES.has(body.error.code)) {
+        throw new Error(`RPC error ${body.error.code}: ${body.error.message}`);
+      }
+      this.recordSuccess(endpoint, Date.now() - started);
+      return { ...body, id: payload.id };
+    } catch (e: any) {
+      const error = controller.signal.aborted ? new Error(`Timed out after ${this.options.timeoutMs}ms`) : e;
+      this.recordFailure(endpoint, error.message);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordSuccess(endpoint: EndpointHealth, latencyMs: number) {
+    const { smoothing } = this.options;
+    endpoint.latencyMs = endpoint.latencyMs === 0 ? latencyMs : endpoint.latencyMs + smoothing * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - smoothing;
+    endpoint.consecutiveFailures = 0;
+    endpoint.downUntil = 0;
+  }
+
+  private recordFailure(endpoint: EndpointHealth, message: string) {
+    const { smoothing, cooldownMs, maxCooldownMs } = this.options;
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.errorRate += smoothing * (1 - endpoint.errorRate);
+    endpoint.downUntil = Date.now() + Math.min(maxCooldownMs, cooldownMs * 2 ** (endpoint.consecutiveFailures - 1));
+    endpoint.lastError = message;
+  }
+}
+
+// An ethers provider that hands its requests to the pool. Requests are not
+// batched, so that each one can be routed and retried on its own.
+class PoolProvider extends ethers.JsonRpcApiProvider {
+  constructor(private readonly pool: RpcPool, private readonly quorum: number) {
+    super(pool.chainId, { staticNetwork: true, batchMaxCount: 1 });
+  }
+
+  async send(method: string, params: Array<any> | Record<string, any>): Promise<any> {
+    this._start();
+    return super.send(method, params);
+  }
+
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<RpcResponse>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    return Promise.all(payloads.map(async single =>
+      this.quorum > 1 && QUORUM_METHODS.has(single.method)
+        ? this.pool.sendQuorum(await this.pinned(single), this.quorum)
+        : this.pool.send(single)
+    ));
+  }
+
+  // The same request with a block number in place of "latest", read once from the
+  // healthiest endpoint, so that every endpoint asked answers for the same block
+  private async pinned(payload: JsonRpcPayload): Promise<JsonRpcPayload> {
+    const params = [...(payload.params as Array<any>)];
+    if (payload.method === "eth_call") {
+      if (MOVING_TAGS.has(params[1])) params[1] = await this.latestBlock(payload.id);
+    } else if (!params[0]?.blockHash) {
+      const filter = { ...params[0] };
+      const moving = ["fromBlock", "toBlock"].filter(key => MOVING_TAGS.has(filter[key]));
+      if (moving.length > 0) {
+        const block = await this.latestBlock(payload.id);
+        for (const key of moving) filter[key] = block;
+      }
+      params[0] = filter;
+    }
+    return { ...payload, params };
+  }
+
+  private async latestBlock(id: number): Promise<string> {
+    const response = await this.pool.send({ jsonrpc: "2.0", id, method: "eth_blockNumber", params: [] });
+    if ("error" in response) throw new Error(`eth_blockNumber failed: ${response.error.message}`);
+    return response.result;
+  }
+}
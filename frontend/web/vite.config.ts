@@ -3,6 +3,15 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // typechain bindings live in ../../types and must share the app's ethers copy
+    dedupe: ['ethers']
+  },
+  server: {
+    fs: {
+      allow: ['../..']
+    }
+  },
   define: {
     'process.env': process.env
   },
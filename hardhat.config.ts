@@ -2,6 +2,8 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "./tasks/allowlist";
+import "./tasks/settle";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
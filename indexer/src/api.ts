@@ -0,0 +1,57 @@
+// api.ts
+// Read-only HTTP/JSON API over an IndexStore:
+//   GET /status                   last indexed block
+//   GET /auctions                 every auction with its bids and settlement, and
+//                                 the block they are current as of
+//   GET /auctions/:id             one auction
+//   GET /auctions/:id/bids        its bids in the order the contract stored them
+//   GET /settlements              every settlement, newest first
+//   GET /bidders/:address/bids    a bidder's bids across auctions and how they ended
+// Responses allow any origin, so the app can read them from another host.
+import http from "http";
+import { IndexStore } from "./store";
+
+type Route = [RegExp, (store: IndexStore, params: string[]) => unknown];
+
+class NotFoundError extends Error {}
+
+const ROUTES: Route[] = [
+  [/^\/status$/, store => ({ blockNumber: store.syncedBlock() ?? null })],
+  [/^\/auctions$/, store => ({ blockNumber: store.syncedBlock() ?? null, auctions: store.auctions() })],
+  [/^\/auctions\/(\d+)$/, (store, [id]) => {
+    const auction = store.auction(Number(id));
+    if (!auction) throw new NotFoundError(`There is no auction ${id}`);
+    return auction;
+  }],
+  [/^\/auctions\/(\d+)\/bids$/, (store, [id]) => {
+    if (!store.auction(Number(id))) throw new NotFoundError(`There is no auction ${id}`);
+    return store.bids(Number(id));
+  }],
+  [/^\/settlements$/, store => store.settlements()],
+  [/^\/bidders\/(0x[0-9a-fA-F]{40})\/bids$/, (store, [bidder]) => store.bidderHistory(bidder)]
+];
+
+export function createApiServer(store: IndexStore): http.Server {
+  return http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res
+        .writeHead(status, { "content-type": "application/json", "access-control-allow-origin": "*" })
+        .end(JSON.stringify(body));
+    };
+    if (req.method !== "GET") return send(405, { error: "Only GET is supported" });
+
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    for (const [pattern, handle] of ROUTES) {
+      const match = pattern.exec(pathname);
+      if (!match) continue;
+      try {
+        return send(200, handle(store, match.slice(1)));
+      } catch (e: any) {
+        if (e instanceof NotFoundError) return send(404, { error: e.message });
+        console.error(`Failed to serve ${pathname}:`, e);
+        return send(500, { error: "Internal error" });
+      }
+    }
+    send(404, { error: `No route for ${pathname}` });
+  });
+}
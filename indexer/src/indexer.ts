@@ -0,0 +1,148 @@
+// indexer.ts
+// Follows AuctionSealFHE's auction events from a start block into an
+// IndexStore. Before each round it checks that the chain still has the last
+// block it indexed; when a reorg replaced that block, it walks back to the
+// newest block both agree on and rolls the store back to it.
+import { ethers } from "ethers";
+import { AuctionSealFHE__factory } from "../../types";
+import { BlockRef, INDEXED_EVENTS, IndexStore, IndexedEvent, IndexedEventName } from "./store";
+
+export interface IndexerOptions {
+  address: string;
+  // Block of the contract's deployment, or any earlier one
+  startBlock: number;
+  // Blocks left unindexed behind the head, for chains where reorgs are common
+  confirmations?: number;
+  // Largest range one eth_getLogs asks for; public RPCs cap it
+  maxBlockRange?: number;
+  pollIntervalMs?: number;
+}
+
+// A reorg while a round reads its ranges sends it back to resolveReorg, after
+// a pause that doubles each time; the round gives up after this many
+const REORG_RETRIES = 5;
+const REORG_BACKOFF_MS = 500;
+
+const auctionSeal = new ethers.Interface(AuctionSealFHE__factory.abi);
+const TOPICS = INDEXED_EVENTS.map(name => auctionSeal.getEvent(name)!.topicHash);
+
+// Decoded arguments as plain JSON: integers become decimal strings and structs
+// objects. Every argument and struct field of the indexed events is named.
+function toJson(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof ethers.Result) {
+    return Object.fromEntries(Object.entries(value.toObject(false)).map(([key, item]) => [key, toJson(item)]));
+  }
+  return value;
+}
+
+export class AuctionIndexer {
+  private readonly options: Required<IndexerOptions>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private stopped = true;
+  private running?: Promise<number>;
+
+  constructor(private readonly provider: ethers.Provider, private readonly store: IndexStore, options: IndexerOptions) {
+    this.options = { confirmations: 0, maxBlockRange: 2000, pollIntervalMs: 4000, ...options };
+  }
+
+  // Indexes up to the head, less the confirmations, and resolves to the last
+  // block indexed. Calls made while one is running share it.
+  sync(): Promise<number> {
+    if (!this.running) {
+      this.running = this.catchUp().finally(() => (this.running = undefined));
+    }
+    return this.running;
+  }
+
+  // Syncs now and then every poll interval until stopped
+  start() {
+    this.stopped = false;
+    const poll = async () => {
+      try {
+        await this.sync();
+      } catch (e) {
+        console.error("Indexing failed:", e);
+      }
+      if (!this.stopped) this.timer = setTimeout(poll, this.options.pollIntervalMs);
+    };
+    poll();
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  private async catchUp(): Promise<number> {
+    for (let attempt = 1; ; attempt++) {
+      const synced = await this.indexToHead();
+      if (synced !== undefined) return synced;
+      if (attempt === REORG_RETRIES) throw new Error(`The chain reorganized ${attempt} times in a row while indexing`);
+      await new Promise(resolve => setTimeout(resolve, REORG_BACKOFF_MS * 2 ** (attempt - 1)));
+    }
+  }
+
+  // Resolves to the last block indexed, or to undefined when a reorg replaced
+  // blocks while the ranges were read: the logs then belong to other blocks
+  // than the ones fetched, or the first block of a range no longer follows the
+  // last block indexed, which a reorg reaching below it leaves behind
+  private async indexToHead(): Promise<number | undefined> {
+    const { address, confirmations, maxBlockRange } = this.options;
+    const head = (await this.provider.getBlockNumber()) - confirmations;
+    let synced = await this.resolveReorg();
+    // Unknown when indexing starts over from the start block
+    let syncedHash = this.store.recentBlocks().find(block => block.number === synced)?.hash;
+    while (synced < head) {
+      const toBlock = Math.min(head, synced + maxBlockRange);
+      const logs = await this.provider.getLogs({ address, topics: [TOPICS], fromBlock: synced + 1, toBlock });
+      const blocks = await this.fetchBlocks([...new Set([synced + 1, ...logs.map(log => log.blockNumber), toBlock])]);
+      if (syncedHash !== undefined && blocks.get(synced + 1)!.parentHash !== syncedHash) return undefined;
+      if (logs.some(log => blocks.get(log.blockNumber)?.hash !== log.blockHash)) return undefined;
+
+      const events = logs.map(log => this.toEvent(log, blocks.get(log.blockNumber)!));
+      this.store.append(events, [...blocks.values()].map(block => ({ number: block.number, hash: block.hash! })));
+      synced = toBlock;
+      syncedHash = blocks.get(toBlock)!.hash!;
+    }
+    return synced;
+  }
+
+  // The newest indexed block the chain still has, after rolling back whatever
+  // came after it. Without one, indexing starts over from the start block.
+  private async resolveReorg(): Promise<number> {
+    const stored: BlockRef[] = this.store.recentBlocks();
+    for (const [i, block] of stored.entries()) {
+      const current = await this.provider.getBlock(block.number);
+      if (current?.hash !== block.hash) continue;
+      if (i > 0) this.store.rollback(block.number);
+      return block.number;
+    }
+    const restart = this.options.startBlock - 1;
+    if (stored.length > 0) this.store.rollback(restart);
+    return restart;
+  }
+
+  private async fetchBlocks(numbers: number[]): Promise<Map<number, ethers.Block>> {
+    const blocks = await Promise.all(numbers.map(async number => {
+      const block = await this.provider.getBlock(number);
+      if (!block?.hash) throw new Error(`Block ${number} is not available`);
+      return block;
+    }));
+    return new Map(blocks.map(block => [block.number, block]));
+  }
+
+  private toEvent(log: ethers.Log, block: ethers.Block): IndexedEvent {
+    const event = auctionSeal.parseLog(log)!;
+    return {
+      name: event.name as IndexedEventName,
+      auctionId: Number(event.args.auctionId),
+      args: toJson(event.args) as Record<string, any>,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      timestamp: block.timestamp
+    };
+  }
+}
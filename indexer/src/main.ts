@@ -0,0 +1,50 @@
+// main.ts
+// Runs the indexer and serves its API until the process is stopped:
+//
+//   RPC_URL=http://127.0.0.1:8545 npm start
+//
+// CONTRACT_ADDRESS and START_BLOCK default to what the deploy script wrote to
+// the app's config.json. DB_PATH (indexer.db), PORT (4000), CONFIRMATIONS (0)
+// and POLL_INTERVAL_MS (4000) are optional too.
+import { ethers } from "ethers";
+import configJson from "../../frontend/web/src/config.json";
+import { createApiServer } from "./api";
+import { AuctionIndexer } from "./indexer";
+import { IndexStore } from "./store";
+
+async function main() {
+  const env = process.env;
+  const provider = new ethers.JsonRpcProvider(env.RPC_URL ?? "http://127.0.0.1:8545");
+  const { chainId } = await provider.getNetwork();
+  const address = env.CONTRACT_ADDRESS ?? configJson.contractAddress;
+
+  const store = new IndexStore(env.DB_PATH ?? "indexer.db");
+  store.useContract(address, Number(chainId));
+  const indexer = new AuctionIndexer(provider, store, {
+    address,
+    startBlock: Number(env.START_BLOCK ?? configJson.startBlock),
+    confirmations: Number(env.CONFIRMATIONS ?? 0),
+    pollIntervalMs: Number(env.POLL_INTERVAL_MS ?? 4000)
+  });
+  indexer.start();
+
+  const port = Number(env.PORT ?? 4000);
+  const server = createApiServer(store).listen(port, () => {
+    console.log(`Indexing ${address} on chain ${chainId}; API on http://localhost:${port}`);
+  });
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close(() => {
+      store.close();
+      provider.destroy();
+    });
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,71 @@
+// records.ts
+// What the indexer's API answers with. The shapes follow the frontend's
+// AuctionRecord, with token amounts, token ids and request ids as decimal
+// strings so they survive JSON. Kept free of dependencies, so the app can
+// import the types.
+
+export interface IndexedBid {
+  auctionId: number;
+  bidIndex: number;
+  bidder: string;
+  handle: string;
+  quantityHandle?: string;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+}
+
+export interface IndexedAllocation {
+  bidIndex: number;
+  bidder: string;
+  quantity: number;
+}
+
+export interface IndexedSettlement {
+  auctionId: number;
+  requestId: string;
+  reserveMet: boolean;
+  winner: string;
+  clearingPrice: string;
+  allocations: IndexedAllocation[];
+  settledAt: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface IndexedAuction {
+  auctionId: number;
+  title: string;
+  description: string;
+  creator: string;
+  auctionType: number;
+  tieBreak: number;
+  quantity: number;
+  payment: { token: string; priceUnit: string; deposit: string; confidential: boolean };
+  item?: { collection: string; tokenId: string; releasedTo?: string };
+  schedule?: { startPrice: number; floorPrice: number; priceDrop: number; tickSeconds: number };
+  participation: { participation: number; merkleRoot: string; proofsUri: string };
+  lastUnmetAsk?: number;
+  startTime: number;
+  endTime: number;
+  createdAt: number;
+  closedAt?: number;
+  closed: boolean;
+  bids: IndexedBid[];
+  settlement?: IndexedSettlement;
+}
+
+// A bid with how it ended, for a bidder's history across auctions
+export interface BidderBid extends IndexedBid {
+  title: string;
+  settled: boolean;
+  // Single-unit auctions: whether this bidder won; uniform-price: whether this bid got units
+  won: boolean;
+  allocation?: number;
+}
+
+// GET /auctions. blockNumber is the last block indexed, null before the first.
+export interface AuctionsResponse {
+  blockNumber: number | null;
+  auctions: IndexedAuction[];
+}
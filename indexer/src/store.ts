@@ -0,0 +1,508 @@
+// store.ts
+// SQLite storage for the indexer. Every auction event it indexed is kept in
+// `events`, and the auction, bid, allocation and settlement tables are derived
+// from those rows. Undoing a reorg therefore deletes the events of the dropped
+// blocks and derives the auctions they touched again from what is left.
+import Database from "better-sqlite3";
+import { BidderBid, IndexedAuction, IndexedBid, IndexedSettlement } from "./records";
+
+// The events auctions are derived from
+export const INDEXED_EVENTS = [
+  "AuctionCreated",
+  "AuctionClosed",
+  "BidSubmitted",
+  "UnitsAllocated",
+  "AuctionSettled",
+  "ItemEscrowed",
+  "ItemReleased",
+  "DutchScheduleSet",
+  "DutchPriceNotReached",
+  "ParticipationSet"
+] as const;
+
+export type IndexedEventName = (typeof INDEXED_EVENTS)[number];
+
+// A decoded log. Arguments are stored as JSON, with integers as decimal strings.
+export interface IndexedEvent {
+  name: IndexedEventName;
+  auctionId: number;
+  args: Record<string, any>;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+const ZERO_HASH = "0x" + "0".repeat(64);
+
+// Hashes kept for finding where a reorg forked off; older blocks are forgotten,
+// and a reorg that reaches past them makes the indexer start over
+const KEPT_BLOCKS = 256;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    auction_id INTEGER NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_auction ON events (auction_id, block_number, log_index);
+  CREATE TABLE IF NOT EXISTS auctions (
+    auction_id INTEGER PRIMARY KEY,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    creator TEXT NOT NULL,
+    auction_type INTEGER NOT NULL,
+    tie_break INTEGER NOT NULL,
+    quantity INTEGER NOT NULL,
+    payment_token TEXT NOT NULL,
+    price_unit TEXT NOT NULL,
+    deposit TEXT NOT NULL,
+    confidential INTEGER NOT NULL,
+    item_collection TEXT,
+    item_token_id TEXT,
+    item_released_to TEXT,
+    schedule TEXT,
+    participation INTEGER NOT NULL DEFAULT 0,
+    merkle_root TEXT NOT NULL DEFAULT '${ZERO_HASH}',
+    proofs_uri TEXT NOT NULL DEFAULT '',
+    last_unmet_ask INTEGER,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    closed_at INTEGER,
+    closed INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE IF NOT EXISTS bids (
+    auction_id INTEGER NOT NULL,
+    bid_index INTEGER NOT NULL,
+    bidder TEXT NOT NULL,
+    handle TEXT NOT NULL,
+    quantity_handle TEXT,
+    block_number INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    PRIMARY KEY (auction_id, bid_index)
+  );
+  CREATE INDEX IF NOT EXISTS bids_by_bidder ON bids (bidder);
+  CREATE TABLE IF NOT EXISTS allocations (
+    auction_id INTEGER NOT NULL,
+    bid_index INTEGER NOT NULL,
+    bidder TEXT NOT NULL,
+    quantity INTEGER NOT NULL,
+    PRIMARY KEY (auction_id, bid_index)
+  );
+  CREATE TABLE IF NOT EXISTS settlements (
+    auction_id INTEGER PRIMARY KEY,
+    request_id TEXT NOT NULL,
+    reserve_met INTEGER NOT NULL,
+    winner TEXT NOT NULL,
+    clearing_price TEXT NOT NULL,
+    settled_at INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL
+  );
+`;
+
+export class IndexStore {
+  private readonly db: Database.Database;
+
+  // `path` is a file, or ":memory:" for a store that lasts as long as the process
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // Ties the database to one contract, so it is not resumed against another
+  useContract(address: string, chainId: number) {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = 'contract'").get() as { value: string } | undefined;
+    if (row && row.value !== key) {
+      throw new Error(`The database indexes ${row.value}, not ${key}; use another database file`);
+    }
+    if (!row) this.db.prepare("INSERT INTO meta (key, value) VALUES ('contract', ?)").run(key);
+  }
+
+  // The last block indexed, or undefined before the first
+  syncedBlock(): number | undefined {
+    const row = this.db.prepare("SELECT MAX(number) AS number FROM blocks").get() as { number: number | null };
+    return row.number ?? undefined;
+  }
+
+  // Newest first
+  recentBlocks(): BlockRef[] {
+    return this.db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC").all() as BlockRef[];
+  }
+
+  // Stores one range of blocks: the events found in it and the hashes of the
+  // blocks it was checked against, the last block of the range among them
+  append(events: IndexedEvent[], blocks: BlockRef[]) {
+    this.db.transaction(() => {
+      const insertEvent = this.db.prepare(`
+        INSERT INTO events (block_number, log_index, block_hash, transaction_hash, timestamp, name, auction_id, args)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const event of events) {
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.blockHash,
+          event.transactionHash,
+          event.timestamp,
+          event.name,
+          event.auctionId,
+          JSON.stringify(event.args)
+        );
+        this.apply(event);
+      }
+      const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+      for (const block of blocks) insertBlock.run(block.number, block.hash);
+      const latest = Math.max(...blocks.map(block => block.number));
+      this.db.prepare("DELETE FROM blocks WHERE number <= ?").run(latest - KEPT_BLOCKS);
+    })();
+  }
+
+  // Forgets everything after `blockNumber` and derives the auctions those blocks
+  // touched again from the events that remain
+  rollback(blockNumber: number) {
+    this.db.transaction(() => {
+      const touched = this.db
+        .prepare("SELECT DISTINCT auction_id FROM events WHERE block_number > ?")
+        .pluck()
+        .all(blockNumber) as number[];
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(blockNumber);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+      for (const auctionId of touched) {
+        for (const table of ["auctions", "bids", "allocations", "settlements"]) {
+          this.db.prepare(`DELETE FROM ${table} WHERE auction_id = ?`).run(auctionId);
+        }
+        const rows = this.db
+          .prepare("SELECT * FROM events WHERE auction_id = ? ORDER BY block_number, log_index")
+          .all(auctionId) as EventRow[];
+        for (const row of rows) this.apply(fromEventRow(row));
+      }
+    })();
+  }
+
+  // Derives the auction tables' rows from one event. Events of auctions created
+  // before the start block have no auction to change and are skipped.
+  private apply(event: IndexedEvent) {
+    const { args, auctionId } = event;
+    if (event.name === "AuctionCreated") {
+      this.db
+        .prepare(`
+          INSERT INTO auctions (
+            auction_id, title, description, creator, auction_type, tie_break, quantity,
+            payment_token, price_unit, deposit, confidential, start_time, end_time, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .run(
+          auctionId,
+          args.title,
+          args.description,
+          args.creator,
+          Number(args.auctionType),
+          Number(args.tieBreak),
+          Number(args.quantity),
+          args.payment.token,
+          args.payment.priceUnit,
+          args.payment.deposit,
+          args.payment.confidential ? 1 : 0,
+          Number(args.startTime),
+          Number(args.endTime),
+          event.timestamp
+        );
+      return;
+    }
+    if (!this.db.prepare("SELECT 1 FROM auctions WHERE auction_id = ?").get(auctionId)) return;
+
+    const update = (assignments: string, ...values: unknown[]) =>
+      this.db.prepare(`UPDATE auctions SET ${assignments} WHERE auction_id = ?`).run(...values, auctionId);
+    switch (event.name) {
+      case "AuctionClosed":
+        update("closed = 1, closed_at = ?", event.timestamp);
+        break;
+      case "ItemEscrowed":
+        update("item_collection = ?, item_token_id = ?", args.collection, args.tokenId);
+        break;
+      case "ItemReleased":
+        update("item_released_to = ?", args.to);
+        break;
+      case "ParticipationSet":
+        update("participation = ?, merkle_root = ?, proofs_uri = ?", Number(args.participation), args.merkleRoot, args.proofsUri);
+        break;
+      case "DutchScheduleSet": {
+        const { startPrice, floorPrice, priceDrop, tickSeconds } = args.schedule;
+        update(
+          "schedule = ?",
+          JSON.stringify({
+            startPrice: Number(startPrice),
+            floorPrice: Number(floorPrice),
+            priceDrop: Number(priceDrop),
+            tickSeconds: Number(tickSeconds)
+          })
+        );
+        break;
+      }
+      case "DutchPriceNotReached":
+        update("last_unmet_ask = ?", Number(args.price));
+        break;
+      case "BidSubmitted": {
+        // Bids are numbered in the order the contract stored them
+        const quantityHandle = BigInt(args.encryptedQuantity) === 0n ? null : args.encryptedQuantity;
+        this.db
+          .prepare(`
+            INSERT INTO bids (auction_id, bid_index, bidder, handle, quantity_handle, block_number, timestamp, transaction_hash)
+            SELECT ?, COUNT(*), ?, ?, ?, ?, ?, ? FROM bids WHERE auction_id = ?
+          `)
+          .run(
+            auctionId,
+            args.bidder.toLowerCase(),
+            args.encryptedBidAmount,
+            quantityHandle,
+            event.blockNumber,
+            event.timestamp,
+            event.transactionHash,
+            auctionId
+          );
+        break;
+      }
+      case "UnitsAllocated":
+        this.db
+          .prepare("INSERT INTO allocations (auction_id, bid_index, bidder, quantity) VALUES (?, ?, ?, ?)")
+          .run(auctionId, Number(args.bidIndex), args.bidder.toLowerCase(), Number(args.quantity));
+        break;
+      case "AuctionSettled":
+        this.db
+          .prepare(`
+            INSERT INTO settlements (auction_id, request_id, reserve_met, winner, clearing_price, settled_at, block_number, transaction_hash)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          `)
+          .run(
+            auctionId,
+            args.requestId,
+            args.reserveMet ? 1 : 0,
+            args.winner,
+            args.clearingPrice,
+            event.timestamp,
+            event.blockNumber,
+            event.transactionHash
+          );
+        // Settlement closes the auction on-chain without an AuctionClosed event
+        update("closed = 1");
+        break;
+    }
+  }
+
+  // Newest first, each with its bids and settlement
+  auctions(): IndexedAuction[] {
+    const rows = this.db.prepare("SELECT * FROM auctions ORDER BY auction_id DESC").all() as AuctionRow[];
+    const bids = this.groupByAuction(this.db.prepare("SELECT * FROM bids ORDER BY auction_id, bid_index").all() as BidRow[], toBid);
+    const settlements = new Map(this.settlements().map(settlement => [settlement.auctionId, settlement]));
+    return rows.map(row => toAuction(row, bids.get(row.auction_id) ?? [], settlements.get(row.auction_id)));
+  }
+
+  auction(auctionId: number): IndexedAuction | undefined {
+    const row = this.db.prepare("SELECT * FROM auctions WHERE auction_id = ?").get(auctionId) as AuctionRow | undefined;
+    if (!row) return undefined;
+    return toAuction(row, this.bids(auctionId), this.settlements(auctionId)[0]);
+  }
+
+  bids(auctionId: number): IndexedBid[] {
+    const rows = this.db.prepare("SELECT * FROM bids WHERE auction_id = ? ORDER BY bid_index").all(auctionId) as BidRow[];
+    return rows.map(toBid);
+  }
+
+  // Newest first; pass an auction id for that auction's only
+  settlements(auctionId?: number): IndexedSettlement[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM settlements ${auctionId === undefined ? "" : "WHERE auction_id = ?"} ORDER BY block_number DESC`)
+      .all(...(auctionId === undefined ? [] : [auctionId])) as SettlementRow[];
+    const allocations = this.groupByAuction(
+      this.db.prepare("SELECT * FROM allocations ORDER BY auction_id, bid_index").all() as AllocationRow[],
+      row => ({ bidIndex: row.bid_index, bidder: row.bidder, quantity: row.quantity })
+    );
+    return rows.map(row => ({
+      auctionId: row.auction_id,
+      requestId: row.request_id,
+      reserveMet: row.reserve_met === 1,
+      winner: row.winner,
+      clearingPrice: row.clearing_price,
+      allocations: allocations.get(row.auction_id) ?? [],
+      settledAt: row.settled_at,
+      blockNumber: row.block_number,
+      transactionHash: row.transaction_hash
+    }));
+  }
+
+  // Every bid of `bidder`, newest first
+  bidderHistory(bidder: string): BidderBid[] {
+    const rows = this.db
+      .prepare(`
+        SELECT bids.*, auctions.title, settlements.winner, allocations.quantity AS allocation,
+          settlements.auction_id IS NOT NULL AS settled
+        FROM bids
+        JOIN auctions ON auctions.auction_id = bids.auction_id
+        LEFT JOIN settlements ON settlements.auction_id = bids.auction_id
+        LEFT JOIN allocations ON allocations.auction_id = bids.auction_id AND allocations.bid_index = bids.bid_index
+        WHERE bids.bidder = ?
+        ORDER BY bids.block_number DESC, bids.bid_index DESC
+      `)
+      .all(bidder.toLowerCase()) as (BidRow & { title: string; winner: string | null; allocation: number | null; settled: number })[];
+    return rows.map(row => ({
+      ...toBid(row),
+      title: row.title,
+      settled: row.settled === 1,
+      won: row.allocation !== null || row.winner?.toLowerCase() === row.bidder,
+      allocation: row.allocation ?? undefined
+    }));
+  }
+
+  private groupByAuction<Row extends { auction_id: number }, T>(rows: Row[], map: (row: Row) => T) {
+    const groups = new Map<number, T[]>();
+    for (const row of rows) groups.set(row.auction_id, [...(groups.get(row.auction_id) ?? []), map(row)]);
+    return groups;
+  }
+}
+
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  transaction_hash: string;
+  timestamp: number;
+  name: IndexedEventName;
+  auction_id: number;
+  args: string;
+}
+
+interface AuctionRow {
+  auction_id: number;
+  title: string;
+  description: string;
+  creator: string;
+  auction_type: number;
+  tie_break: number;
+  quantity: number;
+  payment_token: string;
+  price_unit: string;
+  deposit: string;
+  confidential: number;
+  item_collection: string | null;
+  item_token_id: string | null;
+  item_released_to: string | null;
+  schedule: string | null;
+  participation: number;
+  merkle_root: string;
+  proofs_uri: string;
+  last_unmet_ask: number | null;
+  start_time: number;
+  end_time: number;
+  created_at: number;
+  closed_at: number | null;
+  closed: number;
+}
+
+interface BidRow {
+  auction_id: number;
+  bid_index: number;
+  bidder: string;
+  handle: string;
+  quantity_handle: string | null;
+  block_number: number;
+  timestamp: number;
+  transaction_hash: string;
+}
+
+interface AllocationRow {
+  auction_id: number;
+  bid_index: number;
+  bidder: string;
+  quantity: number;
+}
+
+interface SettlementRow {
+  auction_id: number;
+  request_id: string;
+  reserve_met: number;
+  winner: string;
+  clearing_price: string;
+  settled_at: number;
+  block_number: number;
+  transaction_hash: string;
+}
+
+const fromEventRow = (row: EventRow): IndexedEvent => ({
+  name: row.name,
+  auctionId: row.auction_id,
+  args: JSON.parse(row.args),
+  blockNumber: row.block_number,
+  blockHash: row.block_hash,
+  logIndex: row.log_index,
+  transactionHash: row.transaction_hash,
+  timestamp: row.timestamp
+});
+
+const toBid = (row: BidRow): IndexedBid => ({
+  auctionId: row.auction_id,
+  bidIndex: row.bid_index,
+  bidder: row.bidder,
+  handle: row.handle,
+  quantityHandle: row.quantity_handle ?? undefined,
+  blockNumber: row.block_number,
+  timestamp: row.timestamp,
+  transactionHash: row.transaction_hash
+});
+
+const toAuction = (row: AuctionRow, bids: IndexedBid[], settlement?: IndexedSettlement): IndexedAuction => ({
+  auctionId: row.auction_id,
+  title: row.title,
+  description: row.description,
+  creator: row.creator,
+  auctionType: row.auction_type,
+  tieBreak: row.tie_break,
+  quantity: row.quantity,
+  payment: {
+    token: row.payment_token,
+    priceUnit: row.price_unit,
+    deposit: row.deposit,
+    confidential: row.confidential === 1
+  },
+  item: row.item_collection
+    ? { collection: row.item_collection, tokenId: row.item_token_id!, releasedTo: row.item_released_to ?? undefined }
+    : undefined,
+  schedule: row.schedule ? JSON.parse(row.schedule) : undefined,
+  participation: { participation: row.participation, merkleRoot: row.merkle_root, proofsUri: row.proofs_uri },
+  lastUnmetAsk: row.last_unmet_ask ?? undefined,
+  startTime: row.start_time,
+  endTime: row.end_time,
+  createdAt: row.created_at,
+  closedAt: row.closed_at ?? undefined,
+  closed: row.closed === 1,
+  bids,
+  settlement
+});
@@ -0,0 +1,25 @@
+// tasks/allowlist.ts
+import fs from "fs";
+import { task } from "hardhat/config";
+import {
+  buildMerkleAllowlist,
+  parseAddressCsv,
+} from "../frontend/web/src/merkle";
+
+// Builds the Merkle allowlist of an auction from a CSV with one address per line.
+// The root goes into createAuction; the JSON is what the creator publishes at the
+// auction's proofsUri so that bidders can find their proof:
+//
+//   npx hardhat auction:merkle --csv bidders.csv --out allowlist.json
+task("auction:merkle", "Builds a Merkle allowlist from a CSV of addresses")
+  .addParam("csv", "CSV file with an address in the first column")
+  .addOptionalParam("out", "Where to write the tree with every proof")
+  .setAction(async (args: { csv: string; out?: string }) => {
+    const addresses = parseAddressCsv(fs.readFileSync(args.csv, "utf-8"));
+    const allowlist = buildMerkleAllowlist(addresses);
+    console.log(`${addresses.length} addresses, root ${allowlist.root}`);
+    if (args.out) {
+      fs.writeFileSync(args.out, JSON.stringify(allowlist, null, 2));
+      console.log(`Wrote ${args.out}`);
+    }
+  });
@@ -0,0 +1,116 @@
+// tasks/settle.ts
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { decodeContractError } from "../frontend/web/src/errors";
+import type { AuctionSealFHE } from "../types";
+
+// Keeper for auctions with more bids than one transaction can reduce. Folds the bids
+// into the contract's running maximum chunk by chunk, then requests the decryption
+// of the result, printing the gas of every transaction on the way:
+//
+//   npx hardhat auction:settle --auction 3 --network sepolia
+//
+// The signer must be the auction's creator, an auctioneer or a settler. Without --address
+// the contract from the frontend config written by the deploy script is used.
+task(
+  "auction:settle",
+  "Processes an auction's bids in chunks and requests settlement",
+)
+  .addParam("auction", "Auction id", undefined, types.int)
+  .addOptionalParam("address", "AuctionSealFHE address")
+  .addOptionalParam(
+    "chunk",
+    "Bids per processBids call (the contract caps it)",
+    undefined,
+    types.int,
+  )
+  .setAction(
+    async (
+      args: { auction: number; address?: string; chunk?: number },
+      hre,
+    ) => {
+      // Reverts surface as the contract's custom errors, in the app's wording
+      try {
+        await settle(args, hre);
+      } catch (e) {
+        throw decodeContractError(e);
+      }
+    },
+  );
+
+async function settle(
+  args: { auction: number; address?: string; chunk?: number },
+  hre: HardhatRuntimeEnvironment,
+) {
+  const { ethers, fhevm } = hre;
+  const address = args.address ?? readDeployedAddress();
+  const [signer] = await ethers.getSigners();
+  const contract = (await ethers.getContractAt(
+    "AuctionSealFHE",
+    address,
+    signer,
+  )) as unknown as AuctionSealFHE;
+
+  const auction = await contract.auctions(args.auction);
+  if (auction.settled)
+    throw new Error(`Auction ${args.auction} is already settled`);
+  const chunk = BigInt(args.chunk ?? (await contract.MAX_BIDS_PER_CHUNK()));
+  const total = await contract.bidCount(args.auction);
+  let { processed } = await contract.reductions(args.auction);
+  console.log(
+    `Auction ${args.auction}: ${processed}/${total} bids processed, ${chunk} per chunk`,
+  );
+
+  let totalGas = 0n;
+  // Uniform-price auctions are bounded by MAX_UNIFORM_PRICE_BIDS and settle in one request
+  if (auction.auctionType !== 2n) {
+    // The request itself folds in whatever is left of the last chunk
+    while (total - processed > chunk) {
+      const receipt = await (
+        await contract.processBids(args.auction, chunk)
+      ).wait();
+      if (!receipt) throw new Error("processBids was dropped");
+      ({ processed } = await contract.reductions(args.auction));
+      totalGas += receipt.gasUsed;
+      console.log(
+        `  processBids: ${processed}/${total} bids, gas ${receipt.gasUsed}`,
+      );
+    }
+  }
+
+  const receipt = await (await contract.findHighestBidder(args.auction)).wait();
+  if (!receipt) throw new Error("findHighestBidder was dropped");
+  totalGas += receipt.gasUsed;
+  console.log(`  findHighestBidder: gas ${receipt.gasUsed}`);
+  console.log(`Total gas ${totalGas}`);
+
+  if (fhevm.isMock) {
+    await fhevm.awaitDecryptionOracle();
+    const settled = await contract.auctions(args.auction);
+    console.log(
+      `Settled: reserve met ${settled.reserveMet}, winner ${settled.winner}, price ${settled.clearingPrice}`,
+    );
+  } else {
+    console.log(
+      "Decryption requested; the oracle settles the auction in its callback",
+    );
+  }
+}
+
+function readDeployedAddress(): string {
+  const configPath = path.join(
+    __dirname,
+    "..",
+    "frontend",
+    "web",
+    "src",
+    "config.json",
+  );
+  if (!fs.existsSync(configPath))
+    throw new Error(
+      "No --address given and no frontend config.json to read it from",
+    );
+  return JSON.parse(fs.readFileSync(configPath, "utf-8")).contractAddress;
+}
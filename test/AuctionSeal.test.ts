@@ -0,0 +1,2374 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  AuctionSealFHE,
+  ConfidentialToken,
+  ConfidentialToken__factory,
+  MockERC20,
+  MockERC20__factory,
+  MockERC721,
+  MockERC721__factory,
+} from "../types";
+import { DutchSchedule, dutchPriceAt } from "../frontend/web/src/dutch";
+import { decodeContractError } from "../frontend/web/src/errors";
+import {
+  buildMerkleAllowlist,
+  parseAddressCsv,
+  proofFor,
+} from "../frontend/web/src/merkle";
+import {
+  ALLOWLIST,
+  DUTCH,
+  FIRST_PRICE,
+  Item,
+  MERKLE,
+  NO_DEPOSIT,
+  NO_ITEM,
+  NO_SCHEDULE,
+  ONE_DAY,
+  OPEN,
+  PROVIDERS_ONLY,
+  ParticipationRule,
+  PaymentTerms,
+  SECOND_PRICE,
+  TIE_EARLIEST,
+  TIE_LATEST,
+  TIE_RANDOM,
+  UNIFORM_PRICE,
+  createAuction,
+  deployAuctionSeal,
+} from "./fixtures";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  seller: HardhatEthersSigner;
+};
+
+describe("AuctionSealFHE", function () {
+  let signers: Signers;
+  let auctionSeal: AuctionSealFHE;
+  let auctionSealAddress: string;
+
+  async function encryptReserve(
+    creator: HardhatEthersSigner,
+    reservePrice: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(auctionSealAddress, creator.address)
+      .add32(reservePrice)
+      .encrypt();
+    return [input.handles[0], input.inputProof] as const;
+  }
+
+  async function submitBid(
+    bidder: HardhatEthersSigner,
+    auctionId: bigint,
+    amount: number,
+    value = 0n,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(auctionSealAddress, bidder.address)
+      .add32(amount)
+      .encrypt();
+    return auctionSeal
+      .connect(bidder)
+      .submitBid(auctionId, input.handles[0], input.inputProof, { value });
+  }
+
+  async function encryptMultiUnitBid(
+    bidder: HardhatEthersSigner,
+    unitPrice: number,
+    quantity: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(auctionSealAddress, bidder.address)
+      .add32(unitPrice)
+      .add32(quantity)
+      .encrypt();
+    return [input.handles[0], input.handles[1], input.inputProof] as const;
+  }
+
+  async function submitMultiUnitBid(
+    bidder: HardhatEthersSigner,
+    auctionId: bigint,
+    unitPrice: number,
+    quantity: number,
+  ) {
+    return auctionSeal
+      .connect(bidder)
+      .submitMultiUnitBid(
+        auctionId,
+        ...(await encryptMultiUnitBid(bidder, unitPrice, quantity)),
+      );
+  }
+
+  // Expected reverts are asserted through eth_call where needed: with viaIR, Hardhat
+  // cannot always map a revert back to the source, and the fhevm plugin then fails on
+  // the sent transaction before the custom error reaches the matcher.
+  async function simulateBid(
+    bidder: HardhatEthersSigner,
+    auctionId: bigint,
+    amount: number,
+    value = 0n,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(auctionSealAddress, bidder.address)
+      .add32(amount)
+      .encrypt();
+    return auctionSeal
+      .connect(bidder)
+      .submitBid.staticCall(auctionId, input.handles[0], input.inputProof, {
+        value,
+      });
+  }
+
+  async function settle(auctionId: bigint) {
+    await requestSettlement(auctionId);
+    await fhevm.awaitDecryptionOracle();
+    return auctionSeal.auctions(auctionId);
+  }
+
+  async function requestSettlement(auctionId: bigint, caller = signers.seller) {
+    const tx = await auctionSeal.connect(caller).findHighestBidder(auctionId);
+    const receipt = await tx.wait();
+    const log = receipt!.logs
+      .map((l) => auctionSeal.interface.parseLog(l))
+      .find((parsed) => parsed?.name === "DecryptionRequested");
+    return log!.args.requestId as bigint;
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+      seller: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ auctionSeal, auctionSealAddress } = await deployAuctionSeal());
+    for (const bidder of [signers.alice, signers.bob, signers.carol]) {
+      await auctionSeal.addProvider(bidder.address);
+    }
+  });
+
+  describe("ownership and providers", function () {
+    it("makes the deployer owner and provider", async function () {
+      expect(await auctionSeal.owner()).to.eq(signers.deployer.address);
+      expect(await auctionSeal.isProvider(signers.deployer.address)).to.eq(
+        true,
+      );
+      expect(await auctionSeal.cooldownSeconds()).to.eq(60);
+    });
+
+    it("adds and removes providers", async function () {
+      await expect(auctionSeal.removeProvider(signers.alice.address))
+        .to.emit(auctionSeal, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await auctionSeal.isProvider(signers.alice.address)).to.eq(false);
+
+      await expect(auctionSeal.addProvider(signers.alice.address))
+        .to.emit(auctionSeal, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await auctionSeal.isProvider(signers.alice.address)).to.eq(true);
+    });
+
+    it("does not re-emit for an existing provider", async function () {
+      await expect(auctionSeal.addProvider(signers.alice.address)).not.to.emit(
+        auctionSeal,
+        "ProviderAdded",
+      );
+    });
+
+    it("restricts provider management to admins", async function () {
+      const admin = await auctionSeal.ADMIN_ROLE();
+      await expect(
+        auctionSeal.connect(signers.alice).addProvider(signers.alice.address),
+      )
+        .to.be.revertedWithCustomError(auctionSeal, "MissingRole")
+        .withArgs(admin);
+      await expect(
+        auctionSeal.connect(signers.alice).removeProvider(signers.bob.address),
+      )
+        .to.be.revertedWithCustomError(auctionSeal, "MissingRole")
+        .withArgs(admin);
+
+      await auctionSeal.grantRole(admin, signers.alice.address);
+      await expect(
+        auctionSeal.connect(signers.alice).removeProvider(signers.bob.address),
+      )
+        .to.emit(auctionSeal, "ProviderRemoved")
+        .withArgs(signers.bob.address);
+    });
+
+    it("rejects bids from non-providers", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+      await auctionSeal.removeProvider(signers.alice.address);
+      await expect(
+        simulateBid(signers.alice, auctionId, 10),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotProvider");
+    });
+
+    it("transfers ownership once the new owner accepts", async function () {
+      await expect(auctionSeal.transferOwnership(signers.alice.address))
+        .to.emit(auctionSeal, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await auctionSeal.owner()).to.eq(signers.deployer.address);
+      expect(await auctionSeal.pendingOwner()).to.eq(signers.alice.address);
+      await expect(
+        auctionSeal.connect(signers.bob).acceptOwnership(),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotPendingOwner");
+
+      await expect(auctionSeal.connect(signers.alice).acceptOwnership())
+        .to.emit(auctionSeal, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await auctionSeal.owner()).to.eq(signers.alice.address);
+      expect(await auctionSeal.pendingOwner()).to.eq(ethers.ZeroAddress);
+      await expect(auctionSeal.pause())
+        .to.be.revertedWithCustomError(auctionSeal, "MissingRole")
+        .withArgs(await auctionSeal.PAUSER_ROLE());
+      await expect(
+        auctionSeal.transferOwnership(ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotOwner");
+    });
+
+    it("lets the owner replace a pending transfer", async function () {
+      await auctionSeal.transferOwnership(signers.alice.address);
+      await auctionSeal.transferOwnership(signers.bob.address);
+      await expect(
+        auctionSeal.connect(signers.alice).acceptOwnership(),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotPendingOwner");
+      await auctionSeal.connect(signers.bob).acceptOwnership();
+      expect(await auctionSeal.owner()).to.eq(signers.bob.address);
+    });
+
+    it("rejects a zero-address owner", async function () {
+      await expect(
+        auctionSeal.transferOwnership(ethers.ZeroAddress),
+      ).to.be.revertedWith("New owner is zero address");
+    });
+  });
+
+  describe("roles", function () {
+    let admin: string;
+    let auctioneer: string;
+    let settler: string;
+
+    beforeEach(async function () {
+      admin = await auctionSeal.ADMIN_ROLE();
+      auctioneer = await auctionSeal.AUCTIONEER_ROLE();
+      settler = await auctionSeal.SETTLER_ROLE();
+    });
+
+    it("gives the owner every role", async function () {
+      for (const role of [
+        admin,
+        auctioneer,
+        settler,
+        await auctionSeal.PAUSER_ROLE(),
+      ]) {
+        expect(await auctionSeal.hasRole(role, signers.deployer.address)).to.eq(
+          true,
+        );
+        expect(await auctionSeal.hasRole(role, signers.alice.address)).to.eq(
+          false,
+        );
+      }
+    });
+
+    it("grants and revokes roles once", async function () {
+      await expect(auctionSeal.grantRole(settler, signers.alice.address))
+        .to.emit(auctionSeal, "RoleGranted")
+        .withArgs(settler, signers.alice.address, signers.deployer.address);
+      expect(await auctionSeal.hasRole(settler, signers.alice.address)).to.eq(
+        true,
+      );
+      await expect(
+        auctionSeal.grantRole(settler, signers.alice.address),
+      ).not.to.emit(auctionSeal, "RoleGranted");
+
+      await expect(auctionSeal.revokeRole(settler, signers.alice.address))
+        .to.emit(auctionSeal, "RoleRevoked")
+        .withArgs(settler, signers.alice.address, signers.deployer.address);
+      expect(await auctionSeal.hasRole(settler, signers.alice.address)).to.eq(
+        false,
+      );
+      await expect(
+        auctionSeal.revokeRole(settler, signers.alice.address),
+      ).not.to.emit(auctionSeal, "RoleRevoked");
+    });
+
+    it("leaves admin grants to the owner and the rest to admins", async function () {
+      await auctionSeal.grantRole(admin, signers.alice.address);
+      await expect(
+        auctionSeal
+          .connect(signers.alice)
+          .grantRole(admin, signers.bob.address),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotOwner");
+      await expect(
+        auctionSeal
+          .connect(signers.alice)
+          .grantRole(auctioneer, signers.bob.address),
+      )
+        .to.emit(auctionSeal, "RoleGranted")
+        .withArgs(auctioneer, signers.bob.address, signers.alice.address);
+      await expect(
+        auctionSeal
+          .connect(signers.bob)
+          .revokeRole(auctioneer, signers.alice.address),
+      )
+        .to.be.revertedWithCustomError(auctionSeal, "MissingRole")
+        .withArgs(admin);
+      await expect(
+        auctionSeal.grantRole(ethers.id("OTHER_ROLE"), signers.bob.address),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidRole");
+    });
+
+    it("lets holders renounce their roles", async function () {
+      await auctionSeal.grantRole(settler, signers.alice.address);
+      await expect(auctionSeal.connect(signers.alice).renounceRole(settler))
+        .to.emit(auctionSeal, "RoleRevoked")
+        .withArgs(settler, signers.alice.address, signers.alice.address);
+      expect(await auctionSeal.hasRole(settler, signers.alice.address)).to.eq(
+        false,
+      );
+    });
+
+    it("lets auctioneers manage any auction", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+      await expect(
+        auctionSeal.connect(signers.carol).closeAuction(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotCreator");
+      await auctionSeal.grantRole(auctioneer, signers.carol.address);
+      await expect(auctionSeal.connect(signers.carol).closeAuction(auctionId))
+        .to.emit(auctionSeal, "AuctionClosed")
+        .withArgs(auctionId);
+    });
+
+    it("lets settlers settle but not otherwise manage auctions", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+      await submitBid(signers.alice, auctionId, 10);
+      await auctionSeal.grantRole(settler, signers.carol.address);
+      await expect(
+        auctionSeal.connect(signers.carol).closeAuction(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotCreator");
+
+      await auctionSeal.connect(signers.carol).findHighestBidder(auctionId);
+      await fhevm.awaitDecryptionOracle();
+      const auction = await auctionSeal.auctions(auctionId);
+      expect(auction.settled).to.eq(true);
+      expect(auction.winner).to.eq(signers.alice.address);
+    });
+  });
+
+  describe("pause", function () {
+    it("pauses and unpauses", async function () {
+      await expect(auctionSeal.pause())
+        .to.emit(auctionSeal, "Paused")
+        .withArgs(signers.deployer.address);
+      expect(await auctionSeal.paused()).to.eq(true);
+      await expect(auctionSeal.pause()).to.be.revertedWithCustomError(
+        auctionSeal,
+        "PausedError",
+      );
+
+      await expect(auctionSeal.unpause())
+        .to.emit(auctionSeal, "Unpaused")
+        .withArgs(signers.deployer.address);
+      expect(await auctionSeal.paused()).to.eq(false);
+    });
+
+    it("blocks auction and bid operations while paused", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+      await auctionSeal.pause();
+      const reserve = await encryptReserve(signers.seller, 0);
+
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .createAuction.staticCall(
+            "Lot",
+            "A lot",
+            FIRST_PRICE,
+            TIE_LATEST,
+            1,
+            0,
+            0,
+            NO_DEPOSIT,
+            NO_ITEM,
+            NO_SCHEDULE,
+            PROVIDERS_ONLY,
+            ...reserve,
+          ),
+      ).to.be.revertedWithCustomError(auctionSeal, "PausedError");
+      await expect(
+        auctionSeal.connect(signers.seller).closeAuction(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "PausedError");
+      await expect(
+        simulateBid(signers.alice, auctionId, 10),
+      ).to.be.revertedWithCustomError(auctionSeal, "PausedError");
+      await expect(
+        auctionSeal.connect(signers.seller).findHighestBidder(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "PausedError");
+    });
+
+    it("restricts pausing to pausers", async function () {
+      const pauser = await auctionSeal.PAUSER_ROLE();
+      await expect(auctionSeal.connect(signers.alice).pause())
+        .to.be.revertedWithCustomError(auctionSeal, "MissingRole")
+        .withArgs(pauser);
+      await expect(auctionSeal.connect(signers.alice).unpause())
+        .to.be.revertedWithCustomError(auctionSeal, "MissingRole")
+        .withArgs(pauser);
+
+      await auctionSeal.grantRole(pauser, signers.alice.address);
+      await expect(auctionSeal.connect(signers.alice).pause())
+        .to.emit(auctionSeal, "Paused")
+        .withArgs(signers.alice.address);
+    });
+  });
+
+  describe("cooldowns", function () {
+    it("updates the cooldown", async function () {
+      await expect(auctionSeal.setCooldownSeconds(120))
+        .to.emit(auctionSeal, "CooldownSecondsSet")
+        .withArgs(60, 120);
+      expect(await auctionSeal.cooldownSeconds()).to.eq(120);
+      await expect(auctionSeal.setCooldownSeconds(0)).to.be.revertedWith(
+        "Cooldown must be positive",
+      );
+    });
+
+    it("enforces the submission cooldown per bidder", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+      await submitBid(signers.alice, auctionId, 10);
+
+      await expect(
+        simulateBid(signers.alice, auctionId, 20),
+      ).to.be.revertedWithCustomError(auctionSeal, "CooldownActive");
+      // Other bidders are unaffected
+      await submitBid(signers.bob, auctionId, 30);
+
+      await time.increase(60);
+      await submitBid(signers.alice, auctionId, 20);
+      expect(await auctionSeal.lastSubmissionTime(signers.alice.address)).to.eq(
+        await time.latest(),
+      );
+    });
+
+    it("enforces the decryption request cooldown", async function () {
+      const first = await createAuction(auctionSeal, signers.seller);
+      const second = await createAuction(auctionSeal, signers.seller);
+      await submitBid(signers.alice, first, 10);
+      await submitBid(signers.bob, second, 10);
+      await requestSettlement(first);
+
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .findHighestBidder.staticCall(second),
+      ).to.be.revertedWithCustomError(auctionSeal, "CooldownActive");
+
+      await time.increase(60);
+      await expect(
+        auctionSeal.connect(signers.seller).findHighestBidder(second),
+      ).to.emit(auctionSeal, "DecryptionRequested");
+    });
+  });
+
+  describe("auctions", function () {
+    it("creates auctions with sequential ids", async function () {
+      const startTime = (await time.latest()) + 3600;
+      const endTime = startTime + ONE_DAY;
+      const reserve = await encryptReserve(signers.seller, 50);
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .createAuction(
+            "Painting",
+            "Oil on canvas",
+            FIRST_PRICE,
+            TIE_LATEST,
+            1,
+            startTime,
+            endTime,
+            NO_DEPOSIT,
+            NO_ITEM,
+            NO_SCHEDULE,
+            PROVIDERS_ONLY,
+            ...reserve,
+          ),
+      )
+        .to.emit(auctionSeal, "AuctionCreated")
+        .withArgs(
+          1,
+          signers.seller.address,
+          FIRST_PRICE,
+          TIE_LATEST,
+          1,
+          startTime,
+          endTime,
+          [ethers.ZeroAddress, 1n, 0n, false],
+          "Painting",
+          "Oil on canvas",
+        );
+      await auctionSeal
+        .connect(signers.alice)
+        .createAuction(
+          "Vase",
+          "Ming",
+          SECOND_PRICE,
+          TIE_LATEST,
+          1,
+          0,
+          endTime,
+          NO_DEPOSIT,
+          NO_ITEM,
+          NO_SCHEDULE,
+          PROVIDERS_ONLY,
+          ...(await encryptReserve(signers.alice, 0)),
+        );
+
+      expect(await auctionSeal.auctionCount()).to.eq(2);
+      const first = await auctionSeal.auctions(1);
+      expect(first.creator).to.eq(signers.seller.address);
+      expect(first.startTime).to.eq(startTime);
+      expect(first.endTime).to.eq(endTime);
+      // Only the creator can read the reserve back
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          first.reservePrice,
+          auctionSealAddress,
+          signers.seller,
+        ),
+      ).to.eq(50);
+      expect(first.closed).to.eq(false);
+      expect(first.settled).to.eq(false);
+      expect(first.auctionType).to.eq(FIRST_PRICE);
+      const second = await auctionSeal.auctions(2);
+      expect(second.creator).to.eq(signers.alice.address);
+      expect(second.auctionType).to.eq(SECOND_PRICE);
+    });
+
+    it("closes an auction", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+
+      await expect(auctionSeal.connect(signers.seller).closeAuction(auctionId))
+        .to.emit(auctionSeal, "AuctionClosed")
+        .withArgs(auctionId);
+      expect((await auctionSeal.auctions(auctionId)).closed).to.eq(true);
+      await expect(
+        auctionSeal.connect(signers.seller).closeAuction(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "AuctionNotOpen");
+    });
+
+    it("lets the owner close any auction", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+      await expect(auctionSeal.closeAuction(auctionId)).to.emit(
+        auctionSeal,
+        "AuctionClosed",
+      );
+    });
+
+    it("restricts closing and settling to the creator", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+      await submitBid(signers.alice, auctionId, 10);
+
+      await expect(
+        auctionSeal.connect(signers.alice).closeAuction(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotCreator");
+      await expect(
+        auctionSeal.connect(signers.alice).findHighestBidder(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotCreator");
+    });
+
+    it("lets anyone settle once bidding has ended", async function () {
+      // The creator never settles, yet the deposits must not stay locked
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        payment: { ...NO_DEPOSIT, deposit: 10n },
+      });
+      await submitBid(signers.alice, auctionId, 10, 10n);
+      await submitBid(signers.bob, auctionId, 20, 10n);
+      await expect(
+        auctionSeal
+          .connect(signers.carol)
+          .processBids.staticCall(auctionId, 16),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotCreator");
+
+      await time.increase(ONE_DAY);
+      await auctionSeal.connect(signers.carol).processBids(auctionId, 16);
+      await auctionSeal.connect(signers.carol).findHighestBidder(auctionId);
+      await fhevm.awaitDecryptionOracle();
+      expect((await auctionSeal.auctions(auctionId)).winner).to.eq(
+        signers.bob.address,
+      );
+      await expect(
+        auctionSeal.connect(signers.alice).withdrawRefund(auctionId),
+      ).to.changeEtherBalance(signers.alice, 10n);
+    });
+
+    it("rejects unknown auction ids", async function () {
+      await createAuction(auctionSeal, signers.seller);
+
+      await expect(
+        simulateBid(signers.alice, 0n, 10),
+      ).to.be.revertedWithCustomError(auctionSeal, "AuctionNotFound");
+      await expect(
+        simulateBid(signers.alice, 2n, 10),
+      ).to.be.revertedWithCustomError(auctionSeal, "AuctionNotFound");
+      await expect(auctionSeal.closeAuction(2)).to.be.revertedWithCustomError(
+        auctionSeal,
+        "AuctionNotFound",
+      );
+      await expect(
+        auctionSeal.findHighestBidder(2),
+      ).to.be.revertedWithCustomError(auctionSeal, "AuctionNotFound");
+    });
+
+    it("rejects bids on a closed auction", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+      await auctionSeal.connect(signers.seller).closeAuction(auctionId);
+
+      await expect(
+        simulateBid(signers.alice, auctionId, 10),
+      ).to.be.revertedWithCustomError(auctionSeal, "AuctionNotOpen");
+    });
+
+    it("keeps bids separate per auction", async function () {
+      const first = await createAuction(auctionSeal, signers.seller);
+      const second = await createAuction(auctionSeal, signers.seller);
+      await submitBid(signers.alice, first, 10);
+      await submitBid(signers.bob, second, 20);
+      await submitBid(signers.carol, second, 30);
+
+      expect(await auctionSeal.bidCount(first)).to.eq(1);
+      expect(await auctionSeal.bidCount(second)).to.eq(2);
+      expect((await auctionSeal.bids(first, 0)).bidder).to.eq(
+        signers.alice.address,
+      );
+      expect((await auctionSeal.bids(second, 1)).bidder).to.eq(
+        signers.carol.address,
+      );
+    });
+  });
+
+  describe("schedule", function () {
+    it("opens immediately when the start is in the past", async function () {
+      const endTime = (await time.latest()) + ONE_DAY;
+      await auctionSeal
+        .connect(signers.seller)
+        .createAuction(
+          "Lot",
+          "A lot",
+          FIRST_PRICE,
+          TIE_LATEST,
+          1,
+          1,
+          endTime,
+          NO_DEPOSIT,
+          NO_ITEM,
+          NO_SCHEDULE,
+          PROVIDERS_ONLY,
+          ...(await encryptReserve(signers.seller, 0)),
+        );
+
+      const auction = await auctionSeal.auctions(1);
+      expect(auction.startTime).to.eq(await time.latest());
+      await submitBid(signers.alice, 1n, 10);
+    });
+
+    it("rejects an end time that is not after the start", async function () {
+      const now = await time.latest();
+      const reserve = await encryptReserve(signers.seller, 0);
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .createAuction(
+            "Lot",
+            "A lot",
+            FIRST_PRICE,
+            TIE_LATEST,
+            1,
+            now + 100,
+            now + 100,
+            NO_DEPOSIT,
+            NO_ITEM,
+            NO_SCHEDULE,
+            PROVIDERS_ONLY,
+            ...reserve,
+          ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidSchedule");
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .createAuction(
+            "Lot",
+            "A lot",
+            FIRST_PRICE,
+            TIE_LATEST,
+            1,
+            0,
+            now,
+            NO_DEPOSIT,
+            NO_ITEM,
+            NO_SCHEDULE,
+            PROVIDERS_ONLY,
+            ...reserve,
+          ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidSchedule");
+    });
+
+    it("only accepts bids between start and end time", async function () {
+      const startTime = (await time.latest()) + 3600;
+      const endTime = startTime + ONE_DAY;
+      await auctionSeal
+        .connect(signers.seller)
+        .createAuction(
+          "Lot",
+          "A lot",
+          FIRST_PRICE,
+          TIE_LATEST,
+          1,
+          startTime,
+          endTime,
+          NO_DEPOSIT,
+          NO_ITEM,
+          NO_SCHEDULE,
+          PROVIDERS_ONLY,
+          ...(await encryptReserve(signers.seller, 0)),
+        );
+
+      await expect(
+        simulateBid(signers.alice, 1n, 10),
+      ).to.be.revertedWithCustomError(auctionSeal, "AuctionNotStarted");
+
+      await time.setNextBlockTimestamp(startTime);
+      await submitBid(signers.alice, 1n, 10);
+
+      await time.setNextBlockTimestamp(endTime - 1);
+      await submitBid(signers.bob, 1n, 20);
+
+      await time.increaseTo(endTime);
+      await expect(
+        simulateBid(signers.carol, 1n, 30),
+      ).to.be.revertedWithCustomError(auctionSeal, "AuctionNotOpen");
+      expect(await auctionSeal.bidCount(1)).to.eq(2);
+    });
+  });
+
+  describe("submitBid", function () {
+    let auctionId: bigint;
+
+    beforeEach(async function () {
+      auctionId = await createAuction(auctionSeal, signers.seller);
+    });
+
+    it("stores the encrypted bid and lets the bidder decrypt it", async function () {
+      await expect(submitBid(signers.alice, auctionId, 1234)).to.emit(
+        auctionSeal,
+        "BidSubmitted",
+      );
+
+      const bid = await auctionSeal.bids(auctionId, 0);
+      expect(bid.bidder).to.eq(signers.alice.address);
+      const clear = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        bid.encryptedBidAmount,
+        auctionSealAddress,
+        signers.alice,
+      );
+      expect(clear).to.eq(1234);
+    });
+
+    it("does not let other bidders decrypt the bid", async function () {
+      await submitBid(signers.alice, auctionId, 1234);
+      const bid = await auctionSeal.bids(auctionId, 0);
+
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          bid.encryptedBidAmount,
+          auctionSealAddress,
+          signers.bob,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("rejects an input proof made for another sender", async function () {
+      const input = await fhevm
+        .createEncryptedInput(auctionSealAddress, signers.bob.address)
+        .add32(10)
+        .encrypt();
+      await expect(
+        auctionSeal
+          .connect(signers.alice)
+          .submitBid(auctionId, input.handles[0], input.inputProof),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("settlement", function () {
+    let auctionId: bigint;
+
+    beforeEach(async function () {
+      auctionId = await createAuction(auctionSeal, signers.seller);
+      await submitBid(signers.alice, auctionId, 100);
+      await submitBid(signers.bob, auctionId, 250);
+      await submitBid(signers.carol, auctionId, 175);
+      await auctionSeal.connect(signers.seller).closeAuction(auctionId);
+    });
+
+    it("reveals the highest bid and its bidder", async function () {
+      const requestId = await requestSettlement(auctionId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [settled] = await auctionSeal.queryFilter(
+        auctionSeal.filters.AuctionSettled(),
+      );
+      expect(settled.args.requestId).to.eq(requestId);
+      expect(settled.args.auctionId).to.eq(auctionId);
+      expect(settled.args.reserveMet).to.eq(true);
+      expect(settled.args.winner).to.eq(signers.bob.address);
+      expect(settled.args.clearingPrice).to.eq(250);
+
+      const context = await auctionSeal.decryptionContexts(requestId);
+      expect(context.processed).to.eq(true);
+      const result = await auctionSeal.auctions(auctionId);
+      expect(result.settled).to.eq(true);
+      expect(result.reserveMet).to.eq(true);
+      expect(result.winner).to.eq(signers.bob.address);
+      expect(result.clearingPrice).to.eq(250);
+    });
+
+    it("settles auctions independently", async function () {
+      const other = await createAuction(auctionSeal, signers.seller);
+      await time.increase(60);
+      await submitBid(signers.alice, other, 40);
+
+      await requestSettlement(other);
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await auctionSeal.auctions(other)).winner).to.eq(
+        signers.alice.address,
+      );
+      expect((await auctionSeal.auctions(auctionId)).settled).to.eq(false);
+    });
+
+    it("reveals neither bid nor bidder below the reserve", async function () {
+      const reserved = await createAuction(auctionSeal, signers.seller, {
+        reservePrice: 300,
+      });
+      await time.increase(60);
+      await submitBid(signers.alice, reserved, 299);
+      await submitBid(signers.bob, reserved, 120);
+
+      await requestSettlement(reserved);
+      await fhevm.awaitDecryptionOracle();
+
+      const result = await auctionSeal.auctions(reserved);
+      expect(result.settled).to.eq(true);
+      expect(result.reserveMet).to.eq(false);
+      expect(result.winner).to.eq(ethers.ZeroAddress);
+      expect(result.clearingPrice).to.eq(0);
+    });
+
+    it("sells when the highest bid equals the reserve", async function () {
+      const reserved = await createAuction(auctionSeal, signers.seller, {
+        reservePrice: 300,
+      });
+      await time.increase(60);
+      await submitBid(signers.alice, reserved, 300);
+
+      await requestSettlement(reserved);
+      await fhevm.awaitDecryptionOracle();
+
+      const result = await auctionSeal.auctions(reserved);
+      expect(result.reserveMet).to.eq(true);
+      expect(result.winner).to.eq(signers.alice.address);
+      expect(result.clearingPrice).to.eq(300);
+    });
+
+    it("lets the owner request settlement", async function () {
+      await expect(requestSettlement(auctionId, signers.deployer)).not.to.be
+        .reverted;
+    });
+
+    it("requires bids to settle", async function () {
+      const empty = await createAuction(auctionSeal, signers.seller);
+      await expect(
+        auctionSeal.connect(signers.seller).findHighestBidder(empty),
+      ).to.be.revertedWithCustomError(auctionSeal, "NoBids");
+    });
+
+    it("does not settle an auction twice", async function () {
+      await requestSettlement(auctionId);
+      await fhevm.awaitDecryptionOracle();
+
+      await time.increase(60);
+      await expect(
+        auctionSeal.connect(signers.seller).findHighestBidder(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "AuctionAlreadySettled");
+    });
+
+    it("rejects a replayed callback", async function () {
+      const requestId = await requestSettlement(auctionId);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        auctionSeal.myCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(auctionSeal, "ReplayAttempt");
+    });
+
+    it("closes bidding once settlement is requested", async function () {
+      const open = await createAuction(auctionSeal, signers.seller);
+      await time.increase(60);
+      await submitBid(signers.deployer, open, 10);
+      await expect(auctionSeal.connect(signers.seller).findHighestBidder(open))
+        .to.emit(auctionSeal, "AuctionClosed")
+        .withArgs(open);
+
+      await expect(
+        simulateBid(signers.alice, open, 500),
+      ).to.be.revertedWithCustomError(auctionSeal, "AuctionNotOpen");
+      await fhevm.awaitDecryptionOracle();
+      expect((await auctionSeal.auctions(open)).winner).to.eq(
+        signers.deployer.address,
+      );
+    });
+
+    it("stores the handles it requested decryption for", async function () {
+      const requestId = await requestSettlement(auctionId);
+      const handles = await auctionSeal.decryptionHandles(requestId);
+      expect(handles.length).to.eq(3);
+      const context = await auctionSeal.decryptionContexts(requestId);
+      expect(context.bidCount).to.eq(3);
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, handles[1]),
+      ).to.eq(250);
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("rejects cleartexts that do not match the requested handles", async function () {
+      const requestId = await requestSettlement(auctionId);
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["bool", "uint32"],
+        [true, 1],
+      );
+
+      await expect(
+        auctionSeal.myCallback(requestId, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(auctionSeal, "DecryptionFailed");
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("rejects a callback with an invalid proof", async function () {
+      const requestId = await requestSettlement(auctionId);
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["bool", "uint32", "address"],
+        [true, 1, signers.alice.address],
+      );
+
+      await expect(
+        auctionSeal.myCallback(requestId, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidProof");
+    });
+
+    it("only lets the contract call verifyDecryption", async function () {
+      const requestId = await requestSettlement(auctionId);
+      await expect(
+        auctionSeal.verifyDecryption(requestId, "0x", "0x"),
+      ).to.be.revertedWith("Only self");
+    });
+  });
+
+  describe("second-price mode", function () {
+    async function vickrey(bidAmounts: number[], reservePrice = 0) {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        reservePrice,
+        auctionType: SECOND_PRICE,
+      });
+      const bidders = [
+        signers.alice,
+        signers.bob,
+        signers.carol,
+        signers.deployer,
+      ];
+      for (let i = 0; i < bidAmounts.length; i++) {
+        await submitBid(bidders[i], auctionId, bidAmounts[i]);
+      }
+      return settle(auctionId);
+    }
+
+    it("charges the winner the second-highest bid", async function () {
+      const result = await vickrey([100, 250, 175]);
+      expect(result.reserveMet).to.eq(true);
+      expect(result.winner).to.eq(signers.bob.address);
+      expect(result.clearingPrice).to.eq(175);
+    });
+
+    it("keeps the displaced leader as the second price", async function () {
+      const result = await vickrey([300, 100, 500, 200]);
+      expect(result.winner).to.eq(signers.carol.address);
+      expect(result.clearingPrice).to.eq(300);
+    });
+
+    it("charges the reserve when it is above the second bid", async function () {
+      const result = await vickrey([250, 100], 200);
+      expect(result.winner).to.eq(signers.alice.address);
+      expect(result.clearingPrice).to.eq(200);
+    });
+
+    it("charges the reserve for a single bid", async function () {
+      const result = await vickrey([90], 40);
+      expect(result.winner).to.eq(signers.alice.address);
+      expect(result.clearingPrice).to.eq(40);
+    });
+
+    it("charges the tied amount when the top bids are equal", async function () {
+      const result = await vickrey([200, 200, 100]);
+      expect(result.clearingPrice).to.eq(200);
+    });
+
+    it("reveals nothing below the reserve", async function () {
+      const result = await vickrey([150, 120], 200);
+      expect(result.reserveMet).to.eq(false);
+      expect(result.winner).to.eq(ethers.ZeroAddress);
+      expect(result.clearingPrice).to.eq(0);
+    });
+  });
+
+  describe("uniform-price mode", function () {
+    async function uniform(
+      quantity: number,
+      unitBids: [price: number, units: number][],
+      reservePrice = 0,
+      tieBreak = TIE_LATEST,
+    ) {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        reservePrice,
+        auctionType: UNIFORM_PRICE,
+        quantity,
+        tieBreak,
+      });
+      const bidders = [signers.alice, signers.bob, signers.carol];
+      for (let i = 0; i < unitBids.length; i++) {
+        await submitMultiUnitBid(bidders[i], auctionId, ...unitBids[i]);
+      }
+      const auction = await settle(auctionId);
+      const allocations = [];
+      for (let i = 0; i < unitBids.length; i++) {
+        allocations.push((await auctionSeal.bids(auctionId, i)).allocation);
+      }
+      return { auctionId, auction, allocations };
+    }
+
+    it("validates the quantity on offer", async function () {
+      const reserve = await encryptReserve(signers.seller, 0);
+      const endTime = (await time.latest()) + ONE_DAY;
+      const create = auctionSeal.connect(signers.seller).createAuction
+        .staticCall;
+
+      await expect(
+        create(
+          "Lot",
+          "A lot",
+          UNIFORM_PRICE,
+          TIE_LATEST,
+          0,
+          0,
+          endTime,
+          NO_DEPOSIT,
+          NO_ITEM,
+          NO_SCHEDULE,
+          PROVIDERS_ONLY,
+          ...reserve,
+        ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidQuantity");
+      await expect(
+        create(
+          "Lot",
+          "A lot",
+          UNIFORM_PRICE,
+          TIE_LATEST,
+          1_000_001,
+          0,
+          endTime,
+          NO_DEPOSIT,
+          NO_ITEM,
+          NO_SCHEDULE,
+          PROVIDERS_ONLY,
+          ...reserve,
+        ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidQuantity");
+      await expect(
+        create(
+          "Lot",
+          "A lot",
+          FIRST_PRICE,
+          TIE_LATEST,
+          2,
+          0,
+          endTime,
+          NO_DEPOSIT,
+          NO_ITEM,
+          NO_SCHEDULE,
+          PROVIDERS_ONLY,
+          ...reserve,
+        ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidQuantity");
+    });
+
+    it("only takes multi-unit bids on uniform-price auctions", async function () {
+      const single = await createAuction(auctionSeal, signers.seller);
+      const multi = await createAuction(auctionSeal, signers.seller, {
+        auctionType: UNIFORM_PRICE,
+        quantity: 5,
+      });
+      await time.increase(60);
+
+      await expect(
+        auctionSeal
+          .connect(signers.alice)
+          .submitMultiUnitBid.staticCall(
+            single,
+            ...(await encryptMultiUnitBid(signers.alice, 10, 1)),
+          ),
+      ).to.be.revertedWithCustomError(auctionSeal, "WrongAuctionType");
+      await expect(
+        simulateBid(signers.alice, multi, 10),
+      ).to.be.revertedWithCustomError(auctionSeal, "WrongAuctionType");
+    });
+
+    it("caps the number of bids settlement can handle", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        auctionType: UNIFORM_PRICE,
+        quantity: 5,
+      });
+      const bidders = (await ethers.getSigners()).slice(5, 13);
+      for (const bidder of bidders) {
+        await auctionSeal.addProvider(bidder.address);
+      }
+      for (const bidder of bidders.slice(0, 7)) {
+        await submitMultiUnitBid(bidder, auctionId, 10, 1);
+      }
+
+      await expect(
+        auctionSeal
+          .connect(bidders[7])
+          .submitMultiUnitBid.staticCall(
+            auctionId,
+            ...(await encryptMultiUnitBid(bidders[7], 10, 1)),
+          ),
+      ).to.be.revertedWithCustomError(auctionSeal, "TooManyBids");
+      await settle(auctionId);
+    });
+
+    it("lets the bidder decrypt their quantity", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        auctionType: UNIFORM_PRICE,
+        quantity: 5,
+      });
+      await submitMultiUnitBid(signers.alice, auctionId, 40, 3);
+
+      const bid = await auctionSeal.bids(auctionId, 0);
+      const quantity = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        bid.encryptedQuantity,
+        auctionSealAddress,
+        signers.alice,
+      );
+      expect(quantity).to.eq(3);
+    });
+
+    it("fills the highest unit prices at the lowest accepted price", async function () {
+      const { auction, allocations } = await uniform(5, [
+        [100, 3],
+        [60, 4],
+        [80, 2],
+      ]);
+      expect(auction.reserveMet).to.eq(true);
+      expect(auction.winner).to.eq(ethers.ZeroAddress);
+      expect(auction.clearingPrice).to.eq(80);
+      expect(allocations).to.deep.eq([3n, 0n, 2n]);
+    });
+
+    it("partially fills the marginal bid", async function () {
+      const { auction, allocations } = await uniform(5, [
+        [100, 3],
+        [80, 4],
+      ]);
+      expect(auction.clearingPrice).to.eq(80);
+      expect(allocations).to.deep.eq([3n, 2n]);
+    });
+
+    it("announces each winner's allocation", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        auctionType: UNIFORM_PRICE,
+        quantity: 4,
+      });
+      await submitMultiUnitBid(signers.alice, auctionId, 30, 1);
+      await submitMultiUnitBid(signers.bob, auctionId, 20, 9);
+      await requestSettlement(auctionId);
+
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+      const logs = await auctionSeal.queryFilter(
+        auctionSeal.filters.UnitsAllocated(auctionId),
+        fromBlock,
+      );
+      expect(
+        logs.map((log) => [
+          log.args.bidder,
+          log.args.bidIndex,
+          log.args.quantity,
+        ]),
+      ).to.deep.eq([
+        [signers.alice.address, 0n, 1n],
+        [signers.bob.address, 1n, 3n],
+      ]);
+    });
+
+    it("gives nothing to bids below the reserve", async function () {
+      const { auction, allocations } = await uniform(
+        10,
+        [
+          [100, 2],
+          [60, 4],
+          [80, 3],
+        ],
+        70,
+      );
+      expect(auction.clearingPrice).to.eq(80);
+      expect(allocations).to.deep.eq([2n, 0n, 3n]);
+    });
+
+    it("serves the later of two equal bids first", async function () {
+      const { auction, allocations } = await uniform(3, [
+        [50, 2],
+        [50, 2],
+      ]);
+      expect(auction.clearingPrice).to.eq(50);
+      expect(allocations).to.deep.eq([1n, 2n]);
+    });
+
+    it("serves the earlier of two equal bids first when configured", async function () {
+      const { allocations } = await uniform(
+        3,
+        [
+          [50, 2],
+          [50, 2],
+        ],
+        0,
+        TIE_EARLIEST,
+      );
+      expect(allocations).to.deep.eq([2n, 1n]);
+    });
+
+    it("sells nothing when every bid is below the reserve", async function () {
+      const { auction, allocations } = await uniform(
+        5,
+        [
+          [100, 3],
+          [80, 4],
+        ],
+        150,
+      );
+      expect(auction.settled).to.eq(true);
+      expect(auction.reserveMet).to.eq(false);
+      expect(auction.clearingPrice).to.eq(0);
+      expect(allocations).to.deep.eq([0n, 0n]);
+    });
+  });
+
+  describe("escrow", function () {
+    const FINNEY = ethers.parseEther("0.001");
+    const DEPOSIT = ethers.parseEther("0.1");
+    const ETH_TERMS: PaymentTerms = {
+      token: ethers.ZeroAddress,
+      priceUnit: FINNEY,
+      deposit: DEPOSIT,
+      confidential: false,
+    };
+    const PAYMENT_PERIOD = 7 * ONE_DAY;
+
+    // alice bids 100 and bob 250, so bob owes 250 finney against his 100 finney deposit
+    async function settledWithDeposits(terms = ETH_TERMS) {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        payment: terms,
+      });
+      await submitBid(signers.alice, auctionId, 100, terms.deposit);
+      await submitBid(signers.bob, auctionId, 250, terms.deposit);
+      await settle(auctionId);
+      return auctionId;
+    }
+
+    it("validates the payment terms", async function () {
+      const reserve = await encryptReserve(signers.seller, 0);
+      const endTime = (await time.latest()) + ONE_DAY;
+      const create = auctionSeal.connect(signers.seller).createAuction
+        .staticCall;
+
+      await expect(
+        create(
+          "Lot",
+          "A lot",
+          FIRST_PRICE,
+          TIE_LATEST,
+          1,
+          0,
+          endTime,
+          { ...ETH_TERMS, priceUnit: 0n },
+          NO_ITEM,
+          NO_SCHEDULE,
+          PROVIDERS_ONLY,
+          ...reserve,
+        ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidPaymentTerms");
+      await expect(
+        create(
+          "Lot",
+          "A lot",
+          FIRST_PRICE,
+          TIE_LATEST,
+          1,
+          0,
+          endTime,
+          { ...ETH_TERMS, token: signers.carol.address },
+          NO_ITEM,
+          NO_SCHEDULE,
+          PROVIDERS_ONLY,
+          ...reserve,
+        ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidPaymentTerms");
+    });
+
+    it("locks the deposit with every bid", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        payment: ETH_TERMS,
+      });
+      await expect(
+        simulateBid(signers.alice, auctionId, 100),
+      ).to.be.revertedWithCustomError(auctionSeal, "IncorrectPayment");
+
+      await expect(
+        submitBid(signers.alice, auctionId, 100, DEPOSIT),
+      ).to.changeEtherBalances(
+        [signers.alice, auctionSeal],
+        [-DEPOSIT, DEPOSIT],
+      );
+      await time.increase(60);
+      await submitBid(signers.alice, auctionId, 120, DEPOSIT);
+
+      expect(
+        (await auctionSeal.escrows(auctionId, signers.alice.address)).deposit,
+      ).to.eq(2n * DEPOSIT);
+    });
+
+    it("collects the winner's payment for the creator", async function () {
+      const auctionId = await settledWithDeposits();
+      const due = 250n * FINNEY;
+      expect(await auctionSeal.amountDue(auctionId, signers.bob.address)).to.eq(
+        due,
+      );
+
+      await expect(
+        auctionSeal.connect(signers.bob).payAndClaim.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "IncorrectPayment");
+      await expect(
+        auctionSeal
+          .connect(signers.bob)
+          .payAndClaim(auctionId, { value: due - DEPOSIT }),
+      )
+        .to.emit(auctionSeal, "PaymentMade")
+        .withArgs(auctionId, signers.bob.address, due);
+      expect(await auctionSeal.proceeds(auctionId)).to.eq(due);
+
+      await expect(
+        auctionSeal.connect(signers.seller).withdrawProceeds(auctionId),
+      ).to.changeEtherBalances([signers.seller, auctionSeal], [due, -due]);
+    });
+
+    it("sends back a deposit larger than the price", async function () {
+      const auctionId = await settledWithDeposits({
+        ...ETH_TERMS,
+        deposit: ethers.parseEther("1"),
+      });
+
+      await expect(
+        auctionSeal.connect(signers.bob).payAndClaim(auctionId),
+      ).to.changeEtherBalances(
+        [signers.bob, auctionSeal],
+        [ethers.parseEther("0.75"), -ethers.parseEther("0.75")],
+      );
+    });
+
+    it("refunds the losers", async function () {
+      const auctionId = await settledWithDeposits();
+
+      const tx = auctionSeal.connect(signers.alice).withdrawRefund(auctionId);
+      await expect(tx).to.changeEtherBalance(signers.alice, DEPOSIT);
+      await expect(tx)
+        .to.emit(auctionSeal, "RefundWithdrawn")
+        .withArgs(auctionId, signers.alice.address, DEPOSIT);
+      await expect(
+        auctionSeal.connect(signers.alice).withdrawRefund.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+    });
+
+    it("refunds everyone when the reserve is not met", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        reservePrice: 500,
+        payment: ETH_TERMS,
+      });
+      await submitBid(signers.alice, auctionId, 100, DEPOSIT);
+      await settle(auctionId);
+
+      await expect(
+        auctionSeal.connect(signers.alice).withdrawRefund(auctionId),
+      ).to.changeEtherBalance(signers.alice, DEPOSIT);
+    });
+
+    it("rejects claims that do not apply", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        payment: ETH_TERMS,
+      });
+      await submitBid(signers.alice, auctionId, 100, DEPOSIT);
+      await expect(
+        auctionSeal.connect(signers.alice).withdrawRefund.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+
+      await settle(auctionId);
+      await expect(
+        auctionSeal.connect(signers.alice).withdrawRefund.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+      await expect(
+        auctionSeal.connect(signers.bob).payAndClaim.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .withdrawProceeds.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+
+      await auctionSeal.connect(signers.alice).payAndClaim(auctionId);
+      await expect(
+        auctionSeal.connect(signers.alice).payAndClaim.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+    });
+
+    it("lets the creator keep an unpaid winner's deposit", async function () {
+      const auctionId = await settledWithDeposits();
+      const forfeit = auctionSeal.connect(signers.seller).forfeitDeposit;
+
+      await expect(
+        forfeit.staticCall(auctionId, signers.bob.address),
+      ).to.be.revertedWithCustomError(auctionSeal, "PaymentPeriodActive");
+      await expect(
+        forfeit.staticCall(auctionId, signers.alice.address),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+
+      await time.increase(PAYMENT_PERIOD);
+      await expect(
+        auctionSeal
+          .connect(signers.bob)
+          .payAndClaim.staticCall(auctionId, { value: 150n * FINNEY }),
+      ).to.be.revertedWithCustomError(auctionSeal, "PaymentPeriodOver");
+      await expect(forfeit(auctionId, signers.bob.address))
+        .to.emit(auctionSeal, "DepositForfeited")
+        .withArgs(auctionId, signers.bob.address, DEPOSIT);
+      expect(await auctionSeal.proceeds(auctionId)).to.eq(DEPOSIT);
+    });
+
+    it("escrows an ERC-20 for every winner of a uniform-price auction", async function () {
+      const token = (await (
+        (await ethers.getContractFactory("MockERC20")) as MockERC20__factory
+      ).deploy()) as MockERC20;
+      const unit = ethers.parseUnits("1", 18);
+      const terms: PaymentTerms = {
+        token: await token.getAddress(),
+        priceUnit: unit,
+        deposit: 5n * unit,
+        confidential: false,
+      };
+      for (const bidder of [signers.alice, signers.bob]) {
+        await token.mint(bidder.address, 100n * unit);
+        await token.connect(bidder).approve(auctionSealAddress, 100n * unit);
+      }
+
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        auctionType: UNIFORM_PRICE,
+        quantity: 3,
+        payment: terms,
+      });
+      await submitMultiUnitBid(signers.alice, auctionId, 10, 2);
+      await submitMultiUnitBid(signers.bob, auctionId, 8, 2);
+      expect(await token.balanceOf(auctionSealAddress)).to.eq(10n * unit);
+      await settle(auctionId);
+
+      // Both pay the clearing price of 8: alice for 2 units, bob for 1
+      await expect(
+        auctionSeal.connect(signers.alice).payAndClaim(auctionId),
+      ).to.changeTokenBalance(token, signers.alice, -11n * unit);
+      await expect(
+        auctionSeal.connect(signers.bob).payAndClaim(auctionId),
+      ).to.changeTokenBalance(token, signers.bob, -3n * unit);
+      await expect(
+        auctionSeal.connect(signers.seller).withdrawProceeds(auctionId),
+      ).to.changeTokenBalance(token, signers.seller, 24n * unit);
+    });
+  });
+
+  describe("confidential payments", function () {
+    let token: ConfidentialToken;
+    let tokenAddress: string;
+    let terms: PaymentTerms;
+
+    beforeEach(async function () {
+      token = (await (
+        (await ethers.getContractFactory(
+          "ConfidentialToken",
+        )) as ConfidentialToken__factory
+      ).deploy("Confidential USD", "cUSD")) as ConfidentialToken;
+      tokenAddress = await token.getAddress();
+      terms = {
+        token: tokenAddress,
+        priceUnit: 1000n,
+        deposit: 0n,
+        confidential: true,
+      };
+
+      for (const bidder of [signers.alice, signers.bob]) {
+        await token.mint(bidder.address, 1_000_000);
+        await approve(bidder, 1_000_000);
+      }
+    });
+
+    async function approve(owner: HardhatEthersSigner, amount: number) {
+      const input = await fhevm
+        .createEncryptedInput(tokenAddress, owner.address)
+        .add64(amount)
+        .encrypt();
+      await token
+        .connect(owner)
+        .approve(auctionSealAddress, input.handles[0], input.inputProof);
+    }
+
+    async function balanceOf(account: HardhatEthersSigner) {
+      return fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await token.balanceOf(account.address),
+        tokenAddress,
+        account,
+      );
+    }
+
+    it("validates confidential payment terms", async function () {
+      const reserve = await encryptReserve(signers.seller, 0);
+      const endTime = (await time.latest()) + ONE_DAY;
+      const create = auctionSeal.connect(signers.seller).createAuction
+        .staticCall;
+
+      for (const invalid of [
+        { ...terms, token: ethers.ZeroAddress },
+        { ...terms, deposit: 1n },
+        { ...terms, priceUnit: 2n ** 64n },
+      ]) {
+        await expect(
+          create(
+            "Lot",
+            "A lot",
+            FIRST_PRICE,
+            TIE_LATEST,
+            1,
+            0,
+            endTime,
+            invalid,
+            NO_ITEM,
+            NO_SCHEDULE,
+            PROVIDERS_ONLY,
+            ...reserve,
+          ),
+        ).to.be.revertedWithCustomError(auctionSeal, "InvalidPaymentTerms");
+      }
+    });
+
+    it("escrows each bid's price and settles without revealing balances", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        payment: terms,
+      });
+      await submitBid(signers.alice, auctionId, 100);
+      await submitBid(signers.bob, auctionId, 250);
+      expect(await balanceOf(signers.alice)).to.eq(900_000n);
+      expect(await balanceOf(signers.bob)).to.eq(750_000n);
+
+      const settled = await settle(auctionId);
+      expect(settled.winner).to.eq(signers.bob.address);
+
+      await expect(auctionSeal.connect(signers.bob).payAndClaim(auctionId))
+        .to.emit(auctionSeal, "PaymentMade")
+        .withArgs(auctionId, signers.bob.address, 250_000n);
+      await auctionSeal.connect(signers.alice).withdrawRefund(auctionId);
+      await auctionSeal.connect(signers.seller).withdrawProceeds(auctionId);
+
+      expect(await balanceOf(signers.alice)).to.eq(1_000_000n);
+      expect(await balanceOf(signers.bob)).to.eq(750_000n);
+      expect(await balanceOf(signers.seller)).to.eq(250_000n);
+      await expect(
+        auctionSeal.connect(signers.alice).withdrawRefund.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+    });
+
+    it("counts a bid the bidder cannot cover as zero", async function () {
+      await approve(signers.bob, 100_000);
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        payment: terms,
+      });
+      await submitBid(signers.alice, auctionId, 100);
+      await submitBid(signers.bob, auctionId, 250);
+      expect(await balanceOf(signers.bob)).to.eq(1_000_000n);
+
+      const settled = await settle(auctionId);
+      expect(settled.winner).to.eq(signers.alice.address);
+      expect(settled.clearingPrice).to.eq(100n);
+    });
+
+    it("returns the winner's change when the deposit is forfeited", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        auctionType: UNIFORM_PRICE,
+        quantity: 3,
+        payment: terms,
+      });
+      await submitMultiUnitBid(signers.alice, auctionId, 10, 2);
+      await submitMultiUnitBid(signers.bob, auctionId, 8, 2);
+      await settle(auctionId);
+      await auctionSeal.connect(signers.bob).payAndClaim(auctionId);
+
+      // alice escrowed 20_000 but owes 2 units at the clearing price of 8
+      await time.increase(7 * ONE_DAY);
+      await auctionSeal
+        .connect(signers.seller)
+        .forfeitDeposit(auctionId, signers.alice.address);
+      expect(await balanceOf(signers.alice)).to.eq(984_000n);
+      expect(await balanceOf(signers.bob)).to.eq(992_000n);
+      expect(await auctionSeal.proceeds(auctionId)).to.eq(24_000n);
+    });
+
+    it("lets a winner charged through forfeitDeposit collect the item", async function () {
+      const collection = (await (
+        (await ethers.getContractFactory("MockERC721")) as MockERC721__factory
+      ).deploy()) as MockERC721;
+      const item = { collection: await collection.getAddress(), tokenId: 7n };
+      await collection.mint(signers.seller.address, item.tokenId);
+      await collection
+        .connect(signers.seller)
+        .approve(auctionSealAddress, item.tokenId);
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        payment: terms,
+        item,
+      });
+      await submitBid(signers.alice, auctionId, 100);
+      await settle(auctionId);
+
+      await time.increase(7 * ONE_DAY);
+      await auctionSeal
+        .connect(signers.seller)
+        .forfeitDeposit(auctionId, signers.alice.address);
+      await expect(
+        auctionSeal.connect(signers.seller).reclaimItem.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+
+      await auctionSeal.connect(signers.alice).payAndClaim(auctionId);
+      expect(await collection.ownerOf(item.tokenId)).to.eq(
+        signers.alice.address,
+      );
+      expect(await balanceOf(signers.alice)).to.eq(900_000n);
+    });
+  });
+
+  describe("items", function () {
+    // An item is only sold against a deposit, here 10 wei per bid
+    const ITEM_TERMS: PaymentTerms = { ...NO_DEPOSIT, deposit: 10n };
+    let collection: MockERC721;
+    let item: Item;
+
+    beforeEach(async function () {
+      collection = (await (
+        (await ethers.getContractFactory("MockERC721")) as MockERC721__factory
+      ).deploy()) as MockERC721;
+      item = { collection: await collection.getAddress(), tokenId: 7n };
+      await collection.mint(signers.seller.address, item.tokenId);
+      await collection
+        .connect(signers.seller)
+        .approve(auctionSealAddress, item.tokenId);
+    });
+
+    async function createItemAuction(reservePrice = 0) {
+      return createAuction(auctionSeal, signers.seller, {
+        reservePrice,
+        auctionType: SECOND_PRICE,
+        payment: ITEM_TERMS,
+        item,
+      });
+    }
+
+    it("escrows the item on creation", async function () {
+      const auctionId = await createItemAuction();
+
+      expect(await collection.ownerOf(item.tokenId)).to.eq(auctionSealAddress);
+      const held = await auctionSeal.items(auctionId);
+      expect(held.collection).to.eq(item.collection);
+      expect(held.tokenId).to.eq(item.tokenId);
+    });
+
+    it("only sells items in single-unit auctions", async function () {
+      const endTime = (await time.latest()) + ONE_DAY;
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .createAuction.staticCall(
+            "Lot",
+            "A lot",
+            UNIFORM_PRICE,
+            TIE_LATEST,
+            2,
+            0,
+            endTime,
+            ITEM_TERMS,
+            item,
+            NO_SCHEDULE,
+            PROVIDERS_ONLY,
+            ...(await encryptReserve(signers.seller, 0)),
+          ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidItem");
+    });
+
+    it("only sells items against a deposit or a confidential payment", async function () {
+      const endTime = (await time.latest()) + ONE_DAY;
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .createAuction.staticCall(
+            "Lot",
+            "A lot",
+            FIRST_PRICE,
+            TIE_LATEST,
+            1,
+            0,
+            endTime,
+            NO_DEPOSIT,
+            item,
+            NO_SCHEDULE,
+            PROVIDERS_ONLY,
+            ...(await encryptReserve(signers.seller, 0)),
+          ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidItem");
+    });
+
+    it("holds the item until the winner pays for it", async function () {
+      const auctionId = await createItemAuction();
+      await submitBid(signers.alice, auctionId, 100, 10n);
+      await submitBid(signers.bob, auctionId, 250, 10n);
+      await settle(auctionId);
+      expect(await collection.ownerOf(item.tokenId)).to.eq(auctionSealAddress);
+
+      // bob pays alice's bid of 100, of which his deposit covers 10
+      await expect(
+        auctionSeal.connect(signers.bob).payAndClaim(auctionId, { value: 90n }),
+      )
+        .to.emit(auctionSeal, "ItemReleased")
+        .withArgs(auctionId, signers.bob.address);
+      expect(await collection.ownerOf(item.tokenId)).to.eq(signers.bob.address);
+      expect((await auctionSeal.items(auctionId)).collection).to.eq(
+        ethers.ZeroAddress,
+      );
+      await expect(
+        auctionSeal.connect(signers.seller).reclaimItem.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+    });
+
+    it("lets the creator reclaim the item when the reserve is not met", async function () {
+      const auctionId = await createItemAuction(500);
+      await submitBid(signers.alice, auctionId, 100, 10n);
+      await settle(auctionId);
+      expect(await collection.ownerOf(item.tokenId)).to.eq(auctionSealAddress);
+
+      await auctionSeal.connect(signers.seller).reclaimItem(auctionId);
+      expect(await collection.ownerOf(item.tokenId)).to.eq(
+        signers.seller.address,
+      );
+    });
+
+    it("lets the creator reclaim the item once an unpaid winner's period is over", async function () {
+      const auctionId = await createItemAuction();
+      await submitBid(signers.alice, auctionId, 100, 10n);
+      await settle(auctionId);
+
+      await expect(
+        auctionSeal.connect(signers.seller).reclaimItem.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "PaymentPeriodActive");
+
+      await time.increase(7 * ONE_DAY);
+      await auctionSeal.connect(signers.seller).reclaimItem(auctionId);
+      expect(await collection.ownerOf(item.tokenId)).to.eq(
+        signers.seller.address,
+      );
+      await expect(
+        auctionSeal
+          .connect(signers.alice)
+          .payAndClaim.staticCall(auctionId, { value: 0n }),
+      ).to.be.revertedWithCustomError(auctionSeal, "PaymentPeriodOver");
+      await auctionSeal
+        .connect(signers.seller)
+        .forfeitDeposit(auctionId, signers.alice.address);
+      expect(await auctionSeal.proceeds(auctionId)).to.eq(10n);
+    });
+
+    it("lets the creator reclaim the item of an auction that ended without bids", async function () {
+      const auctionId = await createItemAuction();
+      await expect(
+        auctionSeal.connect(signers.alice).reclaimItem.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotCreator");
+      await expect(
+        auctionSeal.connect(signers.seller).reclaimItem.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "AuctionStillOpen");
+
+      await time.increase(ONE_DAY);
+      await expect(auctionSeal.connect(signers.seller).reclaimItem(auctionId))
+        .to.emit(auctionSeal, "AuctionClosed")
+        .withArgs(auctionId)
+        .and.to.emit(auctionSeal, "ItemReleased")
+        .withArgs(auctionId, signers.seller.address);
+      expect(await collection.ownerOf(item.tokenId)).to.eq(
+        signers.seller.address,
+      );
+      expect((await auctionSeal.auctions(auctionId)).closed).to.eq(true);
+      await expect(
+        auctionSeal.connect(signers.seller).reclaimItem.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+    });
+
+    it("keeps the item for settlement once there are bids", async function () {
+      const auctionId = await createItemAuction();
+      await submitBid(signers.alice, auctionId, 100, 10n);
+
+      await expect(
+        auctionSeal.connect(signers.seller).reclaimItem.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "NothingToClaim");
+    });
+  });
+
+  describe("dutch mode", function () {
+    const ONE_HOUR = 3600;
+    // The ask falls from 100 by 10 an hour, down to 40
+    const SCHEDULE: DutchSchedule = {
+      startPrice: 100,
+      floorPrice: 40,
+      priceDrop: 10,
+      tickSeconds: ONE_HOUR,
+    };
+
+    async function createDutchAuction(reservePrice = 0, schedule = SCHEDULE) {
+      return createAuction(auctionSeal, signers.seller, {
+        reservePrice,
+        auctionType: DUTCH,
+        schedule,
+      });
+    }
+
+    it("validates the schedule", async function () {
+      const reserve = await encryptReserve(signers.seller, 0);
+      const endTime = (await time.latest()) + ONE_DAY;
+      const create = auctionSeal.connect(signers.seller).createAuction
+        .staticCall;
+
+      for (const invalid of [
+        { ...SCHEDULE, priceDrop: 0 },
+        { ...SCHEDULE, tickSeconds: 0 },
+        { ...SCHEDULE, floorPrice: 101 },
+      ]) {
+        await expect(
+          create(
+            "Lot",
+            "A lot",
+            DUTCH,
+            TIE_LATEST,
+            1,
+            0,
+            endTime,
+            NO_DEPOSIT,
+            NO_ITEM,
+            invalid,
+            PROVIDERS_ONLY,
+            ...reserve,
+          ),
+        ).to.be.revertedWithCustomError(auctionSeal, "InvalidSchedule");
+      }
+    });
+
+    it("computes the same price curve as the app", async function () {
+      const schedule = { ...SCHEDULE, priceDrop: 7, tickSeconds: 900 };
+      const auctionId = await createDutchAuction(0, schedule);
+      const { startTime } = await auctionSeal.auctions(auctionId);
+      const start = Number(startTime);
+
+      for (const offset of [-60, 0, 1, 899, 900, 901, 5000, 7200, 8100, 1e6]) {
+        expect(await auctionSeal.dutchPriceAt(auctionId, start + offset)).to.eq(
+          dutchPriceAt(schedule, start, start + offset),
+        );
+      }
+    });
+
+    it("keeps bidding open while nobody takes the ask", async function () {
+      const auctionId = await createDutchAuction();
+      await submitBid(signers.alice, auctionId, 75);
+
+      const requestId = await requestSettlement(auctionId);
+      await expect(fhevm.awaitDecryptionOracle()).to.not.be.rejected;
+      const auction = await auctionSeal.auctions(auctionId);
+      expect(auction.settled).to.eq(false);
+      expect(auction.closed).to.eq(false);
+      expect((await auctionSeal.decryptionContexts(requestId)).processed).to.eq(
+        true,
+      );
+      expect(await auctionSeal.dutchCheckPrice(auctionId)).to.eq(100);
+
+      await time.increase(3 * ONE_HOUR);
+      const settled = await settle(auctionId);
+      expect(settled.settled).to.eq(true);
+      expect(settled.winner).to.eq(signers.alice.address);
+      expect(settled.clearingPrice).to.eq(70);
+    });
+
+    it("leaves bids placed during a check to the next one", async function () {
+      const auctionId = await createDutchAuction();
+      await submitBid(signers.alice, auctionId, 75);
+      await requestSettlement(auctionId);
+      await submitBid(signers.bob, auctionId, 100);
+
+      await fhevm.awaitDecryptionOracle();
+      expect((await auctionSeal.auctions(auctionId)).settled).to.eq(false);
+
+      await time.increase(60);
+      const settled = await settle(auctionId);
+      expect(settled.winner).to.eq(signers.bob.address);
+      expect(settled.clearingPrice).to.eq(100);
+    });
+
+    it("sells to the highest limit at the current ask", async function () {
+      const auctionId = await createDutchAuction();
+      await submitBid(signers.alice, auctionId, 80);
+      await submitBid(signers.bob, auctionId, 90);
+      await time.increase(2 * ONE_HOUR);
+
+      const settled = await settle(auctionId);
+      expect(settled.reserveMet).to.eq(true);
+      expect(settled.winner).to.eq(signers.bob.address);
+      expect(settled.clearingPrice).to.eq(80);
+      expect(await auctionSeal.amountDue(auctionId, signers.bob.address)).to.eq(
+        80n,
+      );
+    });
+
+    it("settles unsold once it ended below the floor", async function () {
+      const auctionId = await createDutchAuction();
+      await submitBid(signers.alice, auctionId, 30);
+      await time.increase(2 * ONE_DAY);
+
+      const settled = await settle(auctionId);
+      expect(settled.settled).to.eq(true);
+      expect(settled.reserveMet).to.eq(false);
+      expect(await auctionSeal.dutchCheckPrice(auctionId)).to.eq(40);
+    });
+
+    it("still requires the encrypted reserve", async function () {
+      const auctionId = await createDutchAuction(70);
+      await submitBid(signers.alice, auctionId, 65);
+      await time.increase(4 * ONE_HOUR);
+
+      const settled = await settle(auctionId);
+      expect(settled.settled).to.eq(false);
+    });
+  });
+
+  describe("tie-breaking", function () {
+    async function tiedAuction(tieBreak: number) {
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        tieBreak,
+      });
+      await submitBid(signers.alice, auctionId, 100);
+      await submitBid(signers.bob, auctionId, 100);
+      await submitBid(signers.carol, auctionId, 60);
+      return auctionId;
+    }
+
+    it("gives a tie to the latest bid by default", async function () {
+      const settled = await settle(await tiedAuction(TIE_LATEST));
+      expect(settled.winner).to.eq(signers.bob.address);
+    });
+
+    it("can give a tie to the earliest bid", async function () {
+      const settled = await settle(await tiedAuction(TIE_EARLIEST));
+      expect(settled.winner).to.eq(signers.alice.address);
+      expect(settled.clearingPrice).to.eq(100);
+    });
+
+    it("breaks a tie by random ranks drawn at bid time", async function () {
+      const auctionId = await tiedAuction(TIE_RANDOM);
+      const ranks = [];
+      for (let i = 0; i < 2; i++) {
+        const handle = (await auctionSeal.bids(auctionId, i)).tieBreakRank;
+        expect(handle).to.not.eq(ethers.ZeroHash);
+        ranks.push(
+          await fhevm.debugger.decryptEuint(FhevmType.euint32, handle),
+        );
+      }
+
+      const settled = await settle(auctionId);
+      expect(settled.winner).to.eq(
+        ranks[1] > ranks[0] ? signers.bob.address : signers.alice.address,
+      );
+    });
+
+    it("leaves single-unit bids without a rank otherwise", async function () {
+      const auctionId = await tiedAuction(TIE_EARLIEST);
+      expect((await auctionSeal.bids(auctionId, 0)).tieBreakRank).to.eq(
+        ethers.ZeroHash,
+      );
+    });
+
+    it("rejects random tie-breaks for uniform-price auctions", async function () {
+      const endTime = (await time.latest()) + ONE_DAY;
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .createAuction.staticCall(
+            "Lot",
+            "A lot",
+            UNIFORM_PRICE,
+            TIE_RANDOM,
+            2,
+            0,
+            endTime,
+            NO_DEPOSIT,
+            NO_ITEM,
+            NO_SCHEDULE,
+            PROVIDERS_ONLY,
+            ...(await encryptReserve(signers.seller, 0)),
+          ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidTieBreak");
+    });
+  });
+
+  describe("chunked settlement", function () {
+    const AMOUNTS = [
+      12, 40, 7, 33, 58, 21, 9, 44, 58, 30, 3, 51, 17, 26, 49, 11, 35, 2, 57,
+      20,
+    ];
+
+    async function crowdedAuction(auctionType = SECOND_PRICE) {
+      await auctionSeal.setCooldownSeconds(1);
+      const auctionId = await createAuction(auctionSeal, signers.seller, {
+        auctionType,
+      });
+      const bidders = [signers.alice, signers.bob, signers.carol];
+      for (let i = 0; i < AMOUNTS.length; i++) {
+        await submitBid(bidders[i % 3], auctionId, AMOUNTS[i]);
+        await time.increase(1);
+      }
+      return auctionId;
+    }
+
+    it("folds bids into the running state chunk by chunk", async function () {
+      const auctionId = await crowdedAuction();
+      await expect(
+        auctionSeal.connect(signers.seller).processBids(auctionId, 8),
+      )
+        .to.emit(auctionSeal, "BidsProcessed")
+        .withArgs(auctionId, 8, AMOUNTS.length);
+      expect(
+        await auctionSeal
+          .connect(signers.seller)
+          .processBids.staticCall(auctionId, 8),
+      ).to.eq(AMOUNTS.length - 16);
+      await auctionSeal.connect(signers.seller).processBids(auctionId, 8);
+
+      const reduction = await auctionSeal.reductions(auctionId);
+      expect(reduction.processed).to.eq(16);
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, reduction.maxBid),
+      ).to.eq(58);
+    });
+
+    it("settles the same as folding every bid at once", async function () {
+      const auctionId = await crowdedAuction();
+      await auctionSeal.connect(signers.seller).processBids(auctionId, 5);
+
+      const settled = await settle(auctionId);
+      expect(settled.reserveMet).to.eq(true);
+      // The later of the two 58s wins and pays the other one
+      expect(settled.winner).to.eq(signers.carol.address);
+      expect(settled.clearingPrice).to.eq(58);
+      expect((await auctionSeal.reductions(auctionId)).processed).to.eq(
+        AMOUNTS.length,
+      );
+    });
+
+    it("caps a chunk at MAX_BIDS_PER_CHUNK", async function () {
+      const auctionId = await crowdedAuction();
+      const chunk = await auctionSeal.MAX_BIDS_PER_CHUNK();
+      expect(
+        await auctionSeal
+          .connect(signers.seller)
+          .processBids.staticCall(auctionId, 1000),
+      ).to.eq(BigInt(AMOUNTS.length) - chunk);
+    });
+
+    it("requires unprocessed bids to fit one chunk before settlement", async function () {
+      const auctionId = await crowdedAuction(FIRST_PRICE);
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .findHighestBidder.staticCall(auctionId),
+      ).to.be.revertedWithCustomError(auctionSeal, "BidsNotProcessed");
+
+      await auctionSeal.connect(signers.seller).processBids(auctionId, 4);
+      const settled = await settle(auctionId);
+      expect(settled.winner).to.eq(signers.carol.address);
+      expect(settled.clearingPrice).to.eq(58);
+    });
+
+    it("rejects uniform-price auctions and other callers", async function () {
+      const uniformId = await createAuction(auctionSeal, signers.seller, {
+        auctionType: UNIFORM_PRICE,
+        quantity: 2,
+      });
+      await submitMultiUnitBid(signers.alice, uniformId, 10, 1);
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .processBids.staticCall(uniformId, 4),
+      ).to.be.revertedWithCustomError(auctionSeal, "WrongAuctionType");
+
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+      await submitBid(signers.bob, auctionId, 10);
+      await expect(
+        auctionSeal.connect(signers.bob).processBids.staticCall(auctionId, 4),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotCreator");
+    });
+  });
+
+  describe("participation", function () {
+    let outsider: HardhatEthersSigner;
+
+    before(async function () {
+      outsider = (await ethers.getSigners())[5];
+    });
+
+    function rule(
+      participation: number,
+      overrides: Partial<ParticipationRule> = {},
+    ): ParticipationRule {
+      return { ...PROVIDERS_ONLY, participation, ...overrides };
+    }
+
+    async function createWithRule(participation: ParticipationRule) {
+      return createAuction(auctionSeal, signers.seller, {
+        rule: participation,
+      });
+    }
+
+    it("lets anyone bid on an open auction", async function () {
+      const auctionId = await createWithRule(rule(OPEN));
+      expect(await auctionSeal.canBid(auctionId, outsider.address)).to.eq(true);
+      await submitBid(outsider, auctionId, 40);
+      expect((await settle(auctionId)).winner).to.eq(outsider.address);
+    });
+
+    it("limits an allowlist auction to the accounts its creator listed", async function () {
+      const auctionId = await createWithRule(
+        rule(ALLOWLIST, { allowlist: [outsider.address] }),
+      );
+      await submitBid(outsider, auctionId, 40);
+      await expect(
+        simulateBid(signers.alice, auctionId, 50),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotEligible");
+
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .setAllowlist(auctionId, [signers.alice.address], true),
+      )
+        .to.emit(auctionSeal, "AllowlistUpdated")
+        .withArgs(auctionId, signers.alice.address, true);
+      await submitBid(signers.alice, auctionId, 50);
+
+      await auctionSeal
+        .connect(signers.seller)
+        .setAllowlist(auctionId, [signers.alice.address], false);
+      expect(await auctionSeal.canBid(auctionId, signers.alice.address)).to.eq(
+        false,
+      );
+      await expect(
+        auctionSeal
+          .connect(signers.alice)
+          .setAllowlist.staticCall(auctionId, [signers.bob.address], true),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotCreator");
+    });
+
+    it("admits accounts that prove they are in the Merkle tree", async function () {
+      const allowlist = buildMerkleAllowlist(
+        parseAddressCsv(
+          `address\n${outsider.address}\n${signers.bob.address}\n${signers.carol.address}\n`,
+        ),
+      );
+      const auctionId = await createWithRule(
+        rule(MERKLE, {
+          merkleRoot: allowlist.root,
+          proofsUri: "ipfs://allowlist",
+        }),
+      );
+      const [created] = await auctionSeal.queryFilter(
+        auctionSeal.filters.ParticipationSet(auctionId),
+      );
+      expect(created.args.merkleRoot).to.eq(allowlist.root);
+      expect(created.args.proofsUri).to.eq("ipfs://allowlist");
+
+      expect(await auctionSeal.canBid(auctionId, outsider.address)).to.eq(
+        false,
+      );
+      await expect(
+        auctionSeal
+          .connect(outsider)
+          .joinAuction.staticCall(
+            auctionId,
+            proofFor(allowlist, signers.bob.address)!,
+          ),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidMerkleProof");
+      await expect(
+        auctionSeal
+          .connect(outsider)
+          .joinAuction(auctionId, proofFor(allowlist, outsider.address)!),
+      )
+        .to.emit(auctionSeal, "AllowlistUpdated")
+        .withArgs(auctionId, outsider.address, true);
+      await submitBid(outsider, auctionId, 40);
+
+      expect(proofFor(allowlist, signers.alice.address)).to.eq(undefined);
+      await expect(
+        simulateBid(signers.alice, auctionId, 50),
+      ).to.be.revertedWithCustomError(auctionSeal, "NotEligible");
+    });
+
+    it("accepts a Merkle tree of a single address", async function () {
+      const allowlist = buildMerkleAllowlist([outsider.address]);
+      const auctionId = await createWithRule(
+        rule(MERKLE, { merkleRoot: allowlist.root }),
+      );
+      await auctionSeal.connect(outsider).joinAuction(auctionId, []);
+      expect(await auctionSeal.canBid(auctionId, outsider.address)).to.eq(true);
+    });
+
+    it("rejects inconsistent rules", async function () {
+      const endTime = (await time.latest()) + ONE_DAY;
+      for (const invalid of [
+        rule(MERKLE),
+        rule(OPEN, { merkleRoot: ethers.id("root") }),
+        rule(OPEN, { allowlist: [outsider.address] }),
+      ]) {
+        await expect(
+          auctionSeal
+            .connect(signers.seller)
+            .createAuction.staticCall(
+              "Lot",
+              "A lot",
+              FIRST_PRICE,
+              TIE_LATEST,
+              1,
+              0,
+              endTime,
+              NO_DEPOSIT,
+              NO_ITEM,
+              NO_SCHEDULE,
+              invalid,
+              ...(await encryptReserve(signers.seller, 0)),
+            ),
+        ).to.be.revertedWithCustomError(auctionSeal, "InvalidParticipation");
+      }
+
+      const openId = await createWithRule(rule(OPEN));
+      await expect(
+        auctionSeal
+          .connect(signers.seller)
+          .setAllowlist.staticCall(openId, [outsider.address], true),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidParticipation");
+      await expect(
+        auctionSeal.connect(outsider).joinAuction.staticCall(openId, []),
+      ).to.be.revertedWithCustomError(auctionSeal, "InvalidParticipation");
+    });
+  });
+
+  describe("error decoding", function () {
+    async function failure(call: Promise<unknown>) {
+      try {
+        await call;
+      } catch (e) {
+        return decodeContractError(e);
+      }
+      throw new Error("The call did not fail");
+    }
+
+    it("decodes custom errors with their arguments", async function () {
+      const auctionId = await createAuction(auctionSeal, signers.seller);
+      const notCreator = await failure(
+        auctionSeal.connect(signers.alice).closeAuction(auctionId),
+      );
+      expect(notCreator.kind).to.eq("contract");
+      expect(notCreator.code).to.eq("NotCreator");
+      expect(notCreator.message).to.eq(
+        "Only the auction's creator can do this",
+      );
+
+      const missingRole = await failure(
+        auctionSeal.connect(signers.alice).pause(),
+      );
+      expect(missingRole.code).to.eq("MissingRole");
+      expect(missingRole.args).to.deep.eq([await auctionSeal.PAUSER_ROLE()]);
+      expect(missingRole.message).to.eq("This needs the pauser role");
+    });
+
+    it("passes require messages through", async function () {
+      const error = await failure(auctionSeal.setCooldownSeconds(0));
+      expect(error.kind).to.eq("revert");
+      expect(error.message).to.eq("Cooldown must be positive");
+    });
+
+    it("maps wallet and RPC codes", function () {
+      expect(decodeContractError({ code: "ACTION_REJECTED" }).kind).to.eq(
+        "rejected",
+      );
+      const unknownChain = decodeContractError({
+        message: "Unrecognized chain",
+        error: { code: 4902 },
+      });
+      expect(unknownChain.kind).to.eq("wallet");
+      expect(unknownChain.code).to.eq(4902);
+      expect(decodeContractError(new Error("boom")).message).to.eq("boom");
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Log } from "ethers";
+import { watchContractLogs } from "../frontend/web/src/contractEvents";
+import { MockERC20 } from "../types";
+
+// The watcher is driven by sync() here; the poll interval is long enough that
+// no timer fires during a test.
+const NO_POLLING = { pollIntervalMs: 60_000 };
+
+describe("watchContractLogs", function () {
+  let token: MockERC20;
+  let address: string;
+  let fromBlock: number;
+  let batches: { logs: Log[]; toBlock: number }[];
+
+  const mint = async (amount: number) => {
+    const [deployer] = await ethers.getSigners();
+    await (await token.mint(deployer.address, amount)).wait();
+  };
+  const minted = () =>
+    batches.flatMap(({ logs }) =>
+      logs.map((log) => Number(token.interface.parseLog(log)!.args.value)),
+    );
+
+  beforeEach(async function () {
+    token = await ethers.deployContract("MockERC20");
+    address = await token.getAddress();
+    fromBlock = await ethers.provider.getBlockNumber();
+    batches = [];
+  });
+
+  it("delivers every new log once, in order", async function () {
+    const watcher = watchContractLogs(
+      ethers.provider,
+      address,
+      fromBlock,
+      (logs, toBlock) => {
+        batches.push({ logs, toBlock });
+      },
+      NO_POLLING,
+    );
+    await mint(1);
+    await mint(2);
+    await watcher.sync();
+    await mint(3);
+    await watcher.sync();
+    await watcher.sync();
+    watcher.stop();
+
+    expect(minted()).to.deep.eq([1, 2, 3]);
+    expect(batches.at(-1)!.toBlock).to.eq(
+      await ethers.provider.getBlockNumber(),
+    );
+  });
+
+  it("splits long catch-ups into block ranges", async function () {
+    for (let i = 1; i <= 5; i++) await mint(i);
+    const watcher = watchContractLogs(
+      ethers.provider,
+      address,
+      fromBlock,
+      (logs, toBlock) => {
+        batches.push({ logs, toBlock });
+      },
+      { ...NO_POLLING, maxBlockRange: 2 },
+    );
+    await watcher.sync();
+    watcher.stop();
+
+    expect(minted()).to.deep.eq([1, 2, 3, 4, 5]);
+    expect(batches.map((batch) => batch.toBlock)).to.deep.eq([
+      fromBlock + 2,
+      fromBlock + 4,
+      fromBlock + 5,
+    ]);
+  });
+
+  it("reads a batch again when handling it failed", async function () {
+    let failures = 1;
+    const watcher = watchContractLogs(
+      ethers.provider,
+      address,
+      fromBlock,
+      (logs, toBlock) => {
+        if (failures-- > 0) throw new Error("handler failed");
+        batches.push({ logs, toBlock });
+      },
+      NO_POLLING,
+    );
+    await mint(1);
+    await watcher.sync();
+    expect(batches).to.be.empty;
+    await watcher.sync();
+    watcher.stop();
+
+    expect(minted()).to.deep.eq([1]);
+  });
+
+  it("delivers nothing after stop", async function () {
+    const watcher = watchContractLogs(
+      ethers.provider,
+      address,
+      fromBlock,
+      (logs, toBlock) => {
+        batches.push({ logs, toBlock });
+      },
+      NO_POLLING,
+    );
+    await watcher.sync();
+    watcher.stop();
+    await mint(1);
+    await watcher.sync();
+
+    expect(batches).to.be.empty;
+  });
+});
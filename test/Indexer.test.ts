@@ -0,0 +1,260 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Filter, Provider } from "ethers";
+import { AddressInfo } from "net";
+import { ethers, fhevm, network } from "hardhat";
+import { createApiServer } from "../indexer/src/api";
+import { AuctionIndexer } from "../indexer/src/indexer";
+import { IndexStore } from "../indexer/src/store";
+import { AuctionSealFHE } from "../types";
+import { createAuction, deployAuctionSeal } from "./fixtures";
+
+describe("AuctionSealFHE indexer", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let auctionSeal: AuctionSealFHE;
+  let auctionSealAddress: string;
+  let store: IndexStore;
+  let indexer: AuctionIndexer;
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    [alice, bob, seller] = [signers[1], signers[2], signers[4]];
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ auctionSeal, auctionSealAddress } = await deployAuctionSeal());
+    await auctionSeal.addProvider(alice.address);
+    await auctionSeal.addProvider(bob.address);
+
+    store = new IndexStore(":memory:");
+    indexer = new AuctionIndexer(ethers.provider, store, {
+      address: auctionSealAddress,
+      startBlock: (await auctionSeal.deploymentTransaction()!.wait())!
+        .blockNumber,
+    });
+  });
+
+  afterEach(function () {
+    store?.close();
+  });
+
+  // The indexer keys auctions by number
+  async function createLot(title: string) {
+    return Number(
+      await createAuction(auctionSeal, seller, { title, reservePrice: 5 }),
+    );
+  }
+
+  async function bid(
+    bidder: HardhatEthersSigner,
+    auctionId: number,
+    amount: number,
+  ) {
+    const encrypted = await fhevm
+      .createEncryptedInput(auctionSealAddress, bidder.address)
+      .add32(amount)
+      .encrypt();
+    await auctionSeal
+      .connect(bidder)
+      .submitBid(auctionId, encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function settle(auctionId: number) {
+    await auctionSeal.connect(seller).findHighestBidder(auctionId);
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  it("indexes auctions, bids and settlements", async function () {
+    const auctionId = await createLot("Lot");
+    await bid(alice, auctionId, 10);
+    await bid(bob, auctionId, 20);
+    await settle(auctionId);
+
+    const synced = await indexer.sync();
+    expect(synced).to.eq(await ethers.provider.getBlockNumber());
+    expect(store.syncedBlock()).to.eq(synced);
+
+    const [auction] = store.auctions();
+    expect(auction).to.deep.include({
+      auctionId,
+      title: "Lot",
+      description: "A lot",
+      creator: seller.address,
+      closed: true,
+    });
+    expect(auction.payment).to.deep.eq({
+      token: ethers.ZeroAddress,
+      priceUnit: "1",
+      deposit: "0",
+      confidential: false,
+    });
+    expect(auction.bids.map((b) => [b.bidIndex, b.bidder])).to.deep.eq([
+      [0, alice.address.toLowerCase()],
+      [1, bob.address.toLowerCase()],
+    ]);
+    expect(auction.settlement).to.deep.include({
+      reserveMet: true,
+      winner: bob.address,
+      clearingPrice: "20",
+    });
+    expect(store.settlements()).to.have.length(1);
+
+    const history = store.bidderHistory(bob.address);
+    expect(history).to.have.length(1);
+    expect(history[0]).to.deep.include({
+      auctionId,
+      title: "Lot",
+      settled: true,
+      won: true,
+    });
+    expect(store.bidderHistory(alice.address)[0].won).to.eq(false);
+  });
+
+  it("picks up where the last sync stopped", async function () {
+    const first = await createLot("First");
+    await indexer.sync();
+    await bid(alice, first, 10);
+    await createLot("Second");
+    await indexer.sync();
+    await indexer.sync();
+
+    expect(store.auctions().map((a) => a.title)).to.deep.eq([
+      "Second",
+      "First",
+    ]);
+    expect(store.bids(first)).to.have.length(1);
+  });
+
+  it("rolls back blocks a reorg replaced", async function () {
+    const kept = await createLot("Kept");
+    const snapshot = await network.provider.send("evm_snapshot");
+    await createLot("Dropped");
+    await bid(alice, kept, 10);
+    await indexer.sync();
+    expect(store.auctions().map((a) => a.title)).to.deep.eq([
+      "Dropped",
+      "Kept",
+    ]);
+
+    // Reverting and mining other transactions gives the same heights new hashes
+    await network.provider.send("evm_revert", [snapshot]);
+    await createLot("Replacement");
+    await network.provider.send("evm_mine");
+    await network.provider.send("evm_mine");
+    await indexer.sync();
+
+    expect(store.auctions().map((a) => a.title)).to.deep.eq([
+      "Replacement",
+      "Kept",
+    ]);
+    expect(store.bids(kept)).to.be.empty;
+    const head = await ethers.provider.getBlock("latest");
+    expect(store.recentBlocks()[0]).to.deep.eq({
+      number: head!.number,
+      hash: head!.hash,
+    });
+  });
+
+  it("rolls back below the last synced block when a reorg lands mid-sync", async function () {
+    await createLot("Kept");
+    const snapshot = await network.provider.send("evm_snapshot");
+    await createLot("Dropped");
+    await indexer.sync();
+    await network.provider.send("evm_mine");
+
+    // The reorg replaces the synced blocks right after the second sync checked
+    // them, while it reads the new range
+    let reorged = false;
+    const provider = {
+      getBlockNumber: () => ethers.provider.getBlockNumber(),
+      getBlock: (block: number) => ethers.provider.getBlock(block),
+      getLogs: async (filter: Filter) => {
+        if (!reorged) {
+          reorged = true;
+          await network.provider.send("evm_revert", [snapshot]);
+          await createLot("Replacement");
+          await network.provider.send("evm_mine");
+          await network.provider.send("evm_mine");
+        }
+        return ethers.provider.getLogs(filter);
+      },
+    } as unknown as Provider;
+    const synced = await new AuctionIndexer(provider, store, {
+      address: auctionSealAddress,
+      startBlock: (await auctionSeal.deploymentTransaction()!.wait())!
+        .blockNumber,
+    }).sync();
+
+    expect(reorged).to.eq(true);
+    expect(synced).to.eq(await ethers.provider.getBlockNumber());
+    expect(store.auctions().map((a) => a.title)).to.deep.eq([
+      "Replacement",
+      "Kept",
+    ]);
+  });
+
+  it("refuses a database that indexes another contract", async function () {
+    store.useContract(auctionSealAddress, 31337);
+    store.useContract(auctionSealAddress.toLowerCase(), 31337);
+    expect(() => store.useContract(alice.address, 31337)).to.throw(
+      /^The database indexes/,
+    );
+  });
+
+  describe("API", function () {
+    let server: ReturnType<typeof createApiServer>;
+    let url: string;
+
+    beforeEach(async function () {
+      server = createApiServer(store);
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve),
+      );
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async function () {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const get = async (path: string) => {
+      const response = await fetch(url + path);
+      return { status: response.status, body: (await response.json()) as any };
+    };
+
+    it("serves auctions, bids, settlements and bidder history", async function () {
+      const auctionId = await createLot("Lot");
+      await bid(alice, auctionId, 10);
+      await bid(bob, auctionId, 20);
+      await settle(auctionId);
+      const synced = await indexer.sync();
+
+      expect(await get("/status")).to.deep.eq({
+        status: 200,
+        body: { blockNumber: synced },
+      });
+      const auctions = await get("/auctions");
+      expect(auctions.body.blockNumber).to.eq(synced);
+      expect(auctions.body.auctions).to.have.length(1);
+      expect((await get(`/auctions/${auctionId}`)).body.title).to.eq("Lot");
+      expect((await get(`/auctions/${auctionId}/bids`)).body).to.have.length(2);
+      expect((await get("/settlements")).body[0].winner).to.eq(bob.address);
+      const history = await get(`/bidders/${bob.address}/bids`);
+      expect(history.body[0]).to.deep.include({ auctionId, won: true });
+    });
+
+    it("answers 404 for unknown auctions and routes", async function () {
+      expect((await get("/auctions/7")).status).to.eq(404);
+      expect((await get("/auctions/7/bids")).status).to.eq(404);
+      expect((await get("/nothing")).status).to.eq(404);
+    });
+  });
+});
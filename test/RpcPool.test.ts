@@ -0,0 +1,253 @@
+import { expect } from "chai";
+import http from "http";
+import { ZeroAddress } from "ethers";
+import { AddressInfo } from "net";
+import { RpcPool } from "../frontend/web/src/rpcPool";
+
+// A JSON-RPC endpoint on localhost whose answers, latency and failures the tests
+// control. eth_blockNumber returns `block`, eth_call reverts when `revert` is set,
+// and eth_getLogs finds nothing. `requests` records what each call asked for.
+type StubServer = {
+  url: string;
+  calls: number;
+  requests: { method: string; params: any[] }[];
+  block: number;
+  delayMs: number;
+  status: number;
+  revert: boolean;
+  close: () => Promise<void>;
+};
+
+async function startStub(block = 100): Promise<StubServer> {
+  const stub = {
+    url: "",
+    calls: 0,
+    requests: [] as StubServer["requests"],
+    block,
+    delayMs: 0,
+    status: 200,
+    revert: false,
+  } as StubServer;
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      stub.calls++;
+      const { id, method, params } = JSON.parse(body);
+      stub.requests.push({ method, params });
+      setTimeout(() => {
+        if (stub.status !== 200) {
+          res.writeHead(stub.status).end();
+          return;
+        }
+        const response =
+          method === "eth_call" && stub.revert
+            ? { error: { code: 3, message: "execution reverted", data: "0x" } }
+            : {
+                result:
+                  method === "eth_chainId"
+                    ? "0x7a69"
+                    : method === "eth_getLogs"
+                      ? []
+                      : "0x" + stub.block.toString(16),
+              };
+        res
+          .writeHead(200, { "content-type": "application/json" })
+          .end(JSON.stringify({ jsonrpc: "2.0", id, ...response }));
+      }, stub.delayMs);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  stub.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  stub.close = () =>
+    new Promise<void>((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    });
+  return stub;
+}
+
+const blockNumber = (id = 1) => ({
+  jsonrpc: "2.0" as const,
+  id,
+  method: "eth_blockNumber",
+  params: [],
+});
+
+describe("RpcPool", function () {
+  let stubs: StubServer[];
+
+  beforeEach(async function () {
+    stubs = await Promise.all([startStub(), startStub(), startStub()]);
+  });
+
+  afterEach(async function () {
+    await Promise.all(stubs.map((stub) => stub.close()));
+  });
+
+  it("routes requests to the fastest endpoint", async function () {
+    stubs[0].delayMs = 80;
+    stubs[1].delayMs = 5;
+    stubs[2].delayMs = 40;
+    const pool = new RpcPool(
+      stubs.map((stub) => stub.url),
+      31337,
+    );
+    // The first requests try each untested endpoint in turn
+    for (let i = 0; i < 3; i++) await pool.send(blockNumber());
+    expect(stubs.map((stub) => stub.calls)).to.deep.eq([1, 1, 1]);
+
+    for (let i = 0; i < 5; i++) await pool.send(blockNumber());
+    expect(stubs.map((stub) => stub.calls)).to.deep.eq([1, 6, 1]);
+    expect(pool.ranked()[0].url).to.eq(stubs[1].url);
+  });
+
+  it("fails over when an endpoint goes down mid-session", async function () {
+    const pool = new RpcPool(
+      stubs.map((stub) => stub.url),
+      31337,
+      { cooldownMs: 60000 },
+    );
+    stubs[1].delayMs = 20;
+    stubs[2].delayMs = 40;
+    for (let i = 0; i < 3; i++) await pool.send(blockNumber());
+    expect(pool.ranked().map((endpoint) => endpoint.url)).to.deep.eq(
+      stubs.map((stub) => stub.url),
+    );
+
+    await stubs[0].close();
+    stubs[1].status = 503;
+    const response = await pool.send(blockNumber(2));
+    expect(response).to.deep.include({ id: 2, result: "0x64" });
+    const [down, unavailable, healthy] = pool.endpoints;
+    expect(down.failures).to.eq(1);
+    expect(unavailable.lastError).to.eq("HTTP 503");
+    expect(healthy.failures).to.eq(0);
+
+    // Failed endpoints sit out their cooldown instead of being retried first
+    expect(pool.ranked()[0].url).to.eq(stubs[2].url);
+    await pool.send(blockNumber());
+    expect(stubs[1].calls).to.eq(2);
+    expect(stubs[2].calls).to.eq(3);
+  });
+
+  it("times out slow endpoints", async function () {
+    stubs[0].delayMs = 500;
+    const pool = new RpcPool([stubs[0].url, stubs[1].url], 31337, {
+      timeoutMs: 100,
+    });
+    await pool.send(blockNumber());
+    expect(pool.endpoints[0].lastError).to.eq("Timed out after 100ms");
+    expect(pool.endpoints[0].errorRate).to.be.greaterThan(0);
+  });
+
+  it("passes reverts through without blaming the endpoint", async function () {
+    stubs[0].revert = true;
+    const pool = new RpcPool([stubs[0].url], 31337);
+    const response = await pool.send({
+      jsonrpc: "2.0",
+      id: 7,
+      method: "eth_call",
+      params: [],
+    });
+    expect(response).to.have.property("error");
+    expect(pool.endpoints[0].failures).to.eq(0);
+  });
+
+  it("throws once every endpoint failed", async function () {
+    for (const stub of stubs) stub.status = 500;
+    const pool = new RpcPool(
+      stubs.map((stub) => stub.url),
+      31337,
+    );
+    let message = "";
+    try {
+      await pool.send(blockNumber());
+    } catch (e: any) {
+      message = e.message;
+    }
+    expect(message).to.match(/^All RPC endpoints failed for eth_blockNumber/);
+  });
+
+  describe("quorum reads", function () {
+    it("returns the answer enough endpoints agree on", async function () {
+      stubs[0].block = 99;
+      const pool = new RpcPool(
+        stubs.map((stub) => stub.url),
+        31337,
+      );
+      const response = await pool.sendQuorum(blockNumber(), 2);
+      expect(response).to.deep.include({ result: "0x64" });
+      expect(stubs.map((stub) => stub.calls)).to.deep.eq([1, 1, 1]);
+    });
+
+    it("asks further endpoints when one fails", async function () {
+      stubs[1].status = 500;
+      const pool = new RpcPool(
+        stubs.map((stub) => stub.url),
+        31337,
+      );
+      const response = await pool.sendQuorum(blockNumber(), 2);
+      expect(response).to.deep.include({ result: "0x64" });
+    });
+
+    it("rejects when the endpoints disagree", async function () {
+      stubs[0].block = 98;
+      stubs[1].block = 99;
+      const pool = new RpcPool(
+        stubs.map((stub) => stub.url),
+        31337,
+      );
+      let message = "";
+      try {
+        await pool.sendQuorum(blockNumber(), 2);
+      } catch (e: any) {
+        message = e.message;
+      }
+      expect(message).to.eq("No 2 RPC endpoints agreed on eth_blockNumber");
+    });
+
+    it("backs an ethers provider", async function () {
+      stubs[2].block = 7;
+      const pool = new RpcPool(
+        stubs.map((stub) => stub.url),
+        31337,
+      );
+      expect(await pool.provider.getBlockNumber()).to.eq(100);
+      // The stubs answer calls with their block number
+      expect(
+        await pool.quorumProvider(2).call({ to: ZeroAddress, data: "0x" }),
+      ).to.eq("0x64");
+      // A quorum larger than the pool is capped at its size
+      expect(pool.quorumProvider(5)).to.eq(pool.quorumProvider(3));
+      pool.provider.destroy();
+      pool.quorumProvider(2).destroy();
+      pool.quorumProvider(3).destroy();
+    });
+
+    it("pins calls and log queries to one block and nothing else", async function () {
+      const pool = new RpcPool(
+        stubs.map((stub) => stub.url),
+        31337,
+      );
+      const provider = pool.quorumProvider(2);
+      await provider.call({ to: ZeroAddress, data: "0x" });
+      await provider.getLogs({ address: ZeroAddress, fromBlock: 0 });
+      await provider.getBlockNumber();
+
+      const requests = stubs.flatMap((stub) => stub.requests);
+      const asked = (method: string) =>
+        requests.filter((request) => request.method === method);
+      expect(asked("eth_call").map((call) => call.params[1])).to.deep.eq([
+        "0x64",
+        "0x64",
+      ]);
+      expect(
+        asked("eth_getLogs").map((query) => query.params[0].toBlock),
+      ).to.deep.eq(["0x64", "0x64"]);
+      // One read for each pinned request, one for getBlockNumber
+      expect(asked("eth_blockNumber")).to.have.length(3);
+      provider.destroy();
+    });
+  });
+});
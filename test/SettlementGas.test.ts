@@ -0,0 +1,106 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AuctionSealFHE } from "../types";
+import {
+  FIRST_PRICE,
+  SECOND_PRICE,
+  UNIFORM_PRICE,
+  createAuction,
+  deployAuctionSeal,
+} from "./fixtures";
+
+// Settlement gas benchmark. Run with the gas reporter to get the cost of the
+// decryption request and of the oracle's callback for growing bid sets:
+//
+//   REPORT_GAS=true npx hardhat test test/SettlementGas.test.ts
+
+describe("AuctionSealFHE settlement gas", function () {
+  let seller: HardhatEthersSigner;
+  let bidder: HardhatEthersSigner;
+  let auctionSeal: AuctionSealFHE;
+  let auctionSealAddress: string;
+
+  before(async function () {
+    [seller, bidder] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ auctionSeal, auctionSealAddress } = await deployAuctionSeal());
+    await auctionSeal.setCooldownSeconds(1);
+    await auctionSeal.addProvider(bidder.address);
+  });
+
+  // One bidder bids repeatedly, which the 1 second cooldown allows
+  async function placeBids(
+    auctionId: bigint,
+    count: number,
+    multiUnit = false,
+  ) {
+    for (let i = 0; i < count; i++) {
+      const input = fhevm
+        .createEncryptedInput(auctionSealAddress, bidder.address)
+        .add32(10 + ((i * 7) % 13));
+      if (multiUnit) {
+        const encrypted = await input.add32(1).encrypt();
+        await auctionSeal
+          .connect(bidder)
+          .submitMultiUnitBid(
+            auctionId,
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.inputProof,
+          );
+      } else {
+        const encrypted = await input.encrypt();
+        await auctionSeal
+          .connect(bidder)
+          .submitBid(auctionId, encrypted.handles[0], encrypted.inputProof);
+      }
+      await time.increase(1);
+    }
+  }
+
+  async function settle(auctionId: bigint) {
+    await auctionSeal.findHighestBidder(auctionId);
+    await fhevm.awaitDecryptionOracle();
+    expect((await auctionSeal.auctions(auctionId)).settled).to.eq(true);
+  }
+
+  for (const count of [1, 4, 8, 16]) {
+    it(`settles a first-price auction with ${count} bids`, async function () {
+      const auctionId = await createAuction(auctionSeal, seller, {
+        auctionType: FIRST_PRICE,
+      });
+      await placeBids(auctionId, count);
+      await settle(auctionId);
+    });
+
+    it(`settles a second-price auction with ${count} bids`, async function () {
+      const auctionId = await createAuction(auctionSeal, seller, {
+        auctionType: SECOND_PRICE,
+      });
+      await placeBids(auctionId, count);
+      await settle(auctionId);
+    });
+  }
+
+  it("settles a uniform-price auction with the most bids it takes", async function () {
+    const auctionId = await createAuction(auctionSeal, seller, {
+      auctionType: UNIFORM_PRICE,
+      quantity: 3,
+    });
+    await placeBids(
+      auctionId,
+      Number(await auctionSeal.MAX_UNIFORM_PRICE_BIDS()),
+      true,
+    );
+    await settle(auctionId);
+  });
+});
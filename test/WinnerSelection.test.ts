@@ -0,0 +1,165 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AuctionSealFHE } from "../types";
+import {
+  FIRST_PRICE,
+  SECOND_PRICE,
+  TIE_EARLIEST,
+  TIE_LATEST,
+  TIE_RANDOM,
+  createAuction,
+  deployAuctionSeal,
+} from "./fixtures";
+
+// Settles randomized bid sets through the encrypted winner selection and checks
+// every outcome against a plaintext reference. Bids come from a small range so
+// that ties are common.
+
+const ROUNDS = 6;
+const MAX_BIDS = 6;
+const SEED = 0x5eed;
+
+type Outcome = { reserveMet: boolean; winner: number; price: number };
+
+// mulberry32: small, seedable and good enough to spread the bid sets
+function prng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The winner among the highest bids is picked by the tie-break rule; ranks are
+// only given for random tie-breaks. winner is -1 when the reserve is not met.
+function reference(
+  amounts: number[],
+  reserve: number,
+  auctionType: number,
+  tieBreak: number,
+  ranks: bigint[],
+): Outcome {
+  const highest = Math.max(...amounts);
+  if (highest < reserve) return { reserveMet: false, winner: -1, price: 0 };
+
+  const tied = amounts.flatMap((amount, i) => (amount === highest ? [i] : []));
+  let winner: number;
+  if (tieBreak === TIE_LATEST) winner = tied[tied.length - 1];
+  else if (tieBreak === TIE_EARLIEST) winner = tied[0];
+  else winner = tied.reduce((best, i) => (ranks[i] > ranks[best] ? i : best));
+
+  if (auctionType === FIRST_PRICE) {
+    return { reserveMet: true, winner, price: highest };
+  }
+  const others = amounts.filter((_, i) => i !== winner);
+  return {
+    reserveMet: true,
+    winner,
+    price: Math.max(reserve, ...others, 0),
+  };
+}
+
+describe("AuctionSealFHE winner selection", function () {
+  let seller: HardhatEthersSigner;
+  let bidders: HardhatEthersSigner[];
+  let auctionSeal: AuctionSealFHE;
+  let auctionSealAddress: string;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    seller = ethSigners[0];
+    bidders = ethSigners.slice(1, 1 + MAX_BIDS);
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ auctionSeal, auctionSealAddress } = await deployAuctionSeal());
+    await auctionSeal.setCooldownSeconds(1);
+    for (const bidder of bidders) {
+      await auctionSeal.addProvider(bidder.address);
+    }
+  });
+
+  async function run(auctionType: number, tieBreak: number) {
+    const random = prng(SEED + auctionType * 16 + tieBreak);
+
+    for (let round = 0; round < ROUNDS; round++) {
+      const amounts = Array.from(
+        { length: 1 + Math.floor(random() * MAX_BIDS) },
+        () => Math.floor(random() * 6) * 10,
+      );
+      const reserve = [0, 20, 40][Math.floor(random() * 3)];
+
+      const auctionId = await createAuction(auctionSeal, seller, {
+        reservePrice: reserve,
+        auctionType,
+        tieBreak,
+      });
+
+      for (let i = 0; i < amounts.length; i++) {
+        const input = await fhevm
+          .createEncryptedInput(auctionSealAddress, bidders[i].address)
+          .add32(amounts[i])
+          .encrypt();
+        await auctionSeal
+          .connect(bidders[i])
+          .submitBid(auctionId, input.handles[0], input.inputProof);
+      }
+
+      const ranks: bigint[] = [];
+      if (tieBreak === TIE_RANDOM) {
+        for (let i = 0; i < amounts.length; i++) {
+          const { tieBreakRank } = await auctionSeal.bids(auctionId, i);
+          ranks.push(
+            await fhevm.debugger.decryptEuint(FhevmType.euint32, tieBreakRank),
+          );
+        }
+      }
+
+      await time.increase(1);
+      await auctionSeal.findHighestBidder(auctionId);
+      await fhevm.awaitDecryptionOracle();
+      const settled = await auctionSeal.auctions(auctionId);
+
+      const expected = reference(
+        amounts,
+        reserve,
+        auctionType,
+        tieBreak,
+        ranks,
+      );
+      const context = `bids ${amounts.join(",")} reserve ${reserve}`;
+      expect(settled.settled, context).to.eq(true);
+      expect(settled.reserveMet, context).to.eq(expected.reserveMet);
+      expect(settled.clearingPrice, context).to.eq(expected.price);
+      expect(settled.winner, context).to.eq(
+        expected.reserveMet
+          ? bidders[expected.winner].address
+          : ethers.ZeroAddress,
+      );
+    }
+  }
+
+  for (const [auctionType, typeName] of [
+    [FIRST_PRICE, "first-price"],
+    [SECOND_PRICE, "second-price"],
+  ] as const) {
+    for (const [tieBreak, ruleName] of [
+      [TIE_LATEST, "latest"],
+      [TIE_EARLIEST, "earliest"],
+      [TIE_RANDOM, "random"],
+    ] as const) {
+      it(`matches the plaintext reference (${typeName}, ${ruleName} bid wins ties)`, async function () {
+        await run(auctionType, tieBreak);
+      });
+    }
+  }
+});
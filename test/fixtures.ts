@@ -0,0 +1,126 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { DutchSchedule } from "../frontend/web/src/dutch";
+import { AuctionSealFHE, AuctionSealFHE__factory } from "../types";
+
+// Constants, default terms and helpers shared by the AuctionSealFHE suites
+
+export const ONE_DAY = 86400;
+
+export const FIRST_PRICE = 0;
+export const SECOND_PRICE = 1;
+export const UNIFORM_PRICE = 2;
+export const DUTCH = 3;
+
+export const TIE_LATEST = 0;
+export const TIE_EARLIEST = 1;
+export const TIE_RANDOM = 2;
+
+export const PROVIDERS = 0;
+export const OPEN = 1;
+export const ALLOWLIST = 2;
+export const MERKLE = 3;
+
+export type PaymentTerms = {
+  token: string;
+  priceUnit: bigint;
+  deposit: bigint;
+  confidential: boolean;
+};
+// Paid in ETH, one wei per bid unit, no deposit
+export const NO_DEPOSIT: PaymentTerms = {
+  token: ethers.ZeroAddress,
+  priceUnit: 1n,
+  deposit: 0n,
+  confidential: false,
+};
+
+export type Item = { collection: string; tokenId: bigint };
+export const NO_ITEM: Item = { collection: ethers.ZeroAddress, tokenId: 0n };
+export const NO_SCHEDULE: DutchSchedule = {
+  startPrice: 0,
+  floorPrice: 0,
+  priceDrop: 0,
+  tickSeconds: 0,
+};
+
+export type ParticipationRule = {
+  participation: number;
+  merkleRoot: string;
+  allowlist: string[];
+  proofsUri: string;
+};
+// Only the providers the owner registered may bid
+export const PROVIDERS_ONLY: ParticipationRule = {
+  participation: PROVIDERS,
+  merkleRoot: ethers.ZeroHash,
+  allowlist: [],
+  proofsUri: "",
+};
+
+// AuctionSealFHE is linked against the AuctionSettlement library, deployed first
+export async function deployAuctionSeal() {
+  const settlement = await ethers.deployContract("AuctionSettlement");
+  const factory = (await ethers.getContractFactory("AuctionSealFHE", {
+    libraries: { AuctionSettlement: await settlement.getAddress() },
+  })) as AuctionSealFHE__factory;
+  const auctionSeal = (await factory.deploy()) as AuctionSealFHE;
+  const auctionSealAddress = await auctionSeal.getAddress();
+
+  return { auctionSeal, auctionSealAddress };
+}
+
+// Anything left out takes the terms most tests need: a single-unit first-price
+// auction open to providers for a day, paid in ETH without a deposit
+export type AuctionOptions = {
+  title?: string;
+  reservePrice?: number;
+  auctionType?: number;
+  tieBreak?: number;
+  quantity?: number;
+  payment?: PaymentTerms;
+  item?: Item;
+  schedule?: DutchSchedule;
+  rule?: ParticipationRule;
+};
+
+// Resolves to the new auction's id
+export async function createAuction(
+  auctionSeal: AuctionSealFHE,
+  creator: HardhatEthersSigner,
+  {
+    title = "Lot",
+    reservePrice = 0,
+    auctionType = FIRST_PRICE,
+    tieBreak = TIE_LATEST,
+    quantity = 1,
+    payment = NO_DEPOSIT,
+    item = NO_ITEM,
+    schedule = NO_SCHEDULE,
+    rule = PROVIDERS_ONLY,
+  }: AuctionOptions = {},
+) {
+  const reserve = await fhevm
+    .createEncryptedInput(await auctionSeal.getAddress(), creator.address)
+    .add32(reservePrice)
+    .encrypt();
+  await auctionSeal
+    .connect(creator)
+    .createAuction(
+      title,
+      "A lot",
+      auctionType,
+      tieBreak,
+      quantity,
+      0,
+      (await time.latest()) + ONE_DAY,
+      payment,
+      item,
+      schedule,
+      rule,
+      reserve.handles[0],
+      reserve.inputProof,
+    );
+  return auctionSeal.auctionCount();
+}
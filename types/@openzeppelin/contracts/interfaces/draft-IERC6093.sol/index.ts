@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IERC1155Errors } from "./IERC1155Errors";
+export type { IERC20Errors } from "./IERC20Errors";
+export type { IERC721Errors } from "./IERC721Errors";
@@ -0,0 +1,2403 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace AuctionSealFHE {
+  export type PaymentTermsStruct = {
+    token: AddressLike;
+    priceUnit: BigNumberish;
+    deposit: BigNumberish;
+    confidential: boolean;
+  };
+
+  export type PaymentTermsStructOutput = [
+    token: string,
+    priceUnit: bigint,
+    deposit: bigint,
+    confidential: boolean
+  ] & {
+    token: string;
+    priceUnit: bigint;
+    deposit: bigint;
+    confidential: boolean;
+  };
+
+  export type DutchScheduleStruct = {
+    startPrice: BigNumberish;
+    floorPrice: BigNumberish;
+    priceDrop: BigNumberish;
+    tickSeconds: BigNumberish;
+  };
+
+  export type DutchScheduleStructOutput = [
+    startPrice: bigint,
+    floorPrice: bigint,
+    priceDrop: bigint,
+    tickSeconds: bigint
+  ] & {
+    startPrice: bigint;
+    floorPrice: bigint;
+    priceDrop: bigint;
+    tickSeconds: bigint;
+  };
+
+  export type ItemStruct = { collection: AddressLike; tokenId: BigNumberish };
+
+  export type ItemStructOutput = [collection: string, tokenId: bigint] & {
+    collection: string;
+    tokenId: bigint;
+  };
+
+  export type ParticipationRuleStruct = {
+    participation: BigNumberish;
+    merkleRoot: BytesLike;
+    allowlist: AddressLike[];
+    proofsUri: string;
+  };
+
+  export type ParticipationRuleStructOutput = [
+    participation: bigint,
+    merkleRoot: string,
+    allowlist: string[],
+    proofsUri: string
+  ] & {
+    participation: bigint;
+    merkleRoot: string;
+    allowlist: string[];
+    proofsUri: string;
+  };
+}
+
+export interface AuctionSealFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "AUCTIONEER_ROLE"
+      | "MAX_BIDS_PER_CHUNK"
+      | "MAX_QUANTITY"
+      | "MAX_UNIFORM_PRICE_BIDS"
+      | "PAUSER_ROLE"
+      | "PAYMENT_PERIOD"
+      | "SETTLER_ROLE"
+      | "acceptOwnership"
+      | "addProvider"
+      | "allowlisted"
+      | "amountDue"
+      | "auctionCount"
+      | "auctions"
+      | "bidCount"
+      | "bids"
+      | "canBid"
+      | "closeAuction"
+      | "cooldownSeconds"
+      | "createAuction"
+      | "decryptionContexts"
+      | "decryptionHandles"
+      | "dutchCheckPrice"
+      | "dutchPriceAt"
+      | "dutchSchedules"
+      | "escrows"
+      | "findHighestBidder"
+      | "forfeitDeposit"
+      | "grantRole"
+      | "hasRole"
+      | "isProvider"
+      | "items"
+      | "joinAuction"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "merkleRoots"
+      | "myCallback"
+      | "owner"
+      | "participation"
+      | "pause"
+      | "paused"
+      | "payAndClaim"
+      | "pendingOwner"
+      | "proceeds"
+      | "processBids"
+      | "protocolId"
+      | "reclaimItem"
+      | "reductions"
+      | "removeProvider"
+      | "renounceRole"
+      | "revokeRole"
+      | "setAllowlist"
+      | "setCooldownSeconds"
+      | "submitBid"
+      | "submitMultiUnitBid"
+      | "transferOwnership"
+      | "unpause"
+      | "verifyDecryption"
+      | "withdrawProceeds"
+      | "withdrawRefund"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AllowlistUpdated"
+      | "AuctionClosed"
+      | "AuctionCreated"
+      | "AuctionSettled"
+      | "BidSubmitted"
+      | "BidsProcessed"
+      | "ConfidentialRefundWithdrawn"
+      | "CooldownSecondsSet"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DepositForfeited"
+      | "DutchPriceNotReached"
+      | "DutchScheduleSet"
+      | "ItemEscrowed"
+      | "ItemReleased"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "ParticipationSet"
+      | "Paused"
+      | "PaymentMade"
+      | "ProceedsWithdrawn"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "RefundWithdrawn"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "UnitsAllocated"
+      | "Unpaused"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "AUCTIONEER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BIDS_PER_CHUNK",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_QUANTITY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_UNIFORM_PRICE_BIDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAYMENT_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SETTLER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowlisted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "amountDue",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bidCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bids",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canBid",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createAuction",
+    values: [
+      string,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AuctionSealFHE.PaymentTermsStruct,
+      AuctionSealFHE.ItemStruct,
+      AuctionSealFHE.DutchScheduleStruct,
+      AuctionSealFHE.ParticipationRuleStruct,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionHandles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "dutchCheckPrice",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "dutchPriceAt",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "dutchSchedules",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "escrows",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "findHighestBidder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "forfeitDeposit",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "items", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "joinAuction",
+    values: [BigNumberish, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "merkleRoots",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "participation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "payAndClaim",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proceeds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processBids",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reclaimItem",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reductions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowlist",
+    values: [BigNumberish, AddressLike[], boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitBid",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitMultiUnitBid",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "verifyDecryption",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawProceeds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawRefund",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "AUCTIONEER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BIDS_PER_CHUNK",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_QUANTITY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_UNIFORM_PRICE_BIDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAYMENT_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SETTLER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowlisted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "amountDue", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "auctions", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "bidCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "bids", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "canBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "closeAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionHandles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "dutchCheckPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "dutchPriceAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "dutchSchedules",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "escrows", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "findHighestBidder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "forfeitDeposit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "items", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "joinAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "merkleRoots",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "participation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "payAndClaim",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "proceeds", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "processBids",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "reclaimItem",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "reductions", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowlist",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "submitBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitMultiUnitBid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawProceeds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawRefund",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AllowlistUpdatedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    account: AddressLike,
+    allowed: boolean
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    account: string,
+    allowed: boolean
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    account: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionClosedEvent {
+  export type InputTuple = [auctionId: BigNumberish];
+  export type OutputTuple = [auctionId: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionCreatedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    creator: AddressLike,
+    auctionType: BigNumberish,
+    tieBreak: BigNumberish,
+    quantity: BigNumberish,
+    startTime: BigNumberish,
+    endTime: BigNumberish,
+    payment: AuctionSealFHE.PaymentTermsStruct,
+    title: string,
+    description: string
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    creator: string,
+    auctionType: bigint,
+    tieBreak: bigint,
+    quantity: bigint,
+    startTime: bigint,
+    endTime: bigint,
+    payment: AuctionSealFHE.PaymentTermsStructOutput,
+    title: string,
+    description: string
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    creator: string;
+    auctionType: bigint;
+    tieBreak: bigint;
+    quantity: bigint;
+    startTime: bigint;
+    endTime: bigint;
+    payment: AuctionSealFHE.PaymentTermsStructOutput;
+    title: string;
+    description: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionSettledEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    auctionId: BigNumberish,
+    reserveMet: boolean,
+    winner: AddressLike,
+    clearingPrice: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    auctionId: bigint,
+    reserveMet: boolean,
+    winner: string,
+    clearingPrice: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    auctionId: bigint;
+    reserveMet: boolean;
+    winner: string;
+    clearingPrice: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidSubmittedEvent {
+  export type InputTuple = [
+    bidder: AddressLike,
+    auctionId: BigNumberish,
+    encryptedBidAmount: BytesLike,
+    encryptedQuantity: BytesLike
+  ];
+  export type OutputTuple = [
+    bidder: string,
+    auctionId: bigint,
+    encryptedBidAmount: string,
+    encryptedQuantity: string
+  ];
+  export interface OutputObject {
+    bidder: string;
+    auctionId: bigint;
+    encryptedBidAmount: string;
+    encryptedQuantity: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidsProcessedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    processed: BigNumberish,
+    total: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    processed: bigint,
+    total: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    processed: bigint;
+    total: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialRefundWithdrawnEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    amount: BytesLike
+  ];
+  export type OutputTuple = [auctionId: bigint, bidder: string, amount: string];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    amount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, auctionId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, auctionId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    auctionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DepositForfeitedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [auctionId: bigint, bidder: string, amount: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DutchPriceNotReachedEvent {
+  export type InputTuple = [auctionId: BigNumberish, price: BigNumberish];
+  export type OutputTuple = [auctionId: bigint, price: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DutchScheduleSetEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    schedule: AuctionSealFHE.DutchScheduleStruct
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    schedule: AuctionSealFHE.DutchScheduleStructOutput
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    schedule: AuctionSealFHE.DutchScheduleStructOutput;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ItemEscrowedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    collection: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    collection: string,
+    tokenId: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    collection: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ItemReleasedEvent {
+  export type InputTuple = [auctionId: BigNumberish, to: AddressLike];
+  export type OutputTuple = [auctionId: bigint, to: string];
+  export interface OutputObject {
+    auctionId: bigint;
+    to: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ParticipationSetEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    participation: BigNumberish,
+    merkleRoot: BytesLike,
+    proofsUri: string
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    participation: bigint,
+    merkleRoot: string,
+    proofsUri: string
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    participation: bigint;
+    merkleRoot: string;
+    proofsUri: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentMadeEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [auctionId: bigint, bidder: string, amount: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProceedsWithdrawnEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    creator: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    creator: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    creator: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundWithdrawnEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [auctionId: bigint, bidder: string, amount: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnitsAllocatedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    bidIndex: BigNumberish,
+    quantity: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    bidIndex: bigint,
+    quantity: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    bidIndex: bigint;
+    quantity: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AuctionSealFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): AuctionSealFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: AuctionSealFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  AUCTIONEER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MAX_BIDS_PER_CHUNK: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_QUANTITY: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_UNIFORM_PRICE_BIDS: TypedContractMethod<[], [bigint], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PAYMENT_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  SETTLER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  allowlisted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  amountDue: TypedContractMethod<
+    [auctionId: BigNumberish, bidder: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  auctionCount: TypedContractMethod<[], [bigint], "view">;
+
+  auctions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        boolean,
+        boolean,
+        boolean,
+        string,
+        bigint,
+        bigint,
+        AuctionSealFHE.PaymentTermsStructOutput
+      ] & {
+        creator: string;
+        auctionType: bigint;
+        tieBreak: bigint;
+        quantity: bigint;
+        startTime: bigint;
+        endTime: bigint;
+        reservePrice: string;
+        closed: boolean;
+        settled: boolean;
+        reserveMet: boolean;
+        winner: string;
+        clearingPrice: bigint;
+        settledAt: bigint;
+        payment: AuctionSealFHE.PaymentTermsStructOutput;
+      }
+    ],
+    "view"
+  >;
+
+  bidCount: TypedContractMethod<[auctionId: BigNumberish], [bigint], "view">;
+
+  bids: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, bigint, string] & {
+        bidder: string;
+        encryptedBidAmount: string;
+        encryptedQuantity: string;
+        allocation: bigint;
+        tieBreakRank: string;
+      }
+    ],
+    "view"
+  >;
+
+  canBid: TypedContractMethod<
+    [auctionId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  closeAuction: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  createAuction: TypedContractMethod<
+    [
+      title: string,
+      description: string,
+      auctionType: BigNumberish,
+      tieBreak: BigNumberish,
+      quantity: BigNumberish,
+      startTime: BigNumberish,
+      endTime: BigNumberish,
+      payment: AuctionSealFHE.PaymentTermsStruct,
+      item: AuctionSealFHE.ItemStruct,
+      schedule: AuctionSealFHE.DutchScheduleStruct,
+      rule: AuctionSealFHE.ParticipationRuleStruct,
+      encryptedReservePrice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, boolean, bigint, bigint] & {
+        auctionId: bigint;
+        processed: boolean;
+        bidCount: bigint;
+        ask: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  decryptionHandles: TypedContractMethod<
+    [requestId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  dutchCheckPrice: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  dutchPriceAt: TypedContractMethod<
+    [auctionId: BigNumberish, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  dutchSchedules: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        startPrice: bigint;
+        floorPrice: bigint;
+        priceDrop: bigint;
+        tickSeconds: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  escrows: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [bigint, string, bigint, boolean] & {
+        deposit: bigint;
+        encryptedDeposit: string;
+        unitsWon: bigint;
+        paid: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  findHighestBidder: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  forfeitDeposit: TypedContractMethod<
+    [auctionId: BigNumberish, bidder: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  items: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, bigint] & { collection: string; tokenId: bigint }],
+    "view"
+  >;
+
+  joinAuction: TypedContractMethod<
+    [auctionId: BigNumberish, proof: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  merkleRoots: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  participation: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  payAndClaim: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  proceeds: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  processBids: TypedContractMethod<
+    [auctionId: BigNumberish, maxCount: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  reclaimItem: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reductions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string] & {
+        processed: bigint;
+        maxBid: string;
+        secondBid: string;
+        winnerIndex: string;
+        winnerRank: string;
+      }
+    ],
+    "view"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceRole: TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setAllowlist: TypedContractMethod<
+    [auctionId: BigNumberish, accounts: AddressLike[], allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitBid: TypedContractMethod<
+    [
+      auctionId: BigNumberish,
+      encryptedBidAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+
+  submitMultiUnitBid: TypedContractMethod<
+    [
+      auctionId: BigNumberish,
+      encryptedUnitPrice: BytesLike,
+      encryptedQuantity: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  verifyDecryption: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawProceeds: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawRefund: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "AUCTIONEER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BIDS_PER_CHUNK"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_QUANTITY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_UNIFORM_PRICE_BIDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PAYMENT_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SETTLER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "allowlisted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "amountDue"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, bidder: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "auctionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "auctions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        boolean,
+        boolean,
+        boolean,
+        string,
+        bigint,
+        bigint,
+        AuctionSealFHE.PaymentTermsStructOutput
+      ] & {
+        creator: string;
+        auctionType: bigint;
+        tieBreak: bigint;
+        quantity: bigint;
+        startTime: bigint;
+        endTime: bigint;
+        reservePrice: string;
+        closed: boolean;
+        settled: boolean;
+        reserveMet: boolean;
+        winner: string;
+        clearingPrice: bigint;
+        settledAt: bigint;
+        payment: AuctionSealFHE.PaymentTermsStructOutput;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "bidCount"
+  ): TypedContractMethod<[auctionId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "bids"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, bigint, string] & {
+        bidder: string;
+        encryptedBidAmount: string;
+        encryptedQuantity: string;
+        allocation: bigint;
+        tieBreakRank: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "canBid"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "closeAuction"
+  ): TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createAuction"
+  ): TypedContractMethod<
+    [
+      title: string,
+      description: string,
+      auctionType: BigNumberish,
+      tieBreak: BigNumberish,
+      quantity: BigNumberish,
+      startTime: BigNumberish,
+      endTime: BigNumberish,
+      payment: AuctionSealFHE.PaymentTermsStruct,
+      item: AuctionSealFHE.ItemStruct,
+      schedule: AuctionSealFHE.DutchScheduleStruct,
+      rule: AuctionSealFHE.ParticipationRuleStruct,
+      encryptedReservePrice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, boolean, bigint, bigint] & {
+        auctionId: bigint;
+        processed: boolean;
+        bidCount: bigint;
+        ask: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionHandles"
+  ): TypedContractMethod<[requestId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "dutchCheckPrice"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "dutchPriceAt"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "dutchSchedules"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        startPrice: bigint;
+        floorPrice: bigint;
+        priceDrop: bigint;
+        tickSeconds: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "escrows"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [bigint, string, bigint, boolean] & {
+        deposit: bigint;
+        encryptedDeposit: string;
+        unitsWon: bigint;
+        paid: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "findHighestBidder"
+  ): TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "forfeitDeposit"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, bidder: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "items"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, bigint] & { collection: string; tokenId: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "joinAuction"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, proof: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "merkleRoots"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "participation"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "payAndClaim"
+  ): TypedContractMethod<[auctionId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "proceeds"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "processBids"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, maxCount: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "reclaimItem"
+  ): TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reductions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string] & {
+        processed: bigint;
+        maxBid: string;
+        secondBid: string;
+        winnerIndex: string;
+        winnerRank: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setAllowlist"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, accounts: AddressLike[], allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitBid"
+  ): TypedContractMethod<
+    [
+      auctionId: BigNumberish,
+      encryptedBidAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "submitMultiUnitBid"
+  ): TypedContractMethod<
+    [
+      auctionId: BigNumberish,
+      encryptedUnitPrice: BytesLike,
+      encryptedQuantity: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "verifyDecryption"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawProceeds"
+  ): TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawRefund"
+  ): TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "AllowlistUpdated"
+  ): TypedContractEvent<
+    AllowlistUpdatedEvent.InputTuple,
+    AllowlistUpdatedEvent.OutputTuple,
+    AllowlistUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionClosed"
+  ): TypedContractEvent<
+    AuctionClosedEvent.InputTuple,
+    AuctionClosedEvent.OutputTuple,
+    AuctionClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionCreated"
+  ): TypedContractEvent<
+    AuctionCreatedEvent.InputTuple,
+    AuctionCreatedEvent.OutputTuple,
+    AuctionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionSettled"
+  ): TypedContractEvent<
+    AuctionSettledEvent.InputTuple,
+    AuctionSettledEvent.OutputTuple,
+    AuctionSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidSubmitted"
+  ): TypedContractEvent<
+    BidSubmittedEvent.InputTuple,
+    BidSubmittedEvent.OutputTuple,
+    BidSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidsProcessed"
+  ): TypedContractEvent<
+    BidsProcessedEvent.InputTuple,
+    BidsProcessedEvent.OutputTuple,
+    BidsProcessedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialRefundWithdrawn"
+  ): TypedContractEvent<
+    ConfidentialRefundWithdrawnEvent.InputTuple,
+    ConfidentialRefundWithdrawnEvent.OutputTuple,
+    ConfidentialRefundWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DepositForfeited"
+  ): TypedContractEvent<
+    DepositForfeitedEvent.InputTuple,
+    DepositForfeitedEvent.OutputTuple,
+    DepositForfeitedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DutchPriceNotReached"
+  ): TypedContractEvent<
+    DutchPriceNotReachedEvent.InputTuple,
+    DutchPriceNotReachedEvent.OutputTuple,
+    DutchPriceNotReachedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DutchScheduleSet"
+  ): TypedContractEvent<
+    DutchScheduleSetEvent.InputTuple,
+    DutchScheduleSetEvent.OutputTuple,
+    DutchScheduleSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ItemEscrowed"
+  ): TypedContractEvent<
+    ItemEscrowedEvent.InputTuple,
+    ItemEscrowedEvent.OutputTuple,
+    ItemEscrowedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ItemReleased"
+  ): TypedContractEvent<
+    ItemReleasedEvent.InputTuple,
+    ItemReleasedEvent.OutputTuple,
+    ItemReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ParticipationSet"
+  ): TypedContractEvent<
+    ParticipationSetEvent.InputTuple,
+    ParticipationSetEvent.OutputTuple,
+    ParticipationSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentMade"
+  ): TypedContractEvent<
+    PaymentMadeEvent.InputTuple,
+    PaymentMadeEvent.OutputTuple,
+    PaymentMadeEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProceedsWithdrawn"
+  ): TypedContractEvent<
+    ProceedsWithdrawnEvent.InputTuple,
+    ProceedsWithdrawnEvent.OutputTuple,
+    ProceedsWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundWithdrawn"
+  ): TypedContractEvent<
+    RefundWithdrawnEvent.InputTuple,
+    RefundWithdrawnEvent.OutputTuple,
+    RefundWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UnitsAllocated"
+  ): TypedContractEvent<
+    UnitsAllocatedEvent.InputTuple,
+    UnitsAllocatedEvent.OutputTuple,
+    UnitsAllocatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+
+  filters: {
+    "AllowlistUpdated(uint256,address,bool)": TypedContractEvent<
+      AllowlistUpdatedEvent.InputTuple,
+      AllowlistUpdatedEvent.OutputTuple,
+      AllowlistUpdatedEvent.OutputObject
+    >;
+    AllowlistUpdated: TypedContractEvent<
+      AllowlistUpdatedEvent.InputTuple,
+      AllowlistUpdatedEvent.OutputTuple,
+      AllowlistUpdatedEvent.OutputObject
+    >;
+
+    "AuctionClosed(uint256)": TypedContractEvent<
+      AuctionClosedEvent.InputTuple,
+      AuctionClosedEvent.OutputTuple,
+      AuctionClosedEvent.OutputObject
+    >;
+    AuctionClosed: TypedContractEvent<
+      AuctionClosedEvent.InputTuple,
+      AuctionClosedEvent.OutputTuple,
+      AuctionClosedEvent.OutputObject
+    >;
+
+    "AuctionCreated(uint256,address,uint8,uint8,uint32,uint64,uint64,tuple,string,string)": TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+    AuctionCreated: TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+
+    "AuctionSettled(uint256,uint256,bool,address,uint256)": TypedContractEvent<
+      AuctionSettledEvent.InputTuple,
+      AuctionSettledEvent.OutputTuple,
+      AuctionSettledEvent.OutputObject
+    >;
+    AuctionSettled: TypedContractEvent<
+      AuctionSettledEvent.InputTuple,
+      AuctionSettledEvent.OutputTuple,
+      AuctionSettledEvent.OutputObject
+    >;
+
+    "BidSubmitted(address,uint256,bytes32,bytes32)": TypedContractEvent<
+      BidSubmittedEvent.InputTuple,
+      BidSubmittedEvent.OutputTuple,
+      BidSubmittedEvent.OutputObject
+    >;
+    BidSubmitted: TypedContractEvent<
+      BidSubmittedEvent.InputTuple,
+      BidSubmittedEvent.OutputTuple,
+      BidSubmittedEvent.OutputObject
+    >;
+
+    "BidsProcessed(uint256,uint256,uint256)": TypedContractEvent<
+      BidsProcessedEvent.InputTuple,
+      BidsProcessedEvent.OutputTuple,
+      BidsProcessedEvent.OutputObject
+    >;
+    BidsProcessed: TypedContractEvent<
+      BidsProcessedEvent.InputTuple,
+      BidsProcessedEvent.OutputTuple,
+      BidsProcessedEvent.OutputObject
+    >;
+
+    "ConfidentialRefundWithdrawn(uint256,address,bytes32)": TypedContractEvent<
+      ConfidentialRefundWithdrawnEvent.InputTuple,
+      ConfidentialRefundWithdrawnEvent.OutputTuple,
+      ConfidentialRefundWithdrawnEvent.OutputObject
+    >;
+    ConfidentialRefundWithdrawn: TypedContractEvent<
+      ConfidentialRefundWithdrawnEvent.InputTuple,
+      ConfidentialRefundWithdrawnEvent.OutputTuple,
+      ConfidentialRefundWithdrawnEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DepositForfeited(uint256,address,uint256)": TypedContractEvent<
+      DepositForfeitedEvent.InputTuple,
+      DepositForfeitedEvent.OutputTuple,
+      DepositForfeitedEvent.OutputObject
+    >;
+    DepositForfeited: TypedContractEvent<
+      DepositForfeitedEvent.InputTuple,
+      DepositForfeitedEvent.OutputTuple,
+      DepositForfeitedEvent.OutputObject
+    >;
+
+    "DutchPriceNotReached(uint256,uint32)": TypedContractEvent<
+      DutchPriceNotReachedEvent.InputTuple,
+      DutchPriceNotReachedEvent.OutputTuple,
+      DutchPriceNotReachedEvent.OutputObject
+    >;
+    DutchPriceNotReached: TypedContractEvent<
+      DutchPriceNotReachedEvent.InputTuple,
+      DutchPriceNotReachedEvent.OutputTuple,
+      DutchPriceNotReachedEvent.OutputObject
+    >;
+
+    "DutchScheduleSet(uint256,tuple)": TypedContractEvent<
+      DutchScheduleSetEvent.InputTuple,
+      DutchScheduleSetEvent.OutputTuple,
+      DutchScheduleSetEvent.OutputObject
+    >;
+    DutchScheduleSet: TypedContractEvent<
+      DutchScheduleSetEvent.InputTuple,
+      DutchScheduleSetEvent.OutputTuple,
+      DutchScheduleSetEvent.OutputObject
+    >;
+
+    "ItemEscrowed(uint256,address,uint256)": TypedContractEvent<
+      ItemEscrowedEvent.InputTuple,
+      ItemEscrowedEvent.OutputTuple,
+      ItemEscrowedEvent.OutputObject
+    >;
+    ItemEscrowed: TypedContractEvent<
+      ItemEscrowedEvent.InputTuple,
+      ItemEscrowedEvent.OutputTuple,
+      ItemEscrowedEvent.OutputObject
+    >;
+
+    "ItemReleased(uint256,address)": TypedContractEvent<
+      ItemReleasedEvent.InputTuple,
+      ItemReleasedEvent.OutputTuple,
+      ItemReleasedEvent.OutputObject
+    >;
+    ItemReleased: TypedContractEvent<
+      ItemReleasedEvent.InputTuple,
+      ItemReleasedEvent.OutputTuple,
+      ItemReleasedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ParticipationSet(uint256,uint8,bytes32,string)": TypedContractEvent<
+      ParticipationSetEvent.InputTuple,
+      ParticipationSetEvent.OutputTuple,
+      ParticipationSetEvent.OutputObject
+    >;
+    ParticipationSet: TypedContractEvent<
+      ParticipationSetEvent.InputTuple,
+      ParticipationSetEvent.OutputTuple,
+      ParticipationSetEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PaymentMade(uint256,address,uint256)": TypedContractEvent<
+      PaymentMadeEvent.InputTuple,
+      PaymentMadeEvent.OutputTuple,
+      PaymentMadeEvent.OutputObject
+    >;
+    PaymentMade: TypedContractEvent<
+      PaymentMadeEvent.InputTuple,
+      PaymentMadeEvent.OutputTuple,
+      PaymentMadeEvent.OutputObject
+    >;
+
+    "ProceedsWithdrawn(uint256,address,uint256)": TypedContractEvent<
+      ProceedsWithdrawnEvent.InputTuple,
+      ProceedsWithdrawnEvent.OutputTuple,
+      ProceedsWithdrawnEvent.OutputObject
+    >;
+    ProceedsWithdrawn: TypedContractEvent<
+      ProceedsWithdrawnEvent.InputTuple,
+      ProceedsWithdrawnEvent.OutputTuple,
+      ProceedsWithdrawnEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "RefundWithdrawn(uint256,address,uint256)": TypedContractEvent<
+      RefundWithdrawnEvent.InputTuple,
+      RefundWithdrawnEvent.OutputTuple,
+      RefundWithdrawnEvent.OutputObject
+    >;
+    RefundWithdrawn: TypedContractEvent<
+      RefundWithdrawnEvent.InputTuple,
+      RefundWithdrawnEvent.OutputTuple,
+      RefundWithdrawnEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "UnitsAllocated(uint256,address,uint256,uint256)": TypedContractEvent<
+      UnitsAllocatedEvent.InputTuple,
+      UnitsAllocatedEvent.OutputTuple,
+      UnitsAllocatedEvent.OutputObject
+    >;
+    UnitsAllocated: TypedContractEvent<
+      UnitsAllocatedEvent.InputTuple,
+      UnitsAllocatedEvent.OutputTuple,
+      UnitsAllocatedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+  };
+}
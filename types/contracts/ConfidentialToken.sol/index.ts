@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ConfidentialToken } from "./ConfidentialToken";
+export type { IConfidentialToken } from "./IConfidentialToken";
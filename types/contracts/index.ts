@@ -1,4 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as auctionSealSol from "./AuctionSeal.sol";
+export type { auctionSealSol };
+import type * as confidentialTokenSol from "./ConfidentialToken.sol";
+export type { confidentialTokenSol };
+import type * as mocks from "./mocks";
+export type { mocks };
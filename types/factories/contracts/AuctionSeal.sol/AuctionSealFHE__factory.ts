@@ -0,0 +1,2336 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  AuctionSealFHE,
+  AuctionSealFHEInterface,
+} from "../../../contracts/AuctionSeal.sol/AuctionSealFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AuctionAlreadySettled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AuctionNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AuctionNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AuctionNotStarted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AuctionStillOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BidSubmissionFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BidsNotProcessed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "IncorrectPayment",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidItem",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMerkleProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParticipation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPaymentTerms",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidQuantity",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSchedule",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTieBreak",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoBids",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotCreator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotEligible",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToClaim",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PaymentPeriodActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PaymentPeriodOver",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "SafeERC20FailedOperation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TooManyBids",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WrongAuctionType",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "AllowlistUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum AuctionSealFHE.AuctionType",
+        name: "auctionType",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "enum AuctionSealFHE.TieBreak",
+        name: "tieBreak",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "quantity",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "startTime",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "token",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "priceUnit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deposit",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "confidential",
+            type: "bool",
+          },
+        ],
+        indexed: false,
+        internalType: "struct AuctionSealFHE.PaymentTerms",
+        name: "payment",
+        type: "tuple",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "AuctionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "reserveMet",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "clearingPrice",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedBidAmount",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedQuantity",
+        type: "bytes32",
+      },
+    ],
+    name: "BidSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "processed",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    name: "BidsProcessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "ConfidentialRefundWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "DepositForfeited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "price",
+        type: "uint32",
+      },
+    ],
+    name: "DutchPriceNotReached",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "startPrice",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "floorPrice",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "priceDrop",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "tickSeconds",
+            type: "uint32",
+          },
+        ],
+        indexed: false,
+        internalType: "struct AuctionSealFHE.DutchSchedule",
+        name: "schedule",
+        type: "tuple",
+      },
+    ],
+    name: "DutchScheduleSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "collection",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ItemEscrowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "ItemReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum AuctionSealFHE.Participation",
+        name: "participation",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "proofsUri",
+        type: "string",
+      },
+    ],
+    name: "ParticipationSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PaymentMade",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "ProceedsWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RefundWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bidIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    name: "UnitsAllocated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "AUCTIONEER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BIDS_PER_CHUNK",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_QUANTITY",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_UNIFORM_PRICE_BIDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAYMENT_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SETTLER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowlisted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "amountDue",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "auctionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctions",
+    outputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "enum AuctionSealFHE.AuctionType",
+        name: "auctionType",
+        type: "uint8",
+      },
+      {
+        internalType: "enum AuctionSealFHE.TieBreak",
+        name: "tieBreak",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32",
+        name: "quantity",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "startTime",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+      {
+        internalType: "euint32",
+        name: "reservePrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "closed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "settled",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "reserveMet",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "clearingPrice",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "settledAt",
+        type: "uint64",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "token",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "priceUnit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deposit",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "confidential",
+            type: "bool",
+          },
+        ],
+        internalType: "struct AuctionSealFHE.PaymentTerms",
+        name: "payment",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "bidCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "bids",
+    outputs: [
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedBidAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedQuantity",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "allocation",
+        type: "uint32",
+      },
+      {
+        internalType: "euint32",
+        name: "tieBreakRank",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "canBid",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "closeAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "enum AuctionSealFHE.AuctionType",
+        name: "auctionType",
+        type: "uint8",
+      },
+      {
+        internalType: "enum AuctionSealFHE.TieBreak",
+        name: "tieBreak",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32",
+        name: "quantity",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "startTime",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "token",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "priceUnit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deposit",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "confidential",
+            type: "bool",
+          },
+        ],
+        internalType: "struct AuctionSealFHE.PaymentTerms",
+        name: "payment",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "collection",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "tokenId",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct AuctionSealFHE.Item",
+        name: "item",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "startPrice",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "floorPrice",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "priceDrop",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "tickSeconds",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct AuctionSealFHE.DutchSchedule",
+        name: "schedule",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "enum AuctionSealFHE.Participation",
+            name: "participation",
+            type: "uint8",
+          },
+          {
+            internalType: "bytes32",
+            name: "merkleRoot",
+            type: "bytes32",
+          },
+          {
+            internalType: "address[]",
+            name: "allowlist",
+            type: "address[]",
+          },
+          {
+            internalType: "string",
+            name: "proofsUri",
+            type: "string",
+          },
+        ],
+        internalType: "struct AuctionSealFHE.ParticipationRule",
+        name: "rule",
+        type: "tuple",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedReservePrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createAuction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "bidCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "ask",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionHandles",
+    outputs: [
+      {
+        internalType: "bytes32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "dutchCheckPrice",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "dutchPriceAt",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "dutchSchedules",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "startPrice",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "floorPrice",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "priceDrop",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "tickSeconds",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "escrows",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "deposit",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedDeposit",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "unitsWon",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "paid",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "findHighestBidder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "forfeitDeposit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "items",
+    outputs: [
+      {
+        internalType: "address",
+        name: "collection",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "joinAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "merkleRoots",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "participation",
+    outputs: [
+      {
+        internalType: "enum AuctionSealFHE.Participation",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "payAndClaim",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proceeds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxCount",
+        type: "uint256",
+      },
+    ],
+    name: "processBids",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "reclaimItem",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "reductions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "processed",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "maxBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "secondBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "winnerIndex",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "winnerRank",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "accounts",
+        type: "address[]",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setAllowlist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedBidAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedUnitPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedQuantity",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitMultiUnitBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "verifyDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawProceeds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234620001a4575f606062000017620001a8565b828152826020820152826040820152015262000032620001a8565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55335f52600360205260405f20600160ff19825416179055604051337fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2603c600555615a019081620001dd8239f35b5f80fd5b60405190608082016001600160401b03811183821017620001c857604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c80630497edce146103d4578063051a8f14146103cf578063124bd04b146103ca57806317779196146103c5578063200ca6ef146103c05780632227c9a8146103bb578063236ed8f3146103b65780632ad71573146103b15780632f2ff15d146103ac5780632fd74a1e146103a75780633f4ba83a146103a25780634099ce521461039d57806346e2577a14610398578063471400c9146103935780634e44b6401461038e578063508f935514610389578063571a26a0146103845780635874cbfc1461037f5780635a94a0791461037a5780635c975abb146103755780636b074a071461037057806371c5ecb11461036b5780637445e85c14610366578063744c7d981461036157806375b238fc1461035c57806379ba5097146103575780637b3c4baa146103525780637b5b11571461034d5780638456cb59146103485780638602811f146103435780638a355a571461033e5780638bb9c5bf146103395780638da5cb5b14610334578063902ea7ae1461032f57806391d148541461032a5780639d15349514610325578063a0743f2214610320578063a43654761461031b578063a8eb97a514610316578063b30801cd14610311578063b5fb21fe1461030c578063b65e894114610307578063b8221bc414610302578063b9a958b4146102fd578063baabd593146102f8578063bfb231d2146102f3578063cbbf6486146102ee578063cfe9232b146102e9578063d2cb4735146102e4578063d547741f146102df578063d83618ab146102da578063d9f1aed9146102d5578063da1f12ab146102d0578063da77fe2c146102cb578063e30c3978146102c6578063e41ee46a146102c1578063e63ab1e9146102bc578063ebd412c7146102b7578063f05ff929146102b25763f2fde38b146102ad575f80fd5b61220a565b6121ef565b6121bf565b612185565b612168565b612140565b611eb9565b611e9d565b611de6565b611d90565b611d5f565b611b81565b611b47565b611b13565b611ace565b611ab3565b611a89565b611a6c565b611a15565b61191e565b6118ec565b6118c2565b611887565b611867565b611842565b6117d0565b6116aa565b611683565b611666565b6115f3565b6115a1565b611548565b6114a8565b611424565b61137a565b611340565b6112c7565b61128d565b611263565b611223565b611201565b6111c6565b611175565b6110ba565b610f3a565b610deb565b610da7565b610d30565b610bc9565b610b4b565b610ad7565b6109e0565b6109b2565b61092a565b6108fb565b6108de565b6107c2565b6107ab565b610678565b61040a565b9181601f84011215610406578235916001600160401b038311610406576020838186019501011161040657565b5f80fd5b6060366003190112610406576004356044356001600160401b038111610406576104389036906004016103d9565b610443839293613748565b61044c82613777565b6104546137ca565b335f52600660205261046960405f20546137e8565b815f52600960205260405f20600260ff825460a01c1661048881610f2b565b146104b8576104b6936104b0926104a16104a89361380e565b3691610570565b602435613877565b90613a0e565b005b60405163857c876b60e01b8152600490fd5b634e487b7160e01b5f52604160045260245ffd5b6001600160401b0381116104f157604052565b6104ca565b90601f801991011681019081106001600160401b038211176104f157604052565b60405190608082018281106001600160401b038211176104f157604052565b6040519060a082018281106001600160401b038211176104f157604052565b6001600160401b0381116104f157601f01601f191660200190565b92919261057c82610555565b9161058a60405193846104f6565b829481845281830111610406578281602093845f960137010152565b9080601f83011215610406578160206105c193359101610570565b90565b6004111561040657565b604435906105db826105c4565b565b60643590600382101561040657565b63ffffffff81160361040657565b608435906105db826105ec565b60a435906001600160401b038216820361040657565b60c435906001600160401b038216820361040657565b60809060e31901126104065760e490565b6080906101a3190112610406576101a490565b908160809103126104065790565b6040906101631901126104065761016490565b3461040657610280366003190112610406576001600160401b03600435818111610406576106aa9036906004016105a6565b90602435818111610406576106c39036906004016105a6565b6106cb6105ce565b906106d46105dd565b936106dd6105fa565b6106e5610607565b6106ed61061d565b6106f636610633565b6106ff36610665565b9161070936610644565b93610224358a811161040657610723903690600401610657565b95610264359a8b11610406576107619b6107446107519c36906004016103d9565b9b909a610244359a6122d4565b6040519081529081906020820190565b0390f35b606060031982011261040657600435916001600160401b036024358181116104065783610794916004016105a6565b92604435918211610406576105c1916004016105a6565b34610406576104b66107bc36610765565b91612bdb565b34610406576040366003190112610406576024356004356107e281613748565b6107eb81613fe3565b6107f36137ca565b610805815f52600960205260405f2090565b600381015460081c60ff166108c2575460029060a01c60ff1661082781610f2b565b146104b85761083e815f52600a60205260405f2090565b5480156108b0576108976107519261076194601081105f146108a557610877905b610871835f52601360205260405f2090565b54612f9f565b83811161089e575b61088990826140ec565b5f52601360205260405f2090565b5490612fac565b508261087f565b50610877601061085f565b60405163c3bc404360e01b8152600490fd5b604051634f4fee1760e01b8152600490fd5b5f91031261040657565b34610406575f36600319011261040657602060405162093a808152f35b3461040657604036600319011261040657602061091c602435600435612ff2565b63ffffffff60405191168152f35b346104065760203660031901126104065760043561094781613748565b610950816140a6565b6109586137ca565b805f526009602052600360405f2001805460ff81166109a05760ff191660011790557fac4a907ec29adcc56774b757ecb1e1b4d597374fc9386107d05e2670259df7d35f80a2005b60405163f046007760e01b8152600490fd5b34610406575f366003190112610406576020600854604051908152f35b6001600160a01b0381160361040657565b3461040657604036600319011261040657602435600435610a00826109cf565b610a09816141e6565b5f8181526002602090815260408083206001600160a01b038616845290915290205460ff1615610a3557005b5f8181526002602090815260408083206001600160a01b03861684529091529020805460ff1916600117905533916001600160a01b0316907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4005b9081518082526020808093019301915f5b828110610ab2575050505090565b835185529381019392810192600101610aa4565b9060206105c1928181520190610a93565b3461040657602080600319360112610406576004355f52601560205260405f20906040519081602084549182815201935f5260205f20915f905b828210610b345761076185610b28818903826104f6565b60405191829182610ac6565b835486529485019460019384019390910190610b11565b34610406575f36600319011261040657610b63614312565b60ff19600454166004557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b9181601f84011215610406578235916001600160401b038311610406576020808501948460051b01011161040657565b34610406576040366003190112610406576004356024356001600160401b03811161040657610bfc903690600401610b99565b90610c0683613748565b610c0e6137ca565b6003610c2c610c25855f52600d60205260405f2090565b5460ff1690565b610c3581610f2b565b03610d1e57604080513360208201908152610c9b94610c979490939092610c769291610c6e90829081015b03601f1981018352826104f6565b51902061309a565b6020815191012091610c90865f52600e60205260405f2090565b54916143ac565b1590565b610d0c57610cda610ccd33610cb8845f52600f60205260405f2090565b9060018060a01b03165f5260205260405f2090565b805460ff19166001179055565b604051600181523391907f0b39b8705388179ba4a98df9c9c12598313d891f175dd06e571b7aaa02bd607d90602090a3005b60405163582f497d60e11b8152600490fd5b604051632de1980b60e21b8152600490fd5b3461040657602036600319011261040657600435610d4d816109cf565b610d5561439c565b6001600160a01b03165f818152600360205260409020805460ff811615610d7857005b60ff191660011790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b34610406576040366003190112610406576104b6602435600435610dca826109cf565b610dd381613748565b610ddc816140a6565b6130c3565b8015150361040657565b34610406576060366003190112610406576004356024356001600160401b03811161040657610e1e903690600401610b99565b9160443590610e2c82610de1565b610e3581613748565b610e3e816140a6565b610e466137ca565b6002610e5d610c25835f52600d60205260405f2090565b610e6681610f2b565b03610d1e575f5b848110610e7657005b600190610eca84610eb9610e92865f52600f60205260405f2090565b610ea5610ea0868c8c6131fa565b612821565b60018060a01b03165f5260205260405f2090565b9060ff801983541691151516179055565b818060a01b03610ede610ea08389896131fa565b604051861515815291169084907f0b39b8705388179ba4a98df9c9c12598313d891f175dd06e571b7aaa02bd607d90602090a301610e6d565b634e487b7160e01b5f52602160045260245ffd5b60041115610f3557565b610f17565b34610406576020366003190112610406576004355f52600d602052602060ff60405f20541660405190610f6c81610f2b565b8152f35b90604051608081018181106001600160401b038211176104f157604090815283546001600160a01b031682526001840154602083015260028401549082015260039092015460ff1615156060830152565b60031115610f3557565b906003821015610f355752565b9b99979593919e9d9c9a98969492909e6102208d019f600160a01b60019003168d5261100381610f2b565b60208d015260408c0161101591610fcb565b63ffffffff1660608b01526001600160401b031660808a01526001600160401b031660a089015260c0880152151560e0870152151561010086015215156101208501526001600160a01b031661014084015263ffffffff166101608301526001600160401b031661018082015281516001600160a01b03166101a082015260208201516101c082015260408201516101e0820152606090910151151561020090910152565b34610406576020366003190112610406576004355f52600960205260405f2080549061076160018060a01b0363ffffffff926001810154936001600160401b03926002830154966003840154611126600561111f60048801546001600160401b031690565b9601610f70565b95604051998a99868460b81c16968b878660181c169760ff8760101c169760ff808960081c16981696808660401c169516938160b01c169260ff8260a81c169260ff8360a01c16921690610fd8565b34610406576020366003190112610406576004355f526010602052608060405f205463ffffffff604051918181168352818160201c166020840152818160401c16604084015260601c166060820152f35b34610406576020366003190112610406576004356111e3816109cf565b60018060a01b03165f526007602052602060405f2054604051908152f35b34610406575f36600319011261040657602060ff600454166040519015158152f35b3461040657602036600319011261040657600435611240816109cf565b60018060a01b03165f526003602052602060ff60405f2054166040519015158152f35b34610406576020366003190112610406576004355f52600e602052602060405f2054604051908152f35b34610406575f3660031901126104065760206040517f6666bf5bfee463d10a7fc50448047f8a53b7762d7e28fbc5c643182785f3fd3f8152f35b3461040657604036600319011261040657608061130c6024356112e9816109cf565b6004355f52600b60205260405f209060018060a01b03165f5260205260405f2090565b60ff8154916002600182015491015490604051938452602084015263ffffffff8116604084015260201c1615156060820152f35b34610406575f3660031901126104065760206040517fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c217758152f35b34610406575f366003190112610406576001546001600160a01b039081811633036113e0575f5491339083167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a36001600160a01b031991821633175f5516600155005b604051630614e5c760e21b8152600490fd5b634e487b7160e01b5f52603260045260245ffd5b805482101561141f575f52600560205f20910201905f90565b6113f2565b34610406576040366003190112610406576024356004355f52600a60205260405f209081548110156104065761145991611406565b508054600182015460028301546003840154600490940154604080516001600160a01b03909516855260208501939093529183015263ffffffff9092166060820152608081019190915260a090f35b34610406576020366003190112610406576004356114c461439c565b80156115035760055460408051918252602082018390527f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a7391a1600555005b60405162461bcd60e51b815260206004820152601960248201527f436f6f6c646f776e206d75737420626520706f736974697665000000000000006044820152606490fd5b34610406575f36600319011261040657611560614312565b6115686137ca565b600160ff1960045416176004557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a1005b3461040657604036600319011261040657602060ff6115e76024356115c5816109cf565b6004355f52600f845260405f209060018060a01b03165f5260205260405f2090565b54166040519015158152f35b3461040657602036600319011261040657600435611610816109cf565b61161861439c565b6001600160a01b03165f818152600360205260409020805460ff811661163a57005b60ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b34610406576020366003190112610406576104b633600435614554565b34610406575f366003190112610406575f546040516001600160a01b039091168152602090f35b34610406576116b836610765565b9030330361179f57825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f20541561178d57845f5260205260405f206040519182602083549182815201925f5260205f20915f905b828210611776578861173a610c978a8a8a611735818c03826104f6565b614f86565b611764577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2005b60405163cf6c44e960e01b8152600490fd5b835485529384019360019384019390910190611718565b60405163d66ca67560e01b8152600490fd5b60405162461bcd60e51b815260206004820152600960248201526827b7363c9039b2b63360b91b6044820152606490fd5b346104065760403660031901126104065760206024356117ef816109cf565b5f546001600160a01b03828116911614908115611812575b506040519015158152f35b6004355f9081526002845260408082206001600160a01b0390931682526020929092522060ff915054165f611807565b34610406576020366003190112610406576104b660043561186281613748565b6132bc565b6020366003190112610406576104b660043561188281613748565b613398565b34610406576020366003190112610406576004356118a4816109cf565b60018060a01b03165f526006602052602060405f2054604051908152f35b34610406576020366003190112610406576004355f526012602052602060405f2054604051908152f35b3461040657604036600319011261040657602061191660243561190e816109cf565b600435613594565b604051908152f35b6080366003190112610406576004356064356001600160401b0381116104065761194c9036906004016103d9565b611957839293613748565b61196082613777565b6119686137ca565b335f52600660205261197d60405f20546137e8565b815f52600960205260405f20600261199a825460ff9060a01c1690565b6119a381610f2b565b036104b8576119b19061380e565b60076119c5835f52600a60205260405f2090565b541015611a03576119f46119ec6104b6946119e46104a8368684610570565b933691610570565b604435613877565b916119fe83614846565b613ba8565b60405163f9910d2b60e01b8152600490fd5b34610406576020366003190112610406576004355f526014602052608060405f2080549060ff6001820154169063ffffffff6003600283015492015416916040519384521515602084015260408301526060820152f35b34610406575f366003190112610406576020600554604051908152f35b34610406576020366003190112610406576004355f52600a602052602060405f2054604051908152f35b34610406575f36600319011261040657602060405160108152f35b34610406576020366003190112610406576004355f908152600c6020908152604091829020805460019091015483516001600160a01b03909216825291810191909152f35b34610406576040366003190112610406576020611b3d602435611b35816109cf565b6004356135f1565b6040519015158152f35b34610406575f3660031901126104065760206040517fc1df76f4e50bdb95676f782d4b88b23904c5346d8bc7c986ae26f7e10e6018918152f35b346104065760203660031901126104065760048035611b9f81613748565b611ba8816140a6565b611bba815f52600960205260405f2090565b91611bcd825f52600a60205260405f2090565b54611c7d576003830190611be5610c97835460ff1690565b611c07575b5050611c016104b6925b546001600160a01b031690565b906146fb565b6001840154611c299060401c6001600160401b03165b6001600160401b031690565b4210611c6e5750805460ff191660011790556104b691611c0190827fac4a907ec29adcc56774b757ecb1e1b4d597374fc9386107d05e2670259df7d35f80a292611bea565b604051636c58631760e01b8152fd5b600383015460ff8160101c165f14611d4757600884015460ff16908115611cf9575b50611cea57611cc86001600160401b03611cc2838601546001600160401b031690565b16612f81565b4210611cdb5750611c016104b692611bf4565b60405163027dee1f60e01b8152fd5b6040516312d37ee560e31b8152fd5b611d419150611d36600291611d16865f52600b60205260405f2090565b60189190911c6001600160a01b03165f9081526020919091526040902090565b015460201c60ff1690565b5f611c9f565b60081c60ff1615611cea5750611c016104b692611bf4565b34610406576040366003190112610406576104b6602435600435611d82826109cf565b611d8b816141e6565b614554565b34610406576020366003190112610406576004355f52601360205260a060405f20805490600181015490600281015460046003830154920154926040519485526020850152604084015260608301526080820152f35b3461040657602036600319011261040657600435611e0381613748565b611e0c816140a6565b805f52601260205260405f20548015611e8b57816104b6925f526009602052600560405f2060126020525f6040812055611e4c815460018060a01b031690565b60405185815290936001600160a01b038516917f579e0e2d0cfdb23711bb6034ac9f2ba41e8965a8e24589d1c3cf5604868661fc90602090a30161460b565b6040516312d37ee560e31b8152600490fd5b34610406575f3660031901126104065760206040516127118152f35b3461040657602036600319011261040657600435611ed681613748565b611edf81613fe3565b611ee76137ca565b335f526007602052611efc60405f20546137e8565b611f1e6003611f13835f52600960205260405f2090565b015460081c60ff1690565b6108c257611f34815f52600a60205260405f2090565b5480156108b057611f4d825f52600960205260405f2090565b805460029060a01c60ff16611f6181610f2b565b036120fc575b805460039060a01c60ff16611f7b81610f2b565b036120aa5760010154611f999060401c6001600160401b0316611c1d565b8042105f1461209e5750611fd8611fb1425b84612ff2565b611fc3845f52601160205260405f2090565b9063ffffffff1663ffffffff19825416179055565b612067611fe4836148c8565b612050611ff082615078565b93612039612013612009885f52601160205260405f2090565b5463ffffffff1690565b61201b610517565b928884525f60208501526040840152606083019063ffffffff169052565b61204b855f52601460205260405f2090565b61366f565b612062835f52601560205260405f2090565b6136c3565b335f9081526007602052604090204290557f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c5f80a3005b611fb1611fd891611fab565b6003016120bb610c97825460ff1690565b6120c6575b50611fd8565b805460ff19166001179055817fac4a907ec29adcc56774b757ecb1e1b4d597374fc9386107d05e2670259df7d35f80a25f6120c0565b601061211a612113855f52601360205260405f2090565b5484612fac565b1161212e5761212982846140ec565b611f67565b604051633f5f76f160e01b8152600490fd5b34610406575f366003190112610406576001546040516001600160a01b039091168152602090f35b34610406575f366003190112610406576020604051620f42408152f35b34610406575f3660031901126104065760206040517f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a8152f35b34610406576020366003190112610406576004355f526011602052602063ffffffff60405f205416604051908152f35b34610406575f36600319011261040657602060405160078152f35b3461040657602036600319011261040657600435612227816109cf565b5f546001600160a01b0390811691338390036122c2571690811561227d57600180546001600160a01b031916831790557f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227005f80a3005b60405162461bcd60e51b815260206004820152601960248201527f4e6577206f776e6572206973207a65726f2061646472657373000000000000006044820152606490fd5b6040516330cd747160e01b8152600490fd5b949a9b869d9a9997989c969493966122ea6137ca565b6001600160401b039c95428e88161061280d575b8d8088169116111561278c5761231384610f2b565b600384149b8c8061279e575b61278c5761232c85610f2b565b600285149d8e1561277c5763ffffffff8716801590811561276f575b505b61275d5760208c013590811591821561272a575b8d83156126c4575b5050506126b2578e9d600160a01b600190039e8f9061238490612821565b16151580612677575b6126655761239a8a610fc1565b60028a149081612654575b50612642576123bf926123b9913691610570565b90613877565b948515612630576123cf86613c15565b506123da3387614d47565b886008546123e790612849565b9e8f9a8b986123f58a600855565b6124078a5f52600960205260405f2090565b80546001600160a01b0319163317815590612422888361285c565b61242c8c83612880565b815463ffffffff60b01b191660b08a901b63ffffffff60b01b161782556001820180546001600160401b038c166fffffffffffffffffffffffffffffffff1990911617604086901b6fffffffffffffffff000000000000000016179055600282015561249b91906005016128a4565b604051968796339a6124ad978961294e565b037f710ba61482ed8a49eca0263decdcd86203182a3b0ecf3bebb5e2ada1129576de91a36124e0936125da575b50613ce3565b6124f86124ec83612821565b6001600160a01b031690565b61250157505090565b61251c82612517855f52600c60205260405f2090565b612b13565b61252b6124ec6124ec84612821565b91602081013592803b15610406576040516323b872dd60e01b815233600482015230602482015260448101859052905f908290606490829084905af19283156125d5576125a47f9ee3a6a11df5cd1b14530e1bace89ddc9b59d3502e6a0615d65ac84d83c27238936125b69388966125bc575b50612821565b60405195865216939081906020820190565b0390a390565b806125c96125cf926104de565b806108d4565b5f61259e565b612b2e565b6126268161261a7f6863bf37e94f6038249f6b233717803e2dfdd91ed3b3c05b1cc6a921d6cce96d93612615865f52601060205260405f2090565b6129f8565b60405191829182612ab7565b0390a2845f6124da565b6040516344253aa160e01b8152600490fd5b60405163ac3dfaed60e01b8152600490fd5b905061265f86610f2b565b5f6123a5565b6040516327b3518960e11b8152600490fd5b5061268186610f2b565b808161238d575060408c0135158c8161269b575b5061238d565b6126ac91506060610c97910161282b565b8c612695565b6040516345d65d6960e01b8152600490fd5b6126d39192935060600161282b565b91826126e4575b50505f808d612366565b9091506001600160a01b036126f88e612821565b161591821561271c575b8215612712575b50505f806126da565b1190505f80612709565b60408e013515159250612702565b91506001600160a01b0361273d8e612821565b1615158061274c575b9161235e565b506127568d612821565b3b15612746565b60405163524f409b60e01b8152600490fd5b620f42409150115f612348565b600163ffffffff8816141561234a565b604051631b742d9d60e31b8152600490fd5b5063ffffffff806127b160408d01612817565b16159081156127f5575b81156127c8575b5061231f565b90506127d660208c01612817565b906127ec6127e38d612817565b63ffffffff1690565b9116115f6127c2565b90506128066127e360608d01612817565b15906127bb565b428e1696506122fe565b356105c1816105ec565b356105c1816109cf565b356105c181610de1565b634e487b7160e01b5f52601160045260245ffd5b5f1981146128575760010190565b612835565b9061286681610f2b565b815460ff60a01b191660a09190911b60ff60a01b16179055565b906003811015610f3557815460ff60a81b191660a89190911b60ff60a81b16179055565b600360606105db936128d681356128ba816109cf565b85546001600160a01b0319166001600160a01b03909116178555565b60208101356001850155604081013560028501550135916128f683610de1565b019060ff801983541691151516179055565b5f5b8381106129195750505f910152565b818101518382015260200161290a565b9060209161294281518092818552858086019101612908565b601f01601f1916010190565b96936129e99563ffffffff6105c19a98939561297f6060966101609861297381610f2b565b8d5260208d0190610fcb565b1660408a01526001600160401b03809216848a015216608088015280356129a5816109cf565b6001600160a01b031660a0880152602081013560c0880152604081013560e088015201356129d281610de1565b151561010086015280610120860152840190612929565b91610140818403910152612929565b90612a1d8135612a07816105ec565b835463ffffffff191663ffffffff909116178355565b602081013590612a2c826105ec565b67ffffffff0000000083549260201b168067ffffffff0000000019841617845560606bffffffff00000000000000006040840135612a69816105ec565b60401b169283836bffffffffffffffff00000000198716171786550135612a8f816105ec565b63ffffffff60601b9060601b16926fffffffffffffffffffffffff0000000019161717179055565b9190916060608082019381813591612ace836105ec565b63ffffffff8093168552826020820135612ae7816105ec565b166020860152826040820135612afc816105ec565b1660408601520135612b0d816105ec565b16910152565b906020600191612b2781356128ba816109cf565b0135910155565b6040513d5f823e3d90fd5b600581901b91906001600160fb1b0381160361285757565b8181029291811591840414171561285757565b91612b81906105c194928452606060208501526060840190612929565b916040818403910152612929565b91908260409103126104065760208251612ba881610de1565b9201516105c1816105ec565b90816060910312610406578051612bca81610de1565b9160406020830151612ba8816105ec565b612bed815f52601460205260405f2090565b9160018301612bfd815460ff1690565b612f6f578354948251612c21612c1b865f52601560205260405f2090565b54612b39565b03612f5d57303b15610406575f612c4e916040518093819263481753d760e11b8352878960048501612b64565b038183305af19081612f4a575b50612c72576040516309bde33960e01b8152600490fd5b612c84855f52600960205260405f2090565b90600382019182549260ff8460081c166108c2578792855195612caf60208083019883010188612b8f565b9590966003612cc3875460ff9060a01c1690565b612ccc81610f2b565b149081612f41575b81612f35575b5080612f13575b612ea5577f1b22e53fa00e1e976d0368bbb6271b7facd07ded4d716ae47b7e52c3aa6c2de298995f98886002612d1c895460ff9060a01c1690565b612d2581610f2b565b03612df457505093612d4d879694610ccd612da095612def9a956002612dbf9a015490613ea2565b805460188a901b6301000000600160b81b031661010162ffffff199092168a151560101b62ff00001617919091176301000000600160d81b0319161760b89290921b63ffffffff60b81b16919091179055565b600401805467ffffffffffffffff1916426001600160401b0316179055565b6040805193151584526001600160a01b03909416602084015263ffffffff16928201929092529081906060820190565b0390a3565b9092939150612e17575b50505091612da084612dbf93612d4d612def9796610ccd565b610cb8985093612d4d879694612e976002612e86612da097612e75612e67612e4d612def9f9a6020612dbf9f8051010190612bb4565b915050612e62845f52600a60205260405f2090565b611406565b50546001600160a01b031690565b9e8f915f52600b60205260405f2090565b01805463ffffffff19166001179055565b9496975050938b9250612dfe565b5050805460ff19166001179055507fb65ebaf8899193ceb30396c281ed876741e40b148740d0ae6edf856c09ff393a95612f0e9550612ef79450600393509150612eec9050565b015463ffffffff1690565b60405163ffffffff90911681529081906020820190565b0390a2565b506001850154612f2e9060401c6001600160401b0316611c1d565b4210612ce1565b60ff915016155f612cda565b88159150612cd4565b806125c9612f57926104de565b5f612c5b565b60405163fdf70a8160e01b8152600490fd5b60405163dbde098160e01b8152600490fd5b9062093a80820180921161285757565b906003820180921161285757565b9190820180921161285757565b9190820391821161285757565b634e487b7160e01b5f52601260045260245ffd5b8115612fd7570490565b612fb9565b63ffffffff918216908216039190821161285757565b5f52601060205260405f2060096020526130226001600160401b03600160405f200154166001600160401b031690565b908183111561308a5761304e61304261305992549363ffffffff95612fac565b848460601c1690612fcd565b838360401c16612b51565b91808083169260201c16926130716127e38585612fdc565b811015613084576105c193501690612fdc565b50505090565b5463ffffffff1691506105c19050565b9060405191602083015260208252604082018281106001600160401b038211176104f157604052565b6130d5815f52600960205260405f2090565b916130ec81610cb8845f52600b60205260405f2090565b92613102610c97600383015460ff9060081c1690565b80156131dc575b80156131cb575b611e8b576131336001600160401b03611cc260048401546001600160401b031690565b42106131b9576008015460ff166131ae578254928315611e8b577f0c571f4af5f51b5de554c87f3eec5bbf2d1af66617c2864d5bd48fd81a31afe6915f612def9255613187845f52601260205260405f2090565b613192868254612f9f565b90556040519485526001600160a01b0316939081906020820190565b906105db92506143fe565b60405163027dee1f60e01b8152600490fd5b50600284015460201c60ff16613110565b5063ffffffff6131f3600286015463ffffffff1690565b1615613109565b919081101561141f5760051b0190565b5f546001600160a01b03828116911614908115613225575090565b6001600160a01b03165f9081527f94c3bd0dfc5945c05e282308da377831f607b9ad6b1190e6a98965a8084c210b6020526040902060ff9150541690565b5f546001600160a01b0382811691161490811561327e575090565b6001600160a01b03165f9081527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc56020526040902060ff9150541690565b6132ce815f52600960205260405f2090565b906132f66132e4825f52600b60205260405f2090565b335f9081526020919091526040902090565b9161330c610c97600383015460ff9060081c1690565b8015613379575b611e8b57600881015460ff1661336c578254918215611e8b575f9093556040518281526105db9333917f6909eb935886ad8c734c29844350c36b0260f7006ff58559a3c286a9e7c8d87890602090a3600533910161460b565b506105db915033906143fe565b5063ffffffff613390600285015463ffffffff1690565b161515613313565b6133aa815f52600960205260405f2090565b6133bf6132e4835f52600b60205260405f2090565b906133d5610c97600383015460ff9060081c1690565b8015613576575b611e8b5760028201916133f4835460ff9060201c1690565b61355157600582019161340b600882015460ff1690565b15613447575050505061341e33826143fe565b5f818152600c60205260409020546001600160a01b031661343c5750565b6105db9033906146fb565b6001600160401b03611cc260046134669301546001600160401b031690565b42101561353f5761349561347a3386613594565b935f8354935564010000000064ff0000000019825416179055565b6134a7845f52601260205260405f2090565b6134b2848254612f9f565b9055604051838152339085907f61ac8e9b735e72d1382cbf7d35f2ff3764dae09d7faf7d90787bf7f9ae76e4c890602090a3815461350b906001600160a01b031682851115613538576135058386612fac565b906147eb565b82811161351b575b50505061341e565b6135309261352891612fac565b90339061460b565b5f8080613513565b5f906147eb565b604051630e5b50f160e11b8152600490fd5b50505034613564576105db9033906146fb565b60405163569e8c1160e01b8152600490fd5b5063ffffffff61358d600284015463ffffffff1690565b16156133dc565b906105c1915f52600960205260066135e86135d560405f2093600b602052600263ffffffff92839260405f209060018060a01b03165f5260205260405f2090565b01541690600385015460b81c1690612b51565b91015490612b51565b805f52600d60205260ff60405f20541661360a81610f2b565b600181146136675761361b81610f2b565b15613649575f908152600f602090815260408083206001600160a01b0390941683529290522060ff90541690565b506001600160a01b03165f9081526003602052604090205460ff1690565b505050600190565b600363ffffffff60606105db948051855561369f60208201511515600187019060ff801983541691151516179055565b6040810151600286015501511691019063ffffffff1663ffffffff19825416179055565b8151916001600160401b0383116104f157600160401b83116104f1578154838355808410613722575b506136ff6020809201925f5260205f2090565b905f5b848110613710575050505050565b83518382015592810192600101613702565b825f528360205f2091820191015b81811061373d57506136ec565b5f8155600101613730565b801590811561376b575b5061375957565b6040516307145c5f60e11b8152600490fd5b9050600854105f613752565b61378133826135f1565b156137895750565b5f52600d60205260ff60405f2054166137a181610f2b565b156137b857604051637c75aa6f60e11b8152600490fd5b604051631a40715960e11b8152600490fd5b60ff600454166137d657565b604051633b3b4caf60e21b8152600490fd5b60055481018091116128575742106137fc57565b60405163aa9a98df60e01b8152600490fd5b6001810154906001600160401b0390818316421061386557600301549160ff8316928315613857575b508215613847575b50506109a057565b60401c1642101590505f8061383f565b60081c60ff1692505f613837565b6040516301dff5d560e71b8152600490fd5b5f805160206159b5833981519152546138c39260209290916138a3906124ec906001600160a01b031681565b905f60405180968195829463196d0b9b60e01b84523390600485016149e4565b03925af19081156125d5575f91613943575b505f805160206159d5833981519152546138f9906124ec906001600160a01b031681565b803b1561040657604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156125d557613936575090565b806125c96105c1926104de565b613965915060203d60201161396b575b61395d81836104f6565b8101906149d5565b5f6138d5565b503d613953565b8054600160401b8110156104f15761398f91600182018155611406565b9190916139fb57805182546001600160a01b0319166001600160a01b039190911617825560049060809060208101516001850155604081015160028501556139f463ffffffff606083015116600386019063ffffffff1663ffffffff19825416179055565b0151910155565b634e487b7160e01b5f525f60045260245ffd5b905f90613a1a81614846565b613a2c835f52600960205260405f2090565b91613a3b600884015460ff1690565b613b82575b612def908293613a5d5f8051602061599583398151915294613c15565b50613a683386614d47565b81613b69575b6005810154613a8e906007906001600160a01b03169201918254906147eb565b54613ab0613aa833610cb8895f52600b60205260405f2090565b918254612f9f565b90555f6002613ad4613aca885f52600960205260405f2090565b5460a81c60ff1690565b613add81610fc1565b14613b4c575b335f908152600660205260409020613b339190429055613b0b875f52600a60205260405f2090565b613b13610536565b338152918760208401528460408401525f60608401526080830152613972565b6040805194855260208501919091523393918291820190565b50613b33613b586155de565b613b6181613c15565b509050613ae3565b613b7282613c15565b50613b7d3383614d47565b613a6e565b50612def613b9e5f805160206159958339815191529285614a2b565b9092509050613a40565b91613bb282614846565b613bc4835f52600960205260405f2090565b600881015460ff16613bed575b5f8051602061599583398151915291612def91613a5d85613c15565b91613c0a5f8051602061599583398151915292612def9286614b91565b909391509150613bd1565b6105c13082614d47565b356105c1816105c4565b903590601e198136030182121561040657018035906001600160401b03821161040657602001918160051b3603831361040657565b90613c6881610f2b565b60ff80198354169116179055565b903590601e198136030182121561040657018035906001600160401b0382116104065760200191813603831361040657565b92849260809592613cb881610f2b565b8552602085015260606040850152816060850152848401375f828201840152601f01601f1916010190565b613cec82613c1f565b90613cf682610f2b565b60208301359160031482151514801590613e56575b610d1e57613d1883613c1f565b613d2181610f2b565b15613e5157807f3c43e70a27a53383c9737f8a08db8427eaa1e7e675974bd361b6008bb92dd012613da993613d6f613d5887613c1f565b613d6a855f52600d60205260405f2090565b613c5e565b80613d82845f52600e60205260405f2090565b55613d8c86613c1f565b613d996060880188613c76565b6040979160405194859485613ca8565b0390a25f5b82840190613dbc8286613c29565b9050811015613e4a57613e0d6124ec610ea083613e0186613e07610ccd8c610ea5610ea087613e018f9e60019f613dfb905f52600f60205260405f2090565b95613c29565b906131fa565b8a613c29565b837f0b39b8705388179ba4a98df9c9c12598313d891f175dd06e571b7aaa02bd607d865180613e4181906001602083019252565b0390a301613dae565b5050505050565b505050565b506002613e6284613c1f565b613e6b81610f2b565b14158015613d0b5750613e816040840184613c29565b90501515613d0b565b91909163ffffffff8080941691160191821161285757565b919091613eb7815f52600a60205260405f2090565b915f5b848110613ec8575050505050565b80613eeb613edf613eda600194612f91565b612b39565b84015163ffffffff1690565b63ffffffff811615613fdd57613f1e816003613f07858a611406565b50019063ffffffff1663ffffffff19825416179055565b613f716002613f45613f38885f52600b60205260405f2090565b610ea5612e67878c611406565b01613f5d83613f58835463ffffffff1690565b613e8a565b63ffffffff1663ffffffff19825416179055565b847fc8ce890458735755b585994668f16da3fcd3ebac2bca2bcfd72c0923545ebcc4613fd3613fa0858a611406565b505460a087901b879003906001600160a01b03166040805188815263ffffffff9097166020880152911694918291820190565b0390a35b01613eba565b50613fd7565b5f8181526009602052604090206001600160a01b0391908290541633148015614097575b6140935760016140276001600160401b03925f52600960205260405f2090565b015460401c16421015614090575f541633148015614059575b1561404757565b6040516393687c0b60e01b8152600490fd5b50335f9081527fd3e86884c2837ce4082ee3d7271e12708d008b07bf141cd4690b578c719c231c602052604090205460ff16614040565b50565b5050565b506140a13361320a565b614007565b5f9081526009602052604090206001600160a01b03905416331480156140dd575b6105db576040516393687c0b60e01b8152600490fd5b506140e73361320a565b6140c7565b906140ff825f52601360205260405f2090565b908082541015613e515773__$6a7874a205880041f5c8015eccef1acd16$__614130845f52600960205260405f2090565b90614143855f52600a60205260405f2090565b90803b15610406575f926084916040519687948593632b5d00f760e11b85526004850152602484015260448301528560648301525af49182156125d5577f8dc3ec6796713ee19ae4fd4cd94d45f1fa4bceef108b589473d4acbb17c5aacf926141d3575b506141ba835f52600a60205260405f2090565b5460408051928352602083019190915281908101612f0e565b806125c96141e0926104de565b5f6141a7565b7fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775810361422a57505f54614222906001600160a01b03166124ec565b33036122c257565b7fc1df76f4e50bdb95676f782d4b88b23904c5346d8bc7c986ae26f7e10e60189181149081156142e8575b81156142be575b50156142ac5761426e610c9733613263565b61427457565b60405163322ce61b60e11b81527fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c217756004820152602490fd5b604051636caa20b560e11b8152600490fd5b7f6666bf5bfee463d10a7fc50448047f8a53b7762d7e28fbc5c643182785f3fd3f9150145f61425c565b7f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a81149150614255565b5f546001600160a01b031633148015614365575b1561432d57565b60405163322ce61b60e11b81527f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a6004820152602490fd5b50335f9081527faa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b93602052604090205460ff16614326565b6143a533613263565b1561427457565b9192915f915b8083106143c0575050501490565b9091926143ce8483856131fa565b3590818110156143ed575f52602052600160405f205b930191906143b2565b905f52602052600160405f206143e4565b346135645761441982610cb8835f52600b60205260405f2090565b91600183019182548015611e8b576144ee8260059260026105db985f6144566144458a6144fc9a613594565b946001600160401b03861690614db1565b995561446a845f52601260205260405f2090565b614475848254612f9f565b90550163ffffffff61448b825463ffffffff1690565b16614501575b505061449c86613c15565b506144a78587614d47565b6040518681526001600160a01b0386169082907f025d5f916ce99c8ebbe0efcc6f1bfaf2c1737a56cbdb9f2c6eeadca430b947a890602090a35f52600960205260405f2090565b01546001600160a01b031690565b614e4b565b805464ff0000000019166401000000001790556040519081526001600160a01b0386169082907f61ac8e9b735e72d1382cbf7d35f2ff3764dae09d7faf7d90787bf7f9ae76e4c890602090a35f80614491565b5f8181526002602090815260408083206001600160a01b038616845290915290205460ff16614581575050565b5f8181526002602090815260408083206001600160a01b03861684529091529020805460ff1916905533916001600160a01b0316907ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4565b3d15614606573d906145ed82610555565b916145fb60405193846104f6565b82523d5f602084013e565b606090565b600381015460ff161561464257546105db92919061463c906001600160401b03906001600160a01b031693166156d6565b91614e4b565b546001600160a01b03168061467c57505f80809381935af16146626145dc565b501561466a57565b6040516312171d8360e31b8152600490fd5b60405163a9059cbb60e01b60208201526001600160a01b03909216602483015260448201929092526105db916146bf82606481015b03601f1981018452836104f6565b615629565b90604051604081018181106001600160401b038211176104f15760405282546001600160a01b031681526001909201546020830152565b90614716614711835f52600c60205260405f2090565b6146c4565b80516001600160a01b039391929190841615611e8b5761474c614741825f52600c60205260405f2090565b60015f918281550155565b604051938216907f864770fbb7b941a6786c903702a45aabd43b239f42d4e1edaf46c9735f97b1085f80a38151602090614790906124ec906001600160a01b031681565b92015191803b15610406576323b872dd60e01b84523060048501526001600160a01b0391909116602484015260448301919091525f908290606490829084905af180156125d5576147de5750565b806125c96105db926104de565b6001600160a01b0316806148025750340361356457565b90346135645780614811575050565b6040516323b872dd60e01b602082015233602482015230604482015260648101919091526105db916146bf82608481016146b1565b1561263057565b9060209081838203126104065782516001600160401b0393848211610406570181601f820112156104065780519384116104f1578360051b9060405194614896858401876104f6565b85528380860192820101928311610406578301905b8282106148b9575050505090565b815181529083019083016148ab565b6148da815f52600960205260405f2090565b9060026148ec835460ff9060a01c1690565b6148f581610f2b565b1461499857806149236120096149145f945f52601360205260405f2090565b925f52601160205260405f2090565b604051632bd060e960e21b81526004810194909452602484019190915263ffffffff1660448301528180606481015b038173__$6a7874a205880041f5c8015eccef1acd16$__5af49081156125d5575f9161497c575090565b6105c191503d805f833e61499081836104f6565b81019061484d565b614952916149af5f925f52600a60205260405f2090565b6040516391d1c21d60e01b81526004810192909252602482015291829081906044820190565b90816020910312610406575190565b9392614a1090600493606093875260018060a01b03166020870152608060408701526080860190612929565b930152565b6001600160401b03809116908115612fd7570490565b614a3d815f52600960205260405f2090565b91614a5260068401546001600160401b031690565b614a9d6005614a8e614a7f614a668661589b565b94614a79614a7382614a15565b87615350565b956153d1565b614a87615683565b90856158ee565b9501546001600160a01b031690565b90614aa88286615940565b604051630b3c06f560e41b81523360048201523060248201526044810186905291602090839060649082905f906001600160a01b03165af19081156125d557614b5295614b44935f93614b57575b506001614b2a614b16614b3b94614b10614b339588615452565b906154d6565b97610cb833915f52600b60205260405f2090565b0192835461555a565b808355613c15565b50339054614d47565b614b4c615729565b916158ee565b905f90565b614b33919350614b2a614b16614b3b94614b10614b8460019560203d60201161396b5761395d81836104f6565b9795505094505050614af6565b9290614ba5845f52600960205260405f2090565b90614bba60068301546001600160401b031690565b91614bc48261589b565b908515159384614d02575b6005614c02614bf383614bed614be7614c1196614a15565b88615350565b966153d1565b614bfb615683565b90866158ee565b9201546001600160a01b031690565b91614c1c8383615940565b604051630b3c06f560e41b81523360048201523060248201526044810183905292602090849060649082905f906001600160a01b03165af19182156125d557614c94935f93614cc8575b506001614b2a614c80614b3b94614b10614b339588615452565b9a610cb833915f52600b60205260405f2090565b614c9c615729565b91614cb1575b614cad9293946158ee565b9190565b614cc082614cad9495876158ee565b939250614ca2565b614b33919350614b2a614c80614b3b94614b10614cf560019560203d60201161396b5761395d81836104f6565b9795505094505050614c66565b916005614c02614bf3614d3c614c1194614d36614d318d614d2b8a5463ffffffff9060b01c1690565b906151cb565b61589b565b906152cc565b959350505050614bcf565b5f805160206159d5833981519152546001600160a01b031691823b1561040657604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af180156125d557614da85750565b6105db906104de565b6001600160401b03916020918015614e39575b5f805160206159b5833981519152546040516303056db360e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156125d5575f91614e20575090565b6105c1915060203d60201161396b5761395d81836104f6565b506064614e44615683565b9050614dc4565b5f805160206159d5833981519152546001600160a01b039081169390929091905f853b1561040657604051630f8e573b60e21b8152600481018590526001600160a01b0384166024820152955f908790604490829084905af19485156125d557614eed96602096614f17575b5060405163170856b560e01b81526001600160a01b03909316600484015260248301949094529094859384929183906044820190565b0393165af180156125d557614eff5750565b6140909060203d60201161396b5761395d81836104f6565b614f229192506104de565b5f905f614eb7565b6020929190614f40849282815194859201612908565b019081520190565b9081602091031261040657516105c181610de1565b91612b8190614f786105c19593606086526060860190610a93565b908482036020860152612929565b919080519160209383850193848611612857576040018094116128575761501393614fbd8694610c60604051938492888401614f2a565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f90614ff5906124ec906001600160a01b031681565b92604051968795869485936378542ead60e01b855260048501614f5d565b03925af19182156125d5575f9261502957505090565b6105c19250803d10615048575b61504081836104f6565b810190614f48565b503d615036565b9291615068918452606060208501526060840190610a93565b91604063124bd04b60e01b910152565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f805160206159d58339815191525490939291906150c3906124ec906001600160a01b031681565b803b15610406575f6040518092637d6e912360e11b82528183816150ea8960048301610ac6565b03925af180156125d5576151b8575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254615130906124ec906001600160a01b031681565b90813b15610406575f6040518093633263b83b60e01b8252818381615159898c6004840161504f565b03925af180156125d5576105db936151819361517b926151a5575b50866157c7565b54612849565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b806125c96151b2926104de565b5f615174565b806125c96151c5926104de565b5f6150f9565b801561524e575b6020906152399263ffffffff5f6152026124ec6124ec5f805160206159b58339815191525460018060a01b031690565b6040516304559f7160e01b81526004810195909552929091166024840152600160f81b604484015291938492839182906064820190565b03925af19081156125d5575f91614e20575090565b505f805160206159b583398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19182156125d557615239926020925f916152af575b50915091506151d2565b6152c69150833d851161396b5761395d81836104f6565b5f6152a5565b908115615340575b801561532e575b602090606460018060a01b035f805160206159b58339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af19081156125d5575f91614e20575090565b506020615339615683565b90506152db565b905061534a615683565b906152d4565b6001600160401b039160209180156153bf575b5f805160206159b583398151915254604051631d44e90160e21b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156125d5575f91614e20575090565b5060646153ca615683565b9050615363565b6001600160401b03916020918015615440575b5f805160206159b583398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156125d5575f91614e20575090565b50606461544b615683565b90506153e4565b9081156154c6575b80156154b4575b602090606460018060a01b035f805160206159b58339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af19081156125d5575f91614e20575090565b5060206154bf615683565b9050615461565b90506154d0615683565b9061545a565b90811561554a575b8015615538575b602090606460018060a01b035f805160206159b58339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af19081156125d5575f91614e20575090565b50602061554361577b565b90506154e5565b905061555461577b565b906154de565b9081156155ce575b80156155bc575b602090606460018060a01b035f805160206159b58339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156125d5575f91614e20575090565b5060206155c7615683565b9050615569565b90506155d8615683565b90615562565b5f805160206159b583398151915254604051636baeb74560e11b815260048082015290602090829060249082905f906001600160a01b03165af19081156125d5575f91614e20575090565b905f602091828151910182855af115612b2e575f513d61567a57506001600160a01b0381163b155b6156585750565b604051635274afe760e01b81526001600160a01b039091166004820152602490fd5b60011415615651565b5f805160206159b583398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156125d5575f91614e20575090565b5f805160206159b583398151915254604051639cd07acb60e01b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af19081156125d5575f91614e20575090565b5f805160206159b583398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156125d5575f91614e20575090565b5f602060018060a01b035f805160206159b58339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af19081156125d5575f91614e20575090565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f2054615889575f5260205260405f20908251926001600160401b0384116104f157600160401b84116104f1578254848455808510615863575b5060206158409101925f5260205f2090565b905f5b848110615851575050505050565b83518382015592810192600101615843565b835f528460205f2091820191015b81811061587e575061582e565b5f8155600101615871565b604051633f06d22b60e01b8152600490fd5b5f805160206159b5833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af19081156125d5575f91614e20575090565b9060646020925f60018060a01b035f805160206159b583398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156125d5575f91614e20575090565b5f805160206159d5833981519152546001600160a01b031691823b1561040657604051630f8e573b60e21b815260048101929092526001600160a01b03166024820152905f90829081838160448101614d9756fe4783568bd6b3c0f454d0d2f02660084955b9b94cfe6c5b1576055e0965d95b919e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type AuctionSealFHEConstructorParams =
+  | [linkLibraryAddresses: AuctionSealFHELibraryAddresses, signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AuctionSealFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
+
+export class AuctionSealFHE__factory extends ContractFactory {
+  constructor(...args: AuctionSealFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        AuctionSealFHE__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
+    }
+  }
+
+  static linkBytecode(
+    linkLibraryAddresses: AuctionSealFHELibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$6a7874a205880041f5c8015eccef1acd16\\$__", "g"),
+      linkLibraryAddresses["contracts/AuctionSettlement.sol:AuctionSettlement"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AuctionSealFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AuctionSealFHE__factory {
+    return super.connect(runner) as AuctionSealFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AuctionSealFHEInterface {
+    return new Interface(_abi) as AuctionSealFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AuctionSealFHE {
+    return new Contract(address, _abi, runner) as unknown as AuctionSealFHE;
+  }
+}
+
+export interface AuctionSealFHELibraryAddresses {
+  ["contracts/AuctionSettlement.sol:AuctionSettlement"]: string;
+}
@@ -0,0 +1,368 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ConfidentialToken,
+  ConfidentialTokenInterface,
+} from "../../../contracts/ConfidentialToken.sol/ConfidentialToken";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnauthorizedAmount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "transferEncrypted",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234620004385762001305803803806200001d816200045c565b9283398101604082820312620004385781516001600160401b0392908381116200043857826200004f91830162000482565b906020928382015185811162000438576200006b920162000482565b925f6060620000796200043c565b82815282868201528260408201520152620000936200043c565b9260607350157cffd6bbfa2dece204a89ec419c23ef5755d9485815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69808483015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319967f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090888254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190878254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290868254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908582541617905582519082821162000356575f54916001948584811c941680156200042d575b8385101462000337578190601f94858111620003da575b50839085831160011462000376575f926200036a575b50505f19600383901b1c191690851b175f555b8551928311620003565783548481811c911680156200034b575b828210146200033757828111620002ef575b50809183116001146200028a5750819293945f926200027e575b50505f19600383901b1c191690821b1790555b33906002541617600255604051610e129081620004f38239f35b015190505f8062000251565b90601f19831695845f52825f20925f905b888210620002d75750508385969710620002be575b505050811b01905562000264565b01515f1960f88460031b161c191690555f8080620002b0565b8087859682949686015181550195019301906200029b565b845f52815f208380860160051c8201928487106200032d575b0160051c019085905b8281106200032157505062000237565b5f815501859062000311565b9250819262000308565b634e487b7160e01b5f52602260045260245ffd5b90607f169062000225565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620001f8565b90879350601f198316915f8052855f20925f5b87828210620003c35750508411620003aa575b505050811b015f556200020b565b01515f1960f88460031b161c191690555f80806200039c565b8385015186558b9790950194938401930162000389565b9091505f8052835f208580850160051c82019286861062000423575b918991869594930160051c01915b82811062000414575050620001e2565b5f815585945089910162000404565b92508192620003f6565b93607f1693620001cb565b5f80fd5b60405190608082016001600160401b038111838210176200035657604052565b6040519190601f01601f191682016001600160401b038111838210176200035657604052565b919080601f84011215620004385782516001600160401b0381116200035657602090620004b8601f8201601f191683016200045c565b9281845282828701011162000438575f5b818110620004de5750825f9394955001015290565b8581018301518482018401528201620004c956fe6080604081815260049182361015610015575f80fd5b5f3560e01c90816306fdde031461062557508063170856b5146105de5780632893c5b0146104a2578063313ce5671461048757806370a08231146104505780637b7e0a5a1461041c5780638da5cb5b146103f457806395d89b41146102e1578063b32c100114610257578063b3c06f501461010c578063da1f12ab146100f05763dd62ed3e146100a3575f80fd5b346100ec57806003193601126100ec576020916100be610772565b6100c6610788565b6001600160a01b039182165f908152928552838320911682528352819020549051908152f35b5f80fd5b50346100ec575f3660031901126100ec57602090516127118152f35b50346100ec5760603660031901126100ec57610126610772565b9061012f610788565b926044359261013d84610846565b156102485760018060a01b039081811691825f52602096848852855f20335f52885287865f20549760646101718a83610be1565b5f61017a610d92565b965f80516020610de683398151915254168b519788958694637702dcff60e01b86528d860152602485015260448401525af191821561023e575f92610207575b50936101d86101d18493610201976101fa966108ec565b8098610c94565b935f528752845f20335f52875282855f20556101f43084610d18565b82610d18565b3390610d18565b51908152f35b929150938783813d8311610237575b6102208183610712565b810103126100ec57915191939091906101d86101ba565b503d610216565b86513d5f823e3d90fd5b50905163dce72a6b60e01b8152fd5b5090346100ec5761027c6102ba916102826102713661079e565b959192953691610800565b90610ad7565b90335f5260205280845f209460018060a01b03841695865f526020525f20556102ab3082610d18565b6102b53382610d18565b610d18565b337ff37f546c25e850257cc0c94f92bec94a17e2f0e884ddda268a25d8144b70eb6a5f80a3005b50346100ec575f3660031901126100ec578051905f90600191600154928360011c90600185169485156103ea575b60209586841081146103d7578388528794939291879082156103b557505060011461035a575b50506103569291610347910385610712565b51928284938452830190610734565b0390f35b9085925060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6915f925b82841061039d5750505082010181610347610335565b8054848a018601528895508794909301928101610387565b60ff19168682015292151560051b850190920192508391506103479050610335565b602289634e487b7160e01b5f525260245ffd5b91607f169161030f565b50346100ec575f3660031901126100ec5760025490516001600160a01b039091168152602090f35b50346100ec5760209061044961027c6104426104373661079e565b949192943691610800565b90336108ec565b9051908152f35b50346100ec5760203660031901126100ec576020906001600160a01b03610475610772565b165f5260038252805f20549051908152f35b50346100ec575f3660031901126100ec576020905160068152f35b50346100ec57806003193601126100ec576104bb610772565b906024359167ffffffffffffffff83168093036100ec576002546001600160a01b0390811633036105ce5780602091831695865f5260038352845f20549081156105b9575b5f606492935f80516020610de683398151915254168751988995869463022f65e760e31b86528501526024840152600160f81b60448401525af19182156105b057505f9161057a575b6105539250610aad565b5f7f4853ae1b4d437c4255ac16cd3ceda3465975023f27cb141584cd9d44440fed828180a3005b90506020823d6020116105a8575b8161059560209383610712565b810103126100ec57610553915190610549565b3d9150610588565b513d5f823e3d90fd5b606491505f6105c6610d92565b925050610500565b82516330cd747160e01b81528590fd5b50346100ec57806003193601126100ec576105f7610772565b6024359261060484610846565b15610617575060209261044991336108ec565b825163dce72a6b60e01b8152fd5b919050346100ec575f3660031901126100ec575f905f549160018360011c90600185169485156106e0575b60209586841081146103d7578388528794939291879082156103b55750506001146106875750506103569291610347910385610712565b5f80805286935091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b8284106106c85750505082010181610347610335565b8054848a0186015288955087949093019281016106b2565b91607f1691610650565b67ffffffffffffffff81116106fe57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176106fe57604052565b91908251928382525f5b84811061075e575050825f602080949584010152601f8019910116010190565b60208183018101518483018201520161073e565b600435906001600160a01b03821682036100ec57565b602435906001600160a01b03821682036100ec57565b9060606003198301126100ec576004356001600160a01b03811681036100ec57916024359160443567ffffffffffffffff928382116100ec57806023830112156100ec5781600401359384116100ec57602484830101116100ec576024019190565b92919267ffffffffffffffff82116106fe576040519161082a601f8201601f191660200184610712565b8294818452818301116100ec578281602093845f960137010152565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546040516382027b6d60e01b81526004810192909252336024830152602090829060449082906001600160a01b03165afa9081156108e1575f916108a9575090565b90506020813d6020116108d9575b816108c460209383610712565b810103126100ec575180151581036100ec5790565b3d91506108b7565b6040513d5f823e3d90fd5b929160018060a01b039182851691825f5260209360038552604090610914825f205484610be1565b8661091d610d92565b9460645f80516020610de6833981519152935f868654168851998a958694637702dcff60e01b86526004860152602485015260448401525af1938415610aa3575f94610a74575b506109848499875f526003895261097e86865f2054610c94565b90610aad565b81851696875f5260038152835f205491858315610a62575b8293948715610a4f575b606491925416945f8751968794859363022f65e760e31b8552600485015260248401528160448401525af19283156105b057505f92610a1f575b50506109ef906109f993610aad565b6101fa3082610d18565b7f4853ae1b4d437c4255ac16cd3ceda3465975023f27cb141584cd9d44440fed825f80a3565b90809250813d8311610a48575b610a368183610712565b810103126100ec5751826109ef6109e0565b503d610a2c565b60649150610a5b610d92565b91506109a6565b829350610a6d610d92565b935061099c565b9093508681813d8311610a9c575b610a8c8183610712565b810103126100ec5751925f610964565b503d610a82565b83513d5f823e3d90fd5b6001600160a01b0381165f908152600360205260409020829055610ad5916102b53082610d18565b565b6020610b279260018060a01b0392835f80516020610de68339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190610734565b6005606483015203925af19182156108e1575f92610bad575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156100ec57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156108e157610ba1575090565b610baa906106ea565b90565b9091506020813d602011610bd9575b81610bc960209383610712565b810103126100ec5751905f610b40565b3d9150610bbc565b908115610c84575b8015610c72575b602090606460018060a01b035f80516020610de68339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af19081156108e1575f91610c43575090565b90506020813d602011610c6a575b81610c5e60209383610712565b810103126100ec575190565b3d9150610c51565b506020610c7d610d92565b9050610bf0565b9050610c8e610d92565b90610be9565b908115610d08575b8015610cf6575b602090606460018060a01b035f80516020610de68339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af19081156108e1575f91610c43575090565b506020610d01610d92565b9050610ca3565b9050610d12610d92565b90610c9c565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156100ec57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156108e157610d895750565b610ad5906106ea565b5f80516020610de683398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156108e1575f91610c4357509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type ConfidentialTokenConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ConfidentialTokenConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ConfidentialToken__factory extends ContractFactory {
+  constructor(...args: ConfidentialTokenConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(name_, symbol_, overrides || {});
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(name_, symbol_, overrides || {}) as Promise<
+      ConfidentialToken & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ConfidentialToken__factory {
+    return super.connect(runner) as ConfidentialToken__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ConfidentialTokenInterface {
+    return new Interface(_abi) as ConfidentialTokenInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ConfidentialToken {
+    return new Contract(address, _abi, runner) as unknown as ConfidentialToken;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ConfidentialToken__factory } from "./ConfidentialToken__factory";
+export { IConfidentialToken__factory } from "./IConfidentialToken__factory";
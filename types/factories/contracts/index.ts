@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as auctionSealSol from "./AuctionSeal.sol";
+export * as confidentialTokenSol from "./ConfidentialToken.sol";
+export * as mocks from "./mocks";
@@ -0,0 +1,520 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockERC721,
+  MockERC721Interface,
+} from "../../../contracts/mocks/MockERC721";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608034620002e9576001600160401b03906040908082018381118282101762000207578252600f81526020926e26b7b1b59021b7b63632b1ba34b7b760891b84830152825193838501858110838211176200020757845260078552661353d0d2d3919560ca1b8186015282519082821162000207575f54916001948584811c94168015620002de575b83851014620001e8578190601f948581116200028b575b50839085831160011462000227575f926200021b575b50505f19600383901b1c191690851b175f555b8551928311620002075783548481811c91168015620001fc575b82821014620001e857828111620001a0575b50809183116001146200013b5750819293945f926200012f575b50505f19600383901b1c191690821b1790555b51610bc89081620002ee8239f35b015190505f806200010e565b90601f19831695845f52825f20925f905b8882106200018857505083859697106200016f575b505050811b01905562000121565b01515f1960f88460031b161c191690555f808062000161565b8087859682949686015181550195019301906200014c565b845f52815f208380860160051c820192848710620001de575b0160051c019085905b828110620001d2575050620000f4565b5f8155018590620001c2565b92508192620001b9565b634e487b7160e01b5f52602260045260245ffd5b90607f1690620000e2565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620000b5565b90879350601f198316915f8052855f20925f5b878282106200027457505084116200025b575b505050811b015f55620000c8565b01515f1960f88460031b161c191690555f80806200024d565b8385015186558b979095019493840193016200023a565b9091505f8052835f208580850160051c820192868610620002d4575b918991869594930160051c01915b828110620002c55750506200009f565b5f8155859450899101620002b5565b92508192620002a7565b93607f169362000088565b5f80fdfe6080604090808252600480361015610015575f80fd5b5f3560e01c91826301ffc9a7146107265750816306fdde0314610660578163081812fc14610628578163095ea7b31461054d57816323b872dd1461053657816340c10f191461043857816342842e0e146104105781636352211e146103e157816370a082311461038d57816395d89b411461027e578163a22cb465146101e3578163b88d4fde1461015d578163c87b56dd1461010b575063e985e9c5146100ba575f80fd5b346101075780600319360112610107576020906100d56107ce565b6100dd6107e4565b9060018060a01b038091165f5260058452825f2091165f52825260ff815f20541690519015158152f35b5f80fd5b82346101075760203660031901126101075761012a6101599235610b81565b505f81516101378161082f565b528051906101448261082f565b5f825251918291602083526020830190610790565b0390f35b8234610107576080366003190112610107576101776107ce565b61017f6107e4565b6064359367ffffffffffffffff85116101075736602386011215610107578401356101b56101ac82610881565b9451948561085f565b8084523660248287010111610107576020815f9260246101e19801838801378501015260443591610a33565b005b82346101075780600319360112610107576101fc6107ce565b9060243591821515809303610107576001600160a01b03169283156102695750335f526005602052805f20835f52602052805f2060ff1981541660ff8416179055519081527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3160203392a3005b836024925191630b61174360e31b8352820152fd5b8234610107575f366003190112610107578051905f90600191600154928360011c9060018516948515610383575b60209586841081146103705783885287949392918790821561034e5750506001146102f3575b505061015992916102e491038561085f565b51928284938452830190610790565b9085925060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6915f925b82841061033657505050820101816102e46102d2565b8054848a018601528895508794909301928101610320565b60ff19168682015292151560051b850190920192508391506102e490506102d2565b602289634e487b7160e01b5f525260245ffd5b91607f16916102ac565b8234610107576020366003190112610107576001600160a01b036103af6107ce565b1680156103cb57602092505f5260038252805f20549051908152f35b81516322718ad960e21b81525f81850152602490fd5b8234610107576020366003190112610107576103ff60209235610b81565b90516001600160a01b039091168152f35b8234610107576101e190610423366107fa565b919251926104308461082f565b5f8452610a33565b9050346101075781600319360112610107576104526107ce565b6001600160a01b039081169060243590821561052057815f526002602052845f2054169182151592836104ee575b815f526003602052855f2060018154019055825f526002602052855f20826001600160601b0360a01b8254161790557fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a46104d957005b5f60249251916339e3563760e11b8352820152fd5b5f83815260046020526040902080546001600160a01b0319169055805f526003602052855f205f198154019055610480565b8451633250574960e11b81525f81860152602490fd5b34610107576101e1610547366107fa565b9161089d565b82346101075780600319360112610107576105666107ce565b9160243561057381610b81565b33151580610615575b806105ee575b6105d8576001600160a01b039485169482918691167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9255f80a45f526020525f20906001600160601b0360a01b8254161790555f80f35b835163a9fbf51f60e01b81523381850152602490fd5b5060018060a01b0381165f526005602052835f20335f5260205260ff845f20541615610582565b506001600160a01b03811633141561057c565b823461010757602036600319011261010757816020923561064881610b81565b505f52825260018060a01b03815f2054169051908152f35b8234610107575f366003190112610107578051905f905f549160018360011c906001851694851561071c575b60209586841081146103705783885287949392918790821561034e5750506001146106c357505061015992916102e491038561085f565b5f80805286935091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b82841061070457505050820101816102e46102d2565b8054848a0186015288955087949093019281016106ee565b91607f169161068c565b903461010757602036600319011261010757359063ffffffff60e01b8216809203610107576020916380ac58cd60e01b811490811561077f575b811561076e575b5015158152f35b6301ffc9a760e01b14905083610767565b635b5e139f60e01b81149150610760565b91908251928382525f5b8481106107ba575050825f602080949584010152601f8019910116010190565b60208183018101518483018201520161079a565b600435906001600160a01b038216820361010757565b602435906001600160a01b038216820361010757565b6060906003190112610107576001600160a01b0390600435828116810361010757916024359081168103610107579060443590565b6020810190811067ffffffffffffffff82111761084b57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff82111761084b57604052565b67ffffffffffffffff811161084b57601f01601f191660200190565b6001600160a01b039182169290918315610a1b57815f52602092600284528260409583875f2054169533151580610989575b5060029087610958575b825f5260038152885f2060018154019055835f5252865f20816001600160601b0360a01b825416179055857fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a416928383036109375750505050565b6064945051926364283d7b60e01b8452600484015260248301526044820152fd5b5f84815260046020526040812080546001600160a01b03191690558881526003825289902080545f190190556108d9565b91925090806109da575b156109a1579084915f6108cf565b8685876109be576024915190637e27328960e01b82526004820152fd5b604491519063177e802f60e01b82523360048301526024820152fd5b5033861480156109ff575b806109935750845f52600481523384885f20541614610993565b50855f5260058152865f20335f52815260ff875f2054166109e5565b604051633250574960e11b81525f6004820152602490fd5b9192610a4084838561089d565b813b610a4d575b50505050565b604051630a85bd0160e11b8082523360048301526001600160a01b03948516602483015260448201959095526080606482015260209593909216939190859082908190610a9e906084830190610790565b03815f885af15f9181610b41575b50610b0b575050503d5f14610b03573d91610ac683610881565b92610ad4604051948561085f565b83523d5f8285013e5b82519283610afe57604051633250574960e11b815260048101849052602490fd5b019050fd5b606091610add565b9193506001600160e01b031990911603610b2957505f808080610a47565b60249060405190633250574960e11b82526004820152fd5b9091508581813d8311610b7a575b610b59818361085f565b8101031261010757516001600160e01b03198116810361010757905f610aac565b503d610b4f565b5f818152600260205260409020546001600160a01b0316908115610ba3575090565b60249060405190637e27328960e01b82526004820152fdfea164736f6c6343000818000a";
+
+type MockERC721ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockERC721ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockERC721__factory extends ContractFactory {
+  constructor(...args: MockERC721ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockERC721 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockERC721__factory {
+    return super.connect(runner) as MockERC721__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockERC721Interface {
+    return new Interface(_abi) as MockERC721Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): MockERC721 {
+    return new Contract(address, _abi, runner) as unknown as MockERC721;
+  }
+}